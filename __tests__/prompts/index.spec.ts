@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CreateAntVChartPrompt,
+  DebugAntVRenderPrompt,
+  ConvertEChartsToG2Prompt,
+} from '../../src/prompts';
+
+function getText(result: { messages: Array<{ content: { text: string } }> }) {
+  return result.messages[0].content.text;
+}
+
+describe('prompts', () => {
+  it('create_antv_chart', () => {
+    const text = getText(
+      CreateAntVChartPrompt.generate({
+        requirement: 'monthly sales by region',
+        data: '[{"month":"Jan","region":"East","sales":10}]',
+      }),
+    );
+    expect(text).toContain('# Create a G2 Visualization');
+    expect(text).toContain('"region":"East"');
+    expect(text).toContain('options() method');
+    expect(text).toContain('`library: "g2"`');
+    expect(text).toContain('query_antv_document');
+  });
+
+  it('debug_antv_render', () => {
+    const text = getText(
+      DebugAntVRenderPrompt.generate({
+        library: 'g6',
+        error: 'TypeError: graph.data is not a function',
+        version: '5.x',
+      }),
+    );
+    expect(text).toContain('# Debug a G6 Rendering Issue');
+    expect(text).toContain('graph.data is not a function');
+    expect(text).toContain('## G6 5.x Context');
+    expect(text).toContain('`version: "5"`');
+  });
+
+  it('convert_echarts_to_g2', () => {
+    const text = getText(
+      ConvertEChartsToG2Prompt.generate({
+        option: "{ series: [{ type: 'bar', data: [1, 2] }] }",
+        version: '4',
+      }),
+    );
+    expect(text).toContain("type: 'bar'");
+    expect(text).toContain('chart.interval()');
+    expect(text).toContain('`version: "4"`');
+  });
+
+  it('argsSchema', () => {
+    expect(
+      DebugAntVRenderPrompt.argsSchema.safeParse({ library: 'echarts' })
+        .success,
+    ).toBe(false);
+    expect(
+      CreateAntVChartPrompt.argsSchema.safeParse({ requirement: 'pie' })
+        .success,
+    ).toBe(true);
+  });
+});
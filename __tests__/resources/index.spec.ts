@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AntVLibrariesResource,
+  AntVLibraryConventionsResource,
+  AntVLibraryKeywordsResource,
+} from '../../src/resources';
+
+describe('resources', () => {
+  it('antv_libraries', async () => {
+    const { contents } = await AntVLibrariesResource.read(
+      new URL(AntVLibrariesResource.uri),
+    );
+    const libraries = JSON.parse(contents[0].text);
+    expect(libraries).toHaveLength(9);
+    expect(libraries[0]).toMatchObject({
+      id: 'g2',
+      name: 'G2',
+      versions: ['4', '5'],
+      latestVersion: '5',
+      resources: {
+        conventions: 'antv://library/g2/conventions',
+        keywords: 'antv://library/g2/keywords',
+      },
+    });
+  });
+
+  it('antv_library_conventions', async () => {
+    const uri = new URL('antv://library/f2/conventions');
+    const { contents } = await AntVLibraryConventionsResource.read(uri, {
+      id: 'f2',
+    });
+    expect(contents[0].uri).toBe(uri.href);
+    expect(contents[0].text).toContain('# F2 Coding Conventions');
+    expect(contents[0].text).toContain('await canvas.render()');
+
+    const g2 = await AntVLibraryConventionsResource.read(
+      new URL('antv://library/g2/conventions'),
+      { id: 'g2' },
+    );
+    expect(g2.contents[0].text).toContain('## G2 5.x');
+    expect(g2.contents[0].text).toContain('## G2 4.x');
+
+    const g6 = await AntVLibraryConventionsResource.read(
+      new URL('antv://library/g6/conventions'),
+      { id: 'g6' },
+    );
+    expect(g6.contents[0].text).toContain('behaviors');
+
+    await expect(
+      AntVLibraryConventionsResource.read(
+        new URL('antv://library/echarts/conventions'),
+        { id: 'echarts' },
+      ),
+    ).rejects.toThrow('Unknown AntV library: echarts');
+  });
+
+  it('antv_library_keywords', async () => {
+    const { contents } = await AntVLibraryKeywordsResource.read(
+      new URL('antv://library/s2/keywords'),
+      { id: 's2' },
+    );
+    expect(contents[0].text).toContain('# S2 Keywords');
+    expect(contents[0].text).toContain('透视表 (Pivot Table)');
+  });
+
+  it('list and complete', () => {
+    expect(AntVLibraryKeywordsResource.list()).toHaveLength(9);
+    expect(AntVLibraryConventionsResource.list()[1].uri).toBe(
+      'antv://library/g6/conventions',
+    );
+    expect(AntVLibraryConventionsResource.complete.id('g')).toEqual([
+      'g2',
+      'g6',
+      'g',
+    ]);
+  });
+});
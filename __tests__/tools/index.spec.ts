@@ -1,23 +1,93 @@
 import { describe, expect, it } from 'vitest';
 import { default as QueryAntVDocument } from './query_antv_document.json';
 import { default as ExtractAntVTopic } from './extract_antv_topic.json';
-import { QueryAntVDocumentTool, ExtractAntVTopicTool } from '../../src/tools';
+import { default as DetectAntVProject } from './detect_antv_project.json';
+import { default as CheckAntVCode } from './check_antv_code.json';
+import { default as MigrateAntVCode } from './migrate_antv_code.json';
+import { default as RecommendAntVChart } from './recommend_antv_chart.json';
+import { default as RenderAntVChart } from './render_antv_chart.json';
+import { default as ServerStats } from './server_stats.json';
+import {
+  QueryAntVDocumentTool,
+  ExtractAntVTopicTool,
+  DetectAntVProjectTool,
+  CheckAntVCodeTool,
+  MigrateAntVCodeTool,
+  RecommendAntVChartTool,
+  RenderAntVChartTool,
+  ServerStatsTool,
+} from '../../src/tools';
 import { zodToJsonSchema } from '../schema';
 
 describe('Check tool schema', () => {
   it('QueryAntVDocument should match the expected schema', () => {
-    const { run, inputSchema, ...rest } = QueryAntVDocumentTool;
+    const { run, inputSchema, outputSchema, ...rest } = QueryAntVDocumentTool;
     expect({
       ...rest,
       inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
     }).toEqual(QueryAntVDocument);
   });
 
   it('ExtractAntVTopic should match the expected schema', () => {
-    const { run, inputSchema, ...rest } = ExtractAntVTopicTool;
+    const { run, inputSchema, outputSchema, ...rest } = ExtractAntVTopicTool;
     expect({
       ...rest,
       inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
     }).toEqual(ExtractAntVTopic);
   });
+
+  it('DetectAntVProject should match the expected schema', () => {
+    const { run, inputSchema, ...rest } = DetectAntVProjectTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+    }).toEqual(DetectAntVProject);
+  });
+
+  it('CheckAntVCode should match the expected schema', () => {
+    const { run, inputSchema, outputSchema, ...rest } = CheckAntVCodeTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
+    }).toEqual(CheckAntVCode);
+  });
+
+  it('MigrateAntVCode should match the expected schema', () => {
+    const { run, inputSchema, outputSchema, ...rest } = MigrateAntVCodeTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
+    }).toEqual(MigrateAntVCode);
+  });
+
+  it('RecommendAntVChart should match the expected schema', () => {
+    const { run, inputSchema, outputSchema, ...rest } = RecommendAntVChartTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
+    }).toEqual(RecommendAntVChart);
+  });
+
+  it('RenderAntVChart should match the expected schema', () => {
+    const { run, inputSchema, outputSchema, ...rest } = RenderAntVChartTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
+    }).toEqual(RenderAntVChart);
+  });
+
+  it('ServerStats should match the expected schema', () => {
+    const { run, inputSchema, outputSchema, ...rest } = ServerStatsTool;
+    expect({
+      ...rest,
+      inputSchema: zodToJsonSchema(inputSchema.shape),
+      outputSchema: zodToJsonSchema(outputSchema.shape),
+    }).toEqual(ServerStats);
+  });
 });
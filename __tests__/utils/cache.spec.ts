@@ -0,0 +1,137 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DocumentCache, normalizeTopic } from '../../src/utils';
+import { CancelledError } from '../../src/utils/resilience';
+
+const directory = path.join(
+  os.tmpdir(),
+  `mcp-server-antv-cache-${process.pid}`,
+);
+
+function createCache(
+  options: Partial<ConstructorParameters<typeof DocumentCache>[0]> = {},
+) {
+  return new DocumentCache({
+    enabled: true,
+    directory,
+    ttl: 60 * 1000,
+    maxEntries: 10,
+    maxSize: 1024 * 1024,
+    staleWhileRevalidate: false,
+    ...options,
+  });
+}
+
+const key = {
+  channel: 'Context7',
+  libraryId: '/antvis/g2',
+  topic: 'Tooltip, bar chart',
+  tokens: 5000,
+};
+
+describe('cache', () => {
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('normalizeTopic', () => {
+    expect(normalizeTopic(' Tooltip,bar  chart, tooltip ')).toBe(
+      'bar chart,tooltip',
+    );
+    expect(DocumentCache.getKey(key)).toBe(
+      DocumentCache.getKey({ ...key, topic: 'bar chart,tooltip' }),
+    );
+    expect(DocumentCache.getKey(key)).not.toBe(
+      DocumentCache.getKey({ ...key, tokens: 1000 }),
+    );
+    expect(DocumentCache.getKey(key)).not.toBe(
+      DocumentCache.getKey({ ...key, version: '4' }),
+    );
+  });
+
+  it('wrap caches successful results only', async () => {
+    const cache = createCache();
+    const fetcher = vi.fn().mockResolvedValue({ documentation: 'docs' });
+    expect(await cache.wrap(key, fetcher)).toEqual({ documentation: 'docs' });
+    expect(await cache.wrap(key, fetcher)).toEqual({ documentation: 'docs' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    const failing = vi
+      .fn()
+      .mockResolvedValue({ documentation: null, error: 'Timeout error' });
+    const other = { ...key, topic: 'legend' };
+    await cache.wrap(other, failing);
+    await cache.wrap(other, failing);
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches again when a shared fetch is cancelled', async () => {
+    const cache = createCache();
+    const cancelled = vi.fn().mockRejectedValue(new CancelledError());
+    const fetcher = vi.fn().mockResolvedValue({ documentation: 'docs' });
+    const [first, second] = await Promise.allSettled([
+      cache.wrap(key, cancelled),
+      cache.wrap(key, fetcher),
+    ]);
+    expect(first.status).toBe('rejected');
+    expect(second).toEqual({
+      status: 'fulfilled',
+      value: { documentation: 'docs' },
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads entries back from disk', async () => {
+    await createCache().set('a', 'docs');
+    expect(await createCache().get('a')).toEqual({
+      value: 'docs',
+      stale: false,
+    });
+  });
+
+  it('evicts the least recently used entries', async () => {
+    const cache = createCache({ directory: null, maxEntries: 2 });
+    await cache.set('a', '1');
+    await cache.set('b', '2');
+    await cache.get('a');
+    await cache.set('c', '3');
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+  });
+
+  it('expires entries after ttl', async () => {
+    vi.useFakeTimers();
+    const cache = createCache({ directory: null });
+    await cache.set('a', 'docs');
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('serves stale entries while revalidating', async () => {
+    vi.useFakeTimers();
+    const cache = createCache({ directory: null, staleWhileRevalidate: true });
+    await cache.wrap(key, async () => ({ documentation: 'old' }));
+    vi.advanceTimersByTime(61 * 1000);
+
+    const fetcher = vi.fn().mockResolvedValue({ documentation: 'new' });
+    expect(await cache.wrap(key, fetcher)).toEqual({ documentation: 'old' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    await vi.waitFor(async () => {
+      expect(await cache.get(DocumentCache.getKey(key))).toEqual({
+        value: 'new',
+        stale: false,
+      });
+    });
+  });
+
+  it('bypasses the cache when disabled', async () => {
+    const cache = createCache({ enabled: false });
+    const fetcher = vi.fn().mockResolvedValue({ documentation: 'docs' });
+    await cache.wrap(key, fetcher);
+    await cache.wrap(key, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,8 +1,59 @@
-import { describe, expect, it } from 'vitest';
-import { getLibraryId } from '../../src/utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchLibraryDocumentation, getLibraryId } from '../../src/utils';
+import { CancelledError } from '../../src/utils/resilience';
+
+// Resolve like fetch, rejecting when the signal aborts
+function mockFetch(delay: number) {
+  return vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(
+          () => resolve(new Response('TITLE: Tooltip')),
+          delay,
+        );
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      }),
+  );
+}
 
 describe('context7', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.ANTV_CONTEXT7_TIMEOUT;
+  });
+
   it('getLibraryId', () => {
     expect(getLibraryId('g2')).toBe('/antvis/g2');
+    expect(getLibraryId('g2', '5.x')).toBe('/antvis/g2');
+    expect(getLibraryId('g2', '^4.2.0')).toBe('/antvis/g2/v4');
+    expect(getLibraryId('l7', '2')).toBe('/antvis/l7');
+  });
+
+  it('fetchLibraryDocumentation times out or is cancelled', async () => {
+    vi.stubGlobal('fetch', mockFetch(1000));
+    process.env.ANTV_CONTEXT7_TIMEOUT = '0.01';
+    expect(await fetchLibraryDocumentation('/antvis/g2', 'tooltip')).toEqual({
+      documentation: null,
+      error: 'Timeout error',
+    });
+
+    delete process.env.ANTV_CONTEXT7_TIMEOUT;
+    const controller = new AbortController();
+    const pending = fetchLibraryDocumentation(
+      '/antvis/g2',
+      'tooltip',
+      undefined,
+      controller.signal,
+    );
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+
+    vi.stubGlobal('fetch', mockFetch(1));
+    expect(await fetchLibraryDocumentation('/antvis/g2', 'tooltip')).toEqual({
+      documentation: 'TITLE: Tooltip',
+    });
   });
 });
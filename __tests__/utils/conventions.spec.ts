@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { checkConventions } from '../../src/utils';
+
+function getRules(params: Parameters<typeof checkConventions>[0]) {
+  return checkConventions(params).violations.map((v) => [v.rule, v.line]);
+}
+
+describe('conventions', () => {
+  it('detect the libraries from the imports', () => {
+    expect(
+      checkConventions({
+        code: "import { Chart } from '@antv/g2';\nconst { Graph } = require('@antv/g6');",
+      }).libraries,
+    ).toEqual(['g2', 'g6']);
+    expect(
+      checkConventions({ code: "import React from 'react';" }).libraries,
+    ).toEqual([]);
+    expect(checkConventions({ code: 'const a = 1;', library: 'x6' })).toEqual({
+      libraries: ['x6'],
+      violations: [],
+    });
+  });
+
+  it('f2/no-top-level-await', () => {
+    const last = `import { Canvas, Chart } from '@antv/f2';
+const canvas = new Canvas(props);
+await canvas.render();`;
+    const [violation] = checkConventions({ code: last }).violations;
+    expect(violation).toMatchObject({
+      rule: 'f2/no-top-level-await',
+      severity: 'error',
+      line: 3,
+      column: 1,
+    });
+    expect(violation.fix).toContain('`canvas.render();`');
+
+    const followed = `${last}\nconsole.log('rendered');`;
+    expect(checkConventions({ code: followed }).violations[0].fix).toContain(
+      'async IIFE',
+    );
+
+    const wrapped = `import { Canvas } from '@antv/f2';
+(async () => {
+  await canvas.render();
+})();`;
+    expect(getRules({ code: wrapped })).toEqual([]);
+  });
+
+  it('f2/react-canvas', () => {
+    const code = `import React from 'react';
+import { Canvas, Chart, Interval } from '@antv/f2';
+
+export default () => <Canvas><Chart><Interval /></Chart></Canvas>;`;
+    expect(getRules({ code, language: 'jsx' })).toEqual([
+      ['f2/react-canvas', 2],
+    ]);
+  });
+
+  it('s2 rules', () => {
+    expect(
+      getRules({ code: "import { SheetComponent } from '@antv/s2-vue';" }),
+    ).toEqual([['s2/no-s2-vue', 1]]);
+    expect(
+      getRules({
+        code: "import { SheetComponent } from '@antv/s2-react';\nimport React from 'react';",
+      }),
+    ).toEqual([['s2/react-dependencies', 1]]);
+    expect(
+      getRules({
+        code: "import React from 'react';\nimport { createRoot } from 'react-dom/client';\nimport { SheetComponent } from '@antv/s2-react';",
+      }),
+    ).toEqual([]);
+  });
+
+  it('g2 rules by version', () => {
+    const v4 = `import { Chart } from '@antv/g2';
+const chart = new Chart({ container: 'container' });
+chart.data(data);
+chart.interval().position('genre*sold').color('genre');
+chart.render();`;
+    expect(getRules({ code: v4 })).toEqual([
+      ['g2/prefer-options', 4],
+      ['g2/no-v4-api', 4],
+    ]);
+    expect(getRules({ code: v4, version: '4' })).toEqual([]);
+
+    const v5 = `import { Chart } from '@antv/g2';
+const chart = new Chart({ container: 'container' });
+chart.options({ type: 'interval', data, encode: { x: 'genre', y: 'sold' } });
+chart.render();`;
+    expect(getRules({ code: v5 })).toEqual([]);
+    // View-level calls are valid in 5.x, only marks are reported
+    const view = `import { Chart } from '@antv/g2';
+const chart = new Chart({ container: 'container' });
+chart.data(data);
+chart.legend('color', { position: 'bottom' });
+chart.line().encode('x', 'date').encode('y', 'value');`;
+    expect(getRules({ code: view })).toEqual([['g2/prefer-options', 5]]);
+    expect(getRules({ code: v5, version: '^4.2.0' })).toEqual([
+      ['g2/no-v5-api', 3],
+    ]);
+  });
+
+  it('g6 rules by version', () => {
+    const code = `import { Graph } from '@antv/g6';
+const graph = new Graph({ container: 'container', modes: { default: ['drag-canvas'] } });`;
+    expect(getRules({ code })).toEqual([['g6/behaviors', 2]]);
+    expect(getRules({ code, version: '4' })).toEqual([]);
+    expect(
+      getRules({
+        code: "const graph = new G6.Graph({ behaviors: ['drag-canvas'] });",
+        library: 'g6',
+        version: '4',
+      }),
+    ).toEqual([['g6/modes', 1]]);
+  });
+
+  it('x6/connect-to-border', () => {
+    const code = `import { Graph } from '@antv/x6';
+const graph = new Graph({
+  connecting: { connectionPoint: 'anchor' },
+});
+graph.addEdge({ source, target, connectionPoint: { name: 'anchor' } });
+graph.addEdge({ source, target, connectionPoint: 'boundary' });`;
+    expect(getRules({ code })).toEqual([
+      ['x6/connect-to-border', 3],
+      ['x6/connect-to-border', 5],
+    ]);
+  });
+
+  it('report syntax errors', () => {
+    const { violations } = checkConventions({
+      code: "import { Chart } from '@antv/g2';\nconst chart = new Chart({;",
+    });
+    expect(violations[0]).toMatchObject({
+      rule: 'syntax',
+      severity: 'error',
+      line: 2,
+    });
+    expect(violations[0].fix).toBeUndefined();
+  });
+});
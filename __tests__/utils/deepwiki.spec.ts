@@ -0,0 +1,219 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  DeepWikiClient,
+  type DeepWikiTransportType,
+} from '../../src/utils/deepwiki';
+import { CancelledError } from '../../src/utils/resilience';
+
+/**
+ * Local fake of the DeepWiki MCP server, a new server per connection.
+ */
+function createFakeDeepWiki(
+  answer: (repoName: string, question: string) => Promise<string>,
+  { failing = [] as DeepWikiTransportType[] } = {},
+) {
+  const servers: InMemoryTransport[] = [];
+  const connections: [DeepWikiTransportType, string][] = [];
+  const createTransport = vi.fn((type: DeepWikiTransportType, url: URL) => {
+    connections.push([type, url.href]);
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    if (failing.includes(type)) {
+      // Sending fails with "Not connected"
+      void serverTransport.close();
+      return clientTransport;
+    }
+    const server = new McpServer({ name: 'deepwiki', version: '1.0.0' });
+    server.registerTool(
+      'ask_question',
+      { inputSchema: { repoName: z.string(), question: z.string() } },
+      async ({ repoName, question }) => ({
+        content: [{ type: 'text', text: await answer(repoName, question) }],
+      }),
+    );
+    void server.connect(serverTransport);
+    servers.push(serverTransport);
+    return clientTransport;
+  });
+  return { createTransport, servers, connections };
+}
+
+const options = {
+  endpoint: 'https://deepwiki.test/mcp',
+  timeout: 1000,
+  healthCheckInterval: 0,
+  reconnect: { retries: 2, baseDelay: 1, maxDelay: 1 },
+};
+
+describe('deepwiki', () => {
+  it('asks questions over Streamable HTTP', async () => {
+    const fake = createFakeDeepWiki(
+      async (repoName, question) =>
+        `${repoName}: ${question}\n\nWiki pages you might want to explore:\n- Overview`,
+    );
+    const client = new DeepWikiClient({ ...options, ...fake });
+
+    const answer = await client.ask({
+      repoName: 'antvis/G2',
+      question: 'tooltip',
+    });
+    await client.ask({ repoName: 'antvis/G2', question: 'legend' });
+
+    expect(answer).toBe('antvis/G2: tooltip');
+    expect(client.transportType).toBe('streamable-http');
+    expect(fake.createTransport).toHaveBeenCalledTimes(1);
+    await client.close();
+  });
+
+  it('falls back to SSE', async () => {
+    const fake = createFakeDeepWiki(async () => 'Answer', {
+      failing: ['streamable-http'],
+    });
+    const client = new DeepWikiClient({ ...options, ...fake });
+
+    await client.ask({ repoName: 'antvis/G2', question: 'tooltip' });
+
+    expect(fake.connections).toEqual([
+      ['streamable-http', 'https://deepwiki.test/mcp'],
+      ['sse', 'https://deepwiki.test/sse'],
+    ]);
+    expect(client.transportType).toBe('sse');
+    await client.close();
+  });
+
+  it('reconnects with backoff', async () => {
+    const fake = createFakeDeepWiki(async () => 'Answer', {
+      failing: ['streamable-http', 'sse'],
+    });
+    const client = new DeepWikiClient({
+      ...options,
+      endpoint: 'https://deepwiki.test/sse',
+      ...fake,
+    });
+
+    await expect(
+      client.ask({ repoName: 'antvis/G2', question: 'tooltip' }),
+    ).rejects.toThrow('Not connected');
+    expect(fake.createTransport).toHaveBeenCalledTimes(3);
+  });
+
+  it('reconnects after the connection closes', async () => {
+    const fake = createFakeDeepWiki(async () => 'Answer');
+    const client = new DeepWikiClient({ ...options, ...fake });
+    await client.ask({ repoName: 'antvis/G2', question: 'tooltip' });
+
+    await fake.servers[0].close();
+    expect(client.connected).toBe(false);
+    await client.ask({ repoName: 'antvis/G2', question: 'legend' });
+
+    expect(fake.createTransport).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it('resets the connection after a failed call', async () => {
+    const fake = createFakeDeepWiki(async (_, question) => {
+      if (question === 'slow') await new Promise((r) => setTimeout(r, 200));
+      return 'Answer';
+    });
+    const client = new DeepWikiClient({ ...options, timeout: 50, ...fake });
+
+    await expect(
+      client.ask({ repoName: 'antvis/G2', question: 'slow' }),
+    ).rejects.toThrow('Request timed out');
+    expect(client.connected).toBe(false);
+    await client.ask({ repoName: 'antvis/G2', question: 'tooltip' });
+
+    expect(fake.createTransport).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it('keeps the connection when cancelled', async () => {
+    const fake = createFakeDeepWiki(async () => {
+      await new Promise((r) => setTimeout(r, 50));
+      return 'Answer';
+    });
+    const client = new DeepWikiClient({ ...options, ...fake });
+    const controller = new AbortController();
+
+    const answer = client.ask(
+      { repoName: 'antvis/G2', question: 'tooltip' },
+      controller.signal,
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(answer).rejects.toBeInstanceOf(CancelledError);
+    expect(client.connected).toBe(true);
+    await client.close();
+  });
+
+  it('cancels the connection attempt', async () => {
+    const fake = createFakeDeepWiki(async () => 'Answer', {
+      failing: ['streamable-http', 'sse'],
+    });
+    const client = new DeepWikiClient({
+      ...options,
+      reconnect: { retries: 2, baseDelay: 10000, maxDelay: 10000 },
+      ...fake,
+    });
+    const controller = new AbortController();
+
+    const start = Date.now();
+    const answer = client.ask(
+      { repoName: 'antvis/G2', question: 'tooltip' },
+      controller.signal,
+    );
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(answer).rejects.toBeInstanceOf(CancelledError);
+    expect(Date.now() - start).toBeLessThan(1000);
+    // The backoff stops: no attempt after the cancellation
+    await new Promise((r) => setTimeout(r, 50));
+    expect(fake.createTransport).toHaveBeenCalledTimes(2);
+    expect(client.connected).toBe(false);
+  });
+
+  it('connects again after a cancelled connection attempt', async () => {
+    const failing: DeepWikiTransportType[] = ['streamable-http', 'sse'];
+    const fake = createFakeDeepWiki(async () => 'Answer', { failing });
+    const client = new DeepWikiClient({
+      ...options,
+      reconnect: { retries: 2, baseDelay: 10000, maxDelay: 10000 },
+      ...fake,
+    });
+    const controller = new AbortController();
+
+    const cancelled = client.ask(
+      { repoName: 'antvis/G2', question: 'tooltip' },
+      controller.signal,
+    );
+    await new Promise((r) => setTimeout(r, 20));
+    failing.length = 0;
+    controller.abort();
+    // Asked before the cancelled attempt settles
+    const answer = client.ask({ repoName: 'antvis/G2', question: 'legend' });
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    expect(await answer).toBe('Answer');
+    await client.close();
+  });
+
+  it('checks the health and closes the connection', async () => {
+    const fake = createFakeDeepWiki(async () => 'Answer');
+    const client = new DeepWikiClient({ ...options, ...fake });
+
+    expect(await client.healthCheck()).toEqual({
+      healthy: true,
+      transport: 'streamable-http',
+      latency: expect.any(Number),
+    });
+    const onclose = vi.fn();
+    fake.servers[0].onclose = onclose;
+    await client.close();
+
+    expect(onclose).toHaveBeenCalled();
+    expect(client.connected).toBe(false);
+  });
+});
@@ -1,6 +1,16 @@
 import process from 'node:process';
 import { describe, expect, it } from 'vitest';
-import { getEnvLoggerLevel } from '../../src/utils';
+import {
+  getEnvLoggerLevel,
+  getEnvLoggerOptions,
+  getEnvTransport,
+  getEnvHttpOptions,
+  getEnvCacheOptions,
+  getEnvRouterOptions,
+  getEnvBackendTimeouts,
+  getEnvDeepWikiOptions,
+  getEnvLimiterOptions,
+} from '../../src/utils';
 
 describe('env', () => {
   it('getEnvLoggerLevel', () => {
@@ -10,4 +20,145 @@ describe('env', () => {
     process.env.LOGGER_LEVEL = '2';
     expect(getEnvLoggerLevel()).toBe(2);
   });
+
+  it('getEnvLoggerOptions', () => {
+    expect(getEnvLoggerOptions()).toEqual({ format: 'text', file: null });
+    process.env.LOGGER_FORMAT = 'JSON';
+    process.env.LOGGER_FILE = '/var/log/antv.log';
+    process.env.LOGGER_FILE_MAX_SIZE = '1024';
+    expect(getEnvLoggerOptions()).toEqual({
+      format: 'json',
+      file: { path: '/var/log/antv.log', maxSize: 1024, maxFiles: 5 },
+    });
+    delete process.env.LOGGER_FORMAT;
+    delete process.env.LOGGER_FILE;
+    delete process.env.LOGGER_FILE_MAX_SIZE;
+  });
+
+  it('getEnvTransport', () => {
+    expect(getEnvTransport()).toBe('stdio');
+    process.env.MCP_TRANSPORT = 'HTTP';
+    expect(getEnvTransport()).toBe('http');
+    process.env.MCP_TRANSPORT = 'unknown';
+    expect(getEnvTransport()).toBe('stdio');
+    delete process.env.MCP_TRANSPORT;
+  });
+
+  it('getEnvHttpOptions', () => {
+    expect(getEnvHttpOptions()).toEqual({
+      host: '127.0.0.1',
+      port: 3000,
+      endpoint: '/mcp',
+    });
+    process.env.MCP_HOST = '0.0.0.0';
+    process.env.MCP_PORT = '8080';
+    process.env.MCP_ENDPOINT = '/antv';
+    expect(getEnvHttpOptions()).toEqual({
+      host: '0.0.0.0',
+      port: 8080,
+      endpoint: '/antv',
+    });
+    for (const port of ['0', '70000', 'abc']) {
+      process.env.MCP_PORT = port;
+      expect(() => getEnvHttpOptions()).toThrow(
+        `Invalid MCP_PORT: ${port}. Must be an integer from 1 to 65535`,
+      );
+    }
+    delete process.env.MCP_HOST;
+    delete process.env.MCP_PORT;
+    delete process.env.MCP_ENDPOINT;
+  });
+
+  it('getEnvCacheOptions', () => {
+    expect(getEnvCacheOptions()).toMatchObject({
+      enabled: true,
+      ttl: 24 * 60 * 60 * 1000,
+      maxEntries: 500,
+      maxSize: 50 * 1024 * 1024,
+      staleWhileRevalidate: false,
+    });
+    process.env.ANTV_CACHE = 'false';
+    process.env.ANTV_CACHE_DIR = 'false';
+    process.env.ANTV_CACHE_TTL = '60';
+    process.env.ANTV_CACHE_SWR = 'true';
+    expect(getEnvCacheOptions()).toMatchObject({
+      enabled: false,
+      directory: null,
+      ttl: 60 * 1000,
+      staleWhileRevalidate: true,
+    });
+    delete process.env.ANTV_CACHE;
+    delete process.env.ANTV_CACHE_DIR;
+    delete process.env.ANTV_CACHE_TTL;
+    delete process.env.ANTV_CACHE_SWR;
+  });
+
+  it('getEnvRouterOptions', () => {
+    expect(getEnvRouterOptions()).toEqual({
+      fallbackChannels: ['Context7', 'DeepWiki', 'Local'],
+      retries: 2,
+      baseDelay: 500,
+      maxDelay: 5000,
+      failureThreshold: 3,
+      resetTimeout: 30 * 1000,
+    });
+    process.env.ANTV_FALLBACK_CHANNELS = 'Local, Context7, Unknown';
+    process.env.ANTV_RETRIES = '0';
+    expect(getEnvRouterOptions()).toMatchObject({
+      fallbackChannels: ['Local', 'Context7'],
+      retries: 0,
+    });
+    process.env.ANTV_FALLBACK_CHANNELS = 'none';
+    expect(getEnvRouterOptions().fallbackChannels).toEqual([]);
+    delete process.env.ANTV_FALLBACK_CHANNELS;
+    delete process.env.ANTV_RETRIES;
+  });
+
+  it('getEnvBackendTimeouts', () => {
+    expect(getEnvBackendTimeouts()).toEqual({
+      Context7: 30000,
+      DeepWiki: 60000,
+    });
+    process.env.ANTV_DEEPWIKI_TIMEOUT = '90';
+    expect(getEnvBackendTimeouts().DeepWiki).toBe(90000);
+    delete process.env.ANTV_DEEPWIKI_TIMEOUT;
+  });
+
+  it('getEnvDeepWikiOptions', () => {
+    expect(getEnvDeepWikiOptions()).toEqual({
+      endpoint: 'https://mcp.deepwiki.com/mcp',
+      healthCheckInterval: 60000,
+    });
+    process.env.ANTV_DEEPWIKI_ENDPOINT = 'http://localhost:3000/sse';
+    process.env.ANTV_DEEPWIKI_HEALTH_CHECK = 'false';
+    expect(getEnvDeepWikiOptions()).toEqual({
+      endpoint: 'http://localhost:3000/sse',
+      healthCheckInterval: 0,
+    });
+    delete process.env.ANTV_DEEPWIKI_ENDPOINT;
+    delete process.env.ANTV_DEEPWIKI_HEALTH_CHECK;
+  });
+
+  it('getEnvLimiterOptions', () => {
+    expect(getEnvLimiterOptions().Context7).toEqual({
+      concurrency: 4,
+      rate: 1,
+      burst: 4,
+      maxQueue: 50,
+      maxWait: 30000,
+    });
+    process.env.ANTV_DEEPWIKI_CONCURRENCY = '1';
+    process.env.ANTV_DEEPWIKI_RATE = '6';
+    process.env.ANTV_QUEUE_TIMEOUT = '5';
+    expect(getEnvLimiterOptions().DeepWiki).toEqual({
+      concurrency: 1,
+      rate: 0.1,
+      burst: 1,
+      maxQueue: 50,
+      maxWait: 5000,
+    });
+    delete process.env.ANTV_DEEPWIKI_CONCURRENCY;
+    delete process.env.ANTV_DEEPWIKI_RATE;
+    delete process.env.ANTV_QUEUE_TIMEOUT;
+  });
 });
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deduplicateSections,
+  mergeDocumentation,
+  splitSections,
+} from '../../src/utils/hybrid';
+
+const context7 = `TITLE: Stacked Area Chart
+DESCRIPTION: Stack areas with the stackY transform.
+SOURCE: https://github.com/antvis/g2/blob/v5/site/docs/area.md
+
+LANGUAGE: javascript
+CODE:
+\`\`\`
+chart.options({ type: 'area', transform: [{ type: 'stackY' }] });
+\`\`\`
+
+----------------------------------------
+
+TITLE: Area Overview
+DESCRIPTION: An area chart fills the space below a line.
+SOURCE: https://github.com/antvis/g2/blob/v5/site/docs/area-overview.md`;
+
+const deepwiki = `Areas are marks in G2.
+
+## Stacking
+
+Use the stackY transform:
+
+\`\`\`javascript
+chart.options({ type: 'area', transform: [{ type: 'stackY' }] });
+\`\`\`
+
+## Tooltip
+
+\`\`\`javascript
+chart.options({ type: 'area', interaction: { tooltip: { shared: true } } });
+\`\`\``;
+
+describe('hybrid', () => {
+  it('splitSections', () => {
+    expect(splitSections('Context7', context7)).toHaveLength(2);
+    const sections = splitSections('DeepWiki', deepwiki);
+    expect(sections.map((s) => s.hasCode)).toEqual([false, true, true]);
+    expect(sections[1].content).toMatch(/^## Stacking/);
+  });
+
+  it('deduplicateSections', () => {
+    const sections = [
+      ...splitSections('Context7', context7),
+      ...splitSections('DeepWiki', deepwiki),
+    ];
+    const deduplicated = deduplicateSections(sections);
+    expect(deduplicated).toHaveLength(4);
+    expect(deduplicated.some((s) => s.content.startsWith('## Stacking'))).toBe(
+      false,
+    );
+  });
+
+  it('mergeDocumentation', () => {
+    const merged = mergeDocumentation([
+      { source: 'Context7', documentation: context7 },
+      { source: 'DeepWiki', documentation: deepwiki },
+    ]);
+    const sections = merged.split(
+      '\n\n----------------------------------------\n\n',
+    );
+    expect(sections.map((s) => s.split('\n')[0])).toEqual([
+      '**Source**: Context7',
+      '**Source**: DeepWiki',
+      '**Source**: Context7',
+      '**Source**: DeepWiki',
+    ]);
+    expect(sections[0]).toContain('TITLE: Stacked Area Chart');
+    expect(sections[1]).toContain('## Tooltip');
+  });
+});
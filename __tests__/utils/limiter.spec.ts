@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BackendBusyError, BackendLimiter } from '../../src/utils/limiter';
+import { CancelledError } from '../../src/utils/resilience';
+
+const options = {
+  concurrency: 2,
+  rate: 100,
+  burst: 2,
+  maxQueue: 10,
+  maxWait: 1000,
+};
+
+describe('limiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves the sessions in turn within the concurrency', async () => {
+    const limiter = new BackendLimiter('Context7', options);
+    const started: string[] = [];
+    const releases = await Promise.all([
+      limiter.acquire('a'),
+      limiter.acquire('a'),
+    ]);
+    // Session `a` queues three more subtasks before `b` asks once
+    const waiting = ['a1', 'a2', 'a3', 'b1'].map((id) =>
+      limiter.acquire(id[0]).then((release) => {
+        started.push(id);
+        return release;
+      }),
+    );
+    expect(limiter.queued).toBe(4);
+
+    releases.forEach((release) => release());
+    const release = await waiting[0];
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    expect(started).toEqual(['a1', 'b1']);
+
+    release();
+    await vi.waitFor(() => expect(started).toHaveLength(3));
+    expect(started[2]).toBe('a2');
+  });
+
+  it('limits the rate with a token bucket', async () => {
+    vi.useFakeTimers();
+    const limiter = new BackendLimiter('DeepWiki', {
+      ...options,
+      concurrency: 10,
+      rate: 1,
+      burst: 1,
+      maxWait: 10000,
+    });
+    const fn = vi.fn().mockResolvedValue('ok');
+    const runs = [1, 2, 3].map(() => limiter.run('a', undefined, fn));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await Promise.all(runs)).toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('rejects with a busy error when the queue is full or too slow', async () => {
+    vi.useFakeTimers();
+    const limiter = new BackendLimiter('Context7', {
+      ...options,
+      concurrency: 1,
+      rate: 0.5,
+      burst: 1,
+      maxQueue: 1,
+    });
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('b');
+    await expect(limiter.acquire('c')).rejects.toThrow(
+      'backend busy, retry after 4s',
+    );
+
+    const rejected = expect(waiting).rejects.toBeInstanceOf(BackendBusyError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejected;
+    expect(limiter.queued).toBe(0);
+  });
+
+  it('leaves the queue when cancelled', async () => {
+    const limiter = new BackendLimiter('Context7', {
+      ...options,
+      concurrency: 1,
+    });
+    const release = await limiter.acquire('a');
+    const controller = new AbortController();
+    const waiting = limiter.acquire('a', controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+    expect(limiter.queued).toBe(0);
+
+    // The released slot goes to the next request
+    release();
+    release();
+    const fn = vi.fn().mockResolvedValue('ok');
+    expect(await limiter.run('b', undefined, fn)).toBe('ok');
+  });
+});
@@ -0,0 +1,119 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildLocalIndex, queryLocalDocumentation } from '../../src/utils';
+import { parseMarkdown, tokenize } from '../../src/utils/local';
+
+const root = path.join(os.tmpdir(), `mcp-server-antv-local-${process.pid}`);
+const docs = path.join(root, 'docs');
+const indexPath = path.join(root, 'local-index.json');
+
+describe('local', () => {
+  beforeAll(async () => {
+    await fs.mkdir(path.join(docs, 'examples'), { recursive: true });
+    await fs.writeFile(
+      path.join(docs, 'tooltip.md'),
+      `---
+title: Tooltip
+---
+
+## Overview
+
+提示信息 (Tooltip) shows the data of the hovered element.
+
+## Custom Tooltip
+
+Render the tooltip with a custom render function.
+
+\`\`\`js
+chart.interaction('tooltip', { render: () => '<div></div>' });
+\`\`\`
+`,
+    );
+    await fs.writeFile(
+      path.join(docs, 'legend.md'),
+      `# Legend\n\nThe legend shows the color encoding.\n`,
+    );
+    await fs.writeFile(
+      path.join(docs, 'examples', 'area-stacked.ts'),
+      `chart.options({ type: 'area', transform: [{ type: 'stackY' }] });`,
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('tokenize', () => {
+    expect(tokenize('stackY Area')).toEqual(['stacky', 'stack', 'area']);
+    expect(tokenize('提示信息')).toEqual(['提示', '示信', '信息']);
+  });
+
+  it('parseMarkdown', () => {
+    const documents = parseMarkdown(
+      `# Chart\n\nIntro\n\n## Render\n\n\`\`\`ts\nchart.render();\n\`\`\`\n`,
+      'chart.md',
+    );
+    expect(documents).toEqual([
+      { title: 'Chart', description: 'Intro', source: 'chart.md', codes: [] },
+      {
+        title: 'Chart > Render',
+        description: '',
+        source: 'chart.md',
+        codes: [{ language: 'ts', code: 'chart.render();' }],
+      },
+    ]);
+  });
+
+  it('returns an error without index', async () => {
+    const { documentation, error } = await queryLocalDocumentation(
+      'g2',
+      'tooltip',
+      1000,
+      path.join(root, 'missing.json'),
+    );
+    expect(documentation).toBeNull();
+    expect(error).toContain('mcp-server-antv index --library g2');
+  });
+
+  it('builds and queries the index', async () => {
+    const result = await buildLocalIndex({
+      library: 'g2',
+      directory: docs,
+      indexPath,
+    });
+    expect(result.documents).toBe(4);
+
+    const { documentation } = await queryLocalDocumentation(
+      'g2',
+      'custom tooltip',
+      5000,
+      indexPath,
+    );
+    expect(documentation).toMatch(/^TITLE: Tooltip > Custom Tooltip\n/);
+    expect(documentation).toContain('SOURCE: tooltip.md');
+    expect(documentation).toContain(
+      'LANGUAGE: js\nCODE:\n```\nchart.interaction',
+    );
+    expect(documentation).not.toContain('Legend');
+
+    const stacked = await queryLocalDocumentation(
+      'g2',
+      'stack area',
+      5000,
+      indexPath,
+    );
+    expect(stacked.documentation).toContain(
+      path.join('examples', 'area-stacked.ts'),
+    );
+
+    const other = await queryLocalDocumentation(
+      'g6',
+      'tooltip',
+      5000,
+      indexPath,
+    );
+    expect(other.documentation).toBeNull();
+  });
+});
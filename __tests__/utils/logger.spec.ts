@@ -1,39 +1,144 @@
-import { describe, expect, it, vi } from 'vitest';
-import { logger } from '../../src/utils';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { logger, runWithLogContext } from '../../src/utils';
+import {
+  FileSink,
+  Logger,
+  LogLevel,
+  McpLoggingSink,
+  StderrSink,
+} from '../../src/utils/logger';
+
+const directory = path.join(
+  os.tmpdir(),
+  `mcp-server-antv-logger-${process.pid}`,
+);
 
 describe('logger', () => {
+  let stderr: ReturnType<typeof vi.spyOn>;
+  let stdout: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    stdout = vi.spyOn(process.stdout, 'write');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
   it('debug', () => {
-    console.debug = vi.fn();
     logger.debug('This is a debug message', { key: 'value' });
 
-    expect(console.debug).not.toHaveBeenCalled();
+    expect(stderr).not.toHaveBeenCalled();
   });
 
   it('info', () => {
-    console.info = vi.fn();
     logger.info('This is a info message', { key: 'value' });
 
-    expect(console.info).toHaveBeenCalledWith(expect.stringContaining('INFO'), {
-      key: 'value',
-    });
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /\[INFO\] This is a info message \{ key: 'value' \}/,
+      ),
+    );
+    // Stdout carries the JSON-RPC messages of the stdio transport
+    expect(stdout).not.toHaveBeenCalled();
   });
 
   it('warn', () => {
-    console.warn = vi.fn();
     logger.warn('This is a warn message', { key: 'value' });
 
-    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('WARN'), {
-      key: 'value',
-    });
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining('WARN'));
   });
 
   it('error', () => {
-    console.error = vi.fn();
-    logger.error('This is a error message', { key: 'value' });
+    logger.error('This is a error message', new Error('Timeout'));
+
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringMatching(/\[ERROR\] This is a error message Error: Timeout/),
+    );
+  });
 
-    expect(console.error).toHaveBeenCalledWith(
-      expect.stringContaining('ERROR'),
-      { key: 'value' },
+  it('JSON lines with request IDs', async () => {
+    const jsonLogger = new Logger(LogLevel.DEBUG, 'Test', [
+      new StderrSink('json'),
+    ]);
+    await runWithLogContext({ requestId: 3, sessionId: 'abc' }, async () => {
+      await Promise.resolve();
+      jsonLogger.debug('Querying', { library: 'g2' });
+    });
+    jsonLogger.info('Done');
+
+    const [first, second] = stderr.mock.calls.map((c) =>
+      JSON.parse(String(c[0])),
+    );
+    expect(first).toEqual({
+      time: expect.any(String),
+      level: 'debug',
+      logger: 'Test',
+      message: 'Querying',
+      requestId: 3,
+      sessionId: 'abc',
+      details: [{ library: 'g2' }],
+    });
+    expect(second).not.toHaveProperty('requestId');
+  });
+
+  it('FileSink rotates by size', async () => {
+    const file = path.join(directory, 'server.log');
+    const fileLogger = new Logger(LogLevel.INFO, '', [
+      new FileSink({ path: file, maxSize: 200, maxFiles: 2 }),
+    ]);
+    for (let i = 0; i < 8; i++) fileLogger.info(`Message ${i}`);
+
+    expect((await fs.readdir(directory)).sort()).toEqual([
+      'server.log',
+      'server.log.1',
+      'server.log.2',
+    ]);
+    const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n');
+    expect(JSON.parse(lines[lines.length - 1]).message).toBe('Message 7');
+    expect((await fs.stat(file)).size).toBeLessThanOrEqual(200);
+  });
+
+  it('McpLoggingSink honors logging/setLevel', async () => {
+    const server = new Server(
+      { name: 'test', version: '1.0.0' },
+      { capabilities: { logging: {} } },
     );
+    const mcpLogger = new Logger(LogLevel.ERROR, 'Test', []);
+    mcpLogger.addSink(new McpLoggingSink(server));
+    const client = new Client({ name: 'client', version: '1.0.0' });
+    const messages: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => {
+      messages.push(n.params);
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+
+    mcpLogger.debug('Hidden');
+    mcpLogger.info('Cache hit', { topic: 'tooltip' });
+    await client.setLoggingLevel('debug');
+    mcpLogger.debug('Shown');
+    // Records of other sessions are not forwarded
+    runWithLogContext({ sessionId: 'other' }, () => mcpLogger.error('Other'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(messages).toEqual([
+      { level: 'info', logger: 'Test', data: "Cache hit { topic: 'tooltip' }" },
+      { level: 'debug', logger: 'Test', data: 'Shown' },
+    ]);
+    await client.close();
   });
 });
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  getPrometheusMetrics,
+  metrics,
+  resetMetrics,
+  trackToolCall,
+} from '../../src/utils';
+import {
+  Counter,
+  Histogram,
+  trackBackendRequest,
+} from '../../src/utils/metrics';
+
+describe('metrics', () => {
+  beforeEach(() => resetMetrics());
+
+  it('Counter', () => {
+    const counter = new Counter('requests_total', 'Requests');
+    counter.inc({ tool: 'a', status: 'success' });
+    counter.inc({ status: 'success', tool: 'a' }, 2);
+    counter.inc({ tool: 'b "x"', status: 'error' });
+    expect(counter.get({ tool: 'a', status: 'success' })).toBe(3);
+    expect(counter.get({ tool: 'c' })).toBe(0);
+    expect(counter.toPrometheus()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{tool="a",status="success"} 3',
+        'requests_total{tool="b \\"x\\"",status="error"} 1',
+      ].join('\n'),
+    );
+  });
+
+  it('Histogram', () => {
+    const histogram = new Histogram('duration_seconds', 'Duration', [1, 2, 4]);
+    [0.5, 1.5, 1.5, 3, 10].forEach((v) => histogram.observe({ b: 'x' }, v));
+    expect(histogram.get({ b: 'x' })).toMatchObject({ sum: 16.5, count: 5 });
+    expect(histogram.quantile({ b: 'x' }, 0.5)).toBeCloseTo(1.75);
+    expect(histogram.quantile({ b: 'x' }, 0.99)).toBe(4);
+    expect(histogram.quantile({ b: 'y' }, 0.5)).toBeNull();
+    expect(histogram.toPrometheus()).toContain(
+      [
+        'duration_seconds_bucket{b="x",le="1"} 1',
+        'duration_seconds_bucket{b="x",le="2"} 3',
+        'duration_seconds_bucket{b="x",le="4"} 4',
+        'duration_seconds_bucket{b="x",le="+Inf"} 5',
+        'duration_seconds_sum{b="x"} 16.5',
+        'duration_seconds_count{b="x"} 5',
+      ].join('\n'),
+    );
+  });
+
+  it('trackToolCall', async () => {
+    await trackToolCall('query_antv_document', { library: 'g2' }, async () => ({
+      content: [],
+    }));
+    await trackToolCall('query_antv_document', { library: 'g6' }, async () => ({
+      isError: true,
+    }));
+    await expect(
+      trackToolCall('check_antv_code', {}, async () => {
+        throw new Error('Invalid arguments');
+      }),
+    ).rejects.toThrow('Invalid arguments');
+
+    const { toolCalls, libraryRequests, toolDuration } = metrics;
+    expect(
+      toolCalls.get({ tool: 'query_antv_document', status: 'success' }),
+    ).toBe(1);
+    expect(
+      toolCalls.get({ tool: 'query_antv_document', status: 'error' }),
+    ).toBe(1);
+    expect(toolCalls.get({ tool: 'check_antv_code', status: 'error' })).toBe(1);
+    expect(libraryRequests.get({ library: 'g2' })).toBe(1);
+    expect(toolDuration.get({ tool: 'query_antv_document' })?.count).toBe(2);
+  });
+
+  it('trackBackendRequest', async () => {
+    await trackBackendRequest('Context7', async () => ({ documentation: 'x' }));
+    await trackBackendRequest('Context7', async () => ({
+      documentation: null,
+    }));
+    await trackBackendRequest('DeepWiki', async () => ({
+      documentation: null,
+      error: 'Timeout',
+    }));
+    await expect(
+      trackBackendRequest('DeepWiki', async () => {
+        throw new Error('fetch failed');
+      }),
+    ).rejects.toThrow('fetch failed');
+
+    const { backendRequests } = metrics;
+    expect(
+      backendRequests.get({ backend: 'Context7', result: 'success' }),
+    ).toBe(1);
+    expect(backendRequests.get({ backend: 'Context7', result: 'empty' })).toBe(
+      1,
+    );
+    expect(backendRequests.get({ backend: 'DeepWiki', result: 'error' })).toBe(
+      2,
+    );
+    expect(metrics.backendDuration.get({ backend: 'DeepWiki' })?.count).toBe(2);
+
+    const text = getPrometheusMetrics();
+    expect(text).toMatch(/^# HELP antv_mcp_uptime_seconds/);
+    expect(text).toContain(
+      'antv_mcp_backend_requests_total{backend="Context7",result="success"} 1',
+    );
+    resetMetrics();
+    expect(getPrometheusMetrics()).not.toContain('backend="Context7"');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { checkConventions, migrateG2Code } from '../../src/utils';
+
+describe('migration', () => {
+  it('migrate a G2 4.x chart to the 5.x options spec', () => {
+    const code = `import { Chart } from '@antv/g2';
+
+const chart = new Chart({ container: 'container', padding: [20, 40] });
+chart.data(data);
+chart.scale('sold', { alias: 'Sales', nice: true });
+chart.axis('genre', false);
+chart.legend('genre', { position: 'top-left' });
+chart.interval().position('genre*sold').color('genre').adjust('stack');
+chart.interaction('element-active');
+chart.render();
+`;
+    const result = migrateG2Code({ code });
+    expect(result.code).toBe(`import { Chart } from '@antv/g2';
+
+const chart = new Chart({ container: 'container', paddingTop: 20, paddingRight: 40, paddingBottom: 20, paddingLeft: 40 });
+chart.options({
+  type: 'interval',
+  data,
+  encode: { x: 'genre', y: 'sold', color: 'genre' },
+  transform: [{ type: 'stackY' }],
+  scale: { y: { nice: true } },
+  axis: { y: { title: 'Sales' }, x: false },
+  legend: { color: { position: 'top' } },
+  interaction: { elementHighlight: true },
+});
+chart.render();
+`);
+    expect(result.untranslated).toEqual([]);
+    expect(result.mappings.map((m) => m.from)).toEqual([
+      'padding: [20, 40]',
+      'data(data)',
+      "scale('sold', { alias: 'Sales', nice: true })",
+      "axis('genre', false)",
+      "legend('genre', { position: 'top-left' })",
+      'interval()',
+      "position('genre*sold')",
+      "color('genre')",
+      "adjust('stack')",
+      "interaction('element-active')",
+    ]);
+    expect(result.mappings[2].note).toContain('axis options');
+    expect(result.apis).toEqual([
+      'options',
+      'interval',
+      'scale',
+      'axis',
+      'legend',
+      'interaction',
+      'stackY',
+    ]);
+    expect(
+      checkConventions({ code: result.code, version: '5' }).violations,
+    ).toEqual([]);
+  });
+
+  it('migrate several marks to the children of a view', () => {
+    const code = `fetch(url).then((data) => {
+  const chart = new G2.Chart({ container: 'container' });
+  chart.data(data);
+  chart.coordinate('theta', { radius: 0.75 });
+  chart.line().position('year*value');
+  chart.point().position('year*value').size(4);
+  chart.render();
+});`;
+    expect(migrateG2Code({ code }).code).toBe(`fetch(url).then((data) => {
+  const chart = new G2.Chart({ container: 'container' });
+  chart.options({
+    type: 'view',
+    data,
+    coordinate: { type: 'theta', outerRadius: 0.75 },
+    children: [
+      { type: 'line', encode: { x: 'year', y: 'value' } },
+      {
+        type: 'point',
+        encode: { x: 'year', y: 'value', size: 4 },
+      },
+    ],
+  });
+  chart.render();
+});`);
+  });
+
+  it('mark the code it cannot translate', () => {
+    const code = `const chart = new Chart({ container: 'container' });
+chart.data(data);
+chart.line().position('year*value').color('type', (type) => type);
+chart.annotation().text({ position: ['min', 'max'], content: 'Max' });
+chart.render();`;
+    const result = migrateG2Code({ code });
+    expect(result.untranslated.map((u) => [u.line, u.code])).toEqual([
+      [3, "color('type', (type) => type)"],
+      [
+        4,
+        "chart.annotation().text({ position: ['min', 'max'], content: 'Max' });",
+      ],
+    ]);
+    expect(result.code).toContain(
+      "// TODO(G2 5.x): `color('type', (type) => type)` - ",
+    );
+    expect(result.code).toContain(
+      '// TODO(G2 5.x): Annotations are marks in 5.x',
+    );
+    expect(result.code).toContain('chart.annotation().text(');
+  });
+
+  it('leave the event methods as is', () => {
+    const code = `const chart = new Chart({ container: 'container' });
+chart.data(data);
+chart.interval().position('genre*sold');
+chart.on('element:click', (event) => console.log(event.data));
+chart.render();`;
+    const result = migrateG2Code({ code });
+    expect(result.untranslated).toEqual([]);
+    expect(result.code).not.toContain('TODO');
+    expect(result.code).toContain(
+      "chart.on('element:click', (event) => console.log(event.data));",
+    );
+  });
+
+  it('leave 5.x code as is', () => {
+    const code = `const chart = new Chart({ container: 'container' });
+chart.options({ type: 'interval', data });
+chart.render();`;
+    expect(migrateG2Code({ code })).toEqual({
+      code,
+      mappings: [],
+      untranslated: [],
+      apis: [],
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ProgressReporter } from '../../src/utils';
+import type { ToolExtra } from '../../src/types';
+
+function createExtra(progressToken?: string) {
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  const extra = {
+    _meta: progressToken ? { progressToken } : undefined,
+    sendNotification,
+  } as unknown as ToolExtra;
+  return { extra, sendNotification };
+}
+
+describe('progress', () => {
+  it('reports increasing progress up to the number of tasks', () => {
+    const { extra, sendNotification } = createExtra('token');
+    const progress = new ProgressReporter(extra, 2);
+    progress.start(0, 'Subtask 1/2 started');
+    progress.start(1, 'Subtask 2/2 started');
+    progress.step(1, 'Subtask 2/2: connecting to DeepWiki');
+    progress.finish(0, 'Subtask 1/2 finished');
+    // No progress, no notification
+    progress.start(0, 'Subtask 1/2 started');
+    progress.finish(1, 'Subtask 2/2 finished');
+    progress.complete('Merging the subtask results');
+
+    const params = sendNotification.mock.calls.map(([n]) => n.params);
+    expect(params.map((p) => p.progress)).toEqual([0.1, 0.2, 0.3, 1.1, 1.8, 2]);
+    expect(params[2]).toEqual({
+      progressToken: 'token',
+      progress: 0.3,
+      total: 2,
+      message: 'Subtask 2/2: connecting to DeepWiki',
+    });
+    expect(sendNotification.mock.calls[0][0].method).toBe(
+      'notifications/progress',
+    );
+  });
+
+  it('keeps backend requests below finished', () => {
+    const { extra, sendNotification } = createExtra('token');
+    const progress = new ProgressReporter(extra, 1);
+    for (let i = 0; i < 10; i++) progress.step(0, 'Query: querying Local');
+    progress.finish(0, 'Query finished');
+
+    const values = sendNotification.mock.calls.map(([n]) => n.params.progress);
+    expect(values.slice(-2)).toEqual([0.8, 0.9]);
+  });
+
+  it('sends nothing without a progress token', () => {
+    const { extra, sendNotification } = createExtra();
+    const progress = new ProgressReporter(extra, 1);
+    progress.start(0, 'Querying documentation');
+    progress.complete('Formatting the documentation');
+    new ProgressReporter(undefined, 1).complete('Done');
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { checkConventions, recommendCharts } from '../../src/utils';
+import { classifyGoal, parseDataSample } from '../../src/utils/recommend';
+
+function getCharts(data: string, goal?: string) {
+  return recommendCharts({ data, goal }).candidates.map(
+    (c) => `${c.library}/${c.chart}`,
+  );
+}
+
+describe('recommend', () => {
+  it('parse CSV and JSON samples', () => {
+    expect(
+      parseDataSample('name;"note"\nA;"say ""hi"", bye"\nB;\n').records,
+    ).toEqual([
+      { name: 'A', note: 'say "hi", bye' },
+      { name: 'B', note: null },
+    ]);
+    expect(parseDataSample('{"data":[{"a":1}]}').records).toEqual([{ a: 1 }]);
+    expect(
+      parseDataSample(
+        '{"type":"FeatureCollection","features":[{"type":"Feature","properties":{"name":"a"},"geometry":{"type":"Point","coordinates":[116.4,39.9]}}]}',
+      ),
+    ).toEqual({
+      records: [{ name: 'a', lng: 116.4, lat: 39.9 }],
+      geojson: true,
+    });
+    expect(() => parseDataSample('[1, 2]')).toThrow('no records');
+    expect(() => parseDataSample('{"a":')).toThrow('Invalid JSON data');
+    expect(() => parseDataSample('a,b')).toThrow('a header row');
+  });
+
+  it('infer the field types', () => {
+    const { fields } = recommendCharts({
+      data: 'date,year,province,lng,category,sales\n2024-01-01,2024,Zhejiang,120.2,A,10\n2024-02-01 08:00,2023,Jiangsu,118.8,,12.5',
+    });
+    expect(fields.map((f) => [f.name, f.type])).toEqual([
+      ['date', 'temporal'],
+      ['year', 'temporal'],
+      ['province', 'geo'],
+      ['lng', 'geo'],
+      ['category', 'nominal'],
+      ['sales', 'quantitative'],
+    ]);
+    expect(fields[4]).toMatchObject({ distinct: 1, missing: 1 });
+  });
+
+  it('classify the analysis goal', () => {
+    expect(classifyGoal()).toBeUndefined();
+    expect(classifyGoal('Sales trend by month')).toBe('trend');
+    expect(classifyGoal('compare the share of each region')).toBe('comparison');
+    expect(classifyGoal('各品类销售额占比')).toBe('composition');
+    expect(classifyGoal('hello')).toBeUndefined();
+  });
+
+  it('rank the G2 charts by goal', () => {
+    const data = 'month,city,sales\n2024-01,A,10\n2024-02,A,12\n2024-01,B,8';
+    expect(getCharts(data)[0]).toBe('g2/line');
+    expect(getCharts(data, 'share of each city')[0]).toBe('g2/area');
+
+    const genres = 'genre,sold\nSports,275\nStrategy,115\nAction,120';
+    expect(getCharts(genres)).toEqual(['g2/bar', 'g2/pie']);
+    expect(getCharts(genres, 'proportion')).toEqual(['g2/pie', 'g2/bar']);
+
+    const { candidates } = recommendCharts({ data: genres });
+    expect(candidates[0].spec).toEqual({
+      type: 'interval',
+      encode: { x: 'genre', y: 'sold' },
+      transform: [{ type: 'sortX', by: 'y', reverse: true }],
+    });
+    for (const { code } of candidates) {
+      expect(checkConventions({ code }).violations).toEqual([]);
+    }
+  });
+
+  it('suggest L7, G6 and S2 for geo, relational and tabular data', () => {
+    expect(
+      getCharts('[{"lng":116.4,"lat":39.9,"pop":10}]', 'location')[0],
+    ).toBe('l7/point-map');
+    expect(getCharts('province,gdp\nZhejiang,10\nJiangsu,12')).toContain(
+      'l7/choropleth',
+    );
+    expect(
+      getCharts(
+        '{"nodes":[{"id":"a"},{"id":"b"}],"edges":[{"source":"a","target":"b"}]}',
+      )[0],
+    ).toBe('g6/graph');
+    expect(getCharts('from,to,amount\na,b,1\nb,c,2')[0]).toBe('g6/graph');
+    expect(
+      getCharts(
+        'region,product,channel,year,sales,profit\nEast,A,Online,2023,10,2',
+        'pivot table',
+      ).slice(0, 2),
+    ).toEqual(['s2/pivot-table', 's2/table']);
+  });
+});
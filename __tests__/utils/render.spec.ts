@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { renderG2Spec } from '../../src/utils';
+import { checkEncodedFields, findRemoteData } from '../../src/utils/render';
+
+const data = [
+  { genre: 'Sports', sold: 275 },
+  { genre: 'Strategy', sold: 115 },
+];
+
+describe('render', () => {
+  it('checkEncodedFields', () => {
+    expect(
+      checkEncodedFields({
+        type: 'interval',
+        data,
+        encode: { x: 'genre', y: 'sold', color: 'red' },
+      }),
+    ).toEqual([]);
+    const [warning] = checkEncodedFields({
+      type: 'view',
+      data: { type: 'inline', value: data },
+      children: [{ type: 'line', encode: { x: 'genre', y: 'slod' } }],
+    });
+    expect(warning).toContain("`encode.y` of the `line` mark is `'slod'`");
+    expect(warning).toContain('`genre`, `sold`');
+    // Fetched data is not checked
+    expect(
+      checkEncodedFields({
+        type: 'line',
+        data: { type: 'fetch', value: 'data.json' },
+        encode: { x: 'a', y: 'b' },
+      }),
+    ).toEqual([]);
+  });
+
+  it('reject data to fetch', async () => {
+    const spec = {
+      type: 'view',
+      data,
+      children: [
+        { type: 'line', data: { type: 'inline', value: data } },
+        {
+          type: 'point',
+          data: { type: 'fetch', value: 'http://169.254.169.254/' },
+        },
+      ],
+    };
+    expect(findRemoteData(spec)).toEqual(['spec.children[1].data']);
+
+    const result = await renderG2Spec({ spec, width: 320, height: 240 });
+    expect(result.svg).toBeNull();
+    expect(result.errors[0]).toContain('Only inline data is rendered');
+  });
+
+  // Loading G2 and jsdom takes a few seconds
+  it('render a G2 spec to SVG and PNG', { timeout: 30000 }, async () => {
+    const spec = {
+      type: 'interval',
+      data,
+      encode: { x: 'genre', y: 'sold', color: 'genre' },
+    };
+    const svg = await renderG2Spec({ spec, width: 320, height: 240 });
+    expect(svg.errors).toEqual([]);
+    expect(svg.svg).toMatch(/^<svg[^>]+xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg.svg).toContain('width="320"');
+    expect(svg.svg).toContain('Strategy');
+
+    const png = await renderG2Spec({
+      spec,
+      width: 320,
+      height: 240,
+      format: 'png',
+    });
+    expect(png.png?.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('return the rendering errors', { timeout: 30000 }, async () => {
+    const result = await renderG2Spec({
+      spec: {
+        type: 'interval',
+        data,
+        encode: { x: 'genre', y: 'slod' },
+        transform: [{ type: 'stack' }],
+      },
+      width: 320,
+      height: 240,
+    });
+    expect(result).toEqual({
+      svg: null,
+      errors: ['Unknown Component: transform.stack'],
+      warnings: [expect.stringContaining("`'slod'`, no field of the data")],
+    });
+    expect(
+      (
+        await renderG2Spec({
+          spec: { type: 'bar', data },
+          width: 320,
+          height: 240,
+        })
+      ).errors[0],
+    ).toContain('Unknown Component');
+  });
+});
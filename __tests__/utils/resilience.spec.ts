@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CancelledError,
+  CircuitBreaker,
+  createLinkedSignal,
+  createTimeoutSignal,
+  isTransientError,
+  retryWithBackoff,
+  sleep,
+} from '../../src/utils/resilience';
+
+describe('resilience', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('isTransientError', () => {
+    expect(isTransientError('Timeout error')).toBe(true);
+    expect(isTransientError('HTTP 503: Service Unavailable')).toBe(true);
+    expect(isTransientError('HTTP 429: Too Many Requests')).toBe(true);
+    expect(isTransientError('fetch failed')).toBe(true);
+    expect(isTransientError('HTTP 404: Not Found')).toBe(false);
+    expect(isTransientError('DeepWiki return Empty/Error Answer')).toBe(false);
+  });
+
+  it('retryWithBackoff', async () => {
+    const fn = vi
+      .fn()
+      .mockResolvedValueOnce('error')
+      .mockResolvedValueOnce('error')
+      .mockResolvedValueOnce('ok');
+    const { result, attempts } = await retryWithBackoff(fn, {
+      retries: 3,
+      baseDelay: 1,
+      maxDelay: 2,
+      shouldRetry: (r) => r === 'error',
+    });
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+
+    const failing = vi.fn().mockResolvedValue('error');
+    const exhausted = await retryWithBackoff(failing, {
+      retries: 1,
+      baseDelay: 1,
+      maxDelay: 2,
+      shouldRetry: (r) => r === 'error',
+    });
+    expect(exhausted).toEqual({ result: 'error', attempts: 2 });
+  });
+
+  it('stops retrying when cancelled', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      return 'error';
+    });
+    await expect(
+      retryWithBackoff(fn, {
+        retries: 3,
+        baseDelay: 60000,
+        maxDelay: 60000,
+        shouldRetry: () => true,
+        signal: controller.signal,
+      }),
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await expect(sleep(1, controller.signal)).rejects.toThrow(
+      'Request cancelled',
+    );
+  });
+
+  it('createTimeoutSignal', async () => {
+    const timeout = createTimeoutSignal(5);
+    await sleep(10);
+    expect(timeout.signal.aborted).toBe(true);
+    expect(timeout.timedOut()).toBe(true);
+
+    const controller = new AbortController();
+    const cancelled = createTimeoutSignal(60000, controller.signal);
+    controller.abort();
+    expect(cancelled.signal.aborted).toBe(true);
+    expect(cancelled.timedOut()).toBe(false);
+    cancelled.clear();
+  });
+
+  it('createLinkedSignal', () => {
+    const controller = new AbortController();
+    const linked = createLinkedSignal(controller.signal);
+    controller.abort();
+    expect(linked.signal.aborted).toBe(true);
+
+    const other = createLinkedSignal(new AbortController().signal);
+    const reason = new Error('busy');
+    other.abort(reason);
+    expect(other.signal.reason).toBe(reason);
+    other.clear();
+  });
+
+  it('CircuitBreaker', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeout: 1000,
+    });
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    // A cancelled trial lets the next one through
+    breaker.recordCancel();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+});
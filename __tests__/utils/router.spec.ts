@@ -0,0 +1,227 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackendBusyError } from '../../src/utils/limiter';
+import { CancelledError } from '../../src/utils/resilience';
+
+vi.mock('../../src/utils/context7', () => ({
+  fetchLibraryDocumentation: vi.fn(),
+}));
+vi.mock('../../src/utils/deepwiki', () => ({
+  adaptedQueryDeepWiki: vi.fn(),
+}));
+vi.mock('../../src/utils/local', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/local')>()),
+  queryLocalDocumentation: vi.fn(),
+}));
+
+const query = {
+  library: 'g2' as const,
+  libraryId: '/antvis/g2',
+  topic: 'tooltip',
+};
+
+describe('router', () => {
+  let router: typeof import('../../src/utils/router');
+  let context7: any;
+  let deepwiki: any;
+  let local: any;
+
+  beforeAll(async () => {
+    process.env.ANTV_CACHE = 'false';
+    process.env.ANTV_RETRY_DELAY = '1';
+    process.env.ANTV_CIRCUIT_THRESHOLD = '2';
+    process.env.ANTV_CONTEXT7_RATE = '60000';
+    process.env.ANTV_DEEPWIKI_RATE = '60000';
+    process.env.ANTV_CONTEXT7_CONCURRENCY = '1';
+    process.env.ANTV_DEEPWIKI_CONCURRENCY = '1';
+    process.env.ANTV_QUEUE_TIMEOUT = '0.05';
+    router = await import('../../src/utils/router');
+    context7 = (await import('../../src/utils/context7'))
+      .fetchLibraryDocumentation;
+    deepwiki = (await import('../../src/utils/deepwiki')).adaptedQueryDeepWiki;
+    local = (await import('../../src/utils/local')).queryLocalDocumentation;
+    delete process.env.ANTV_CACHE;
+    delete process.env.ANTV_RETRY_DELAY;
+    delete process.env.ANTV_CIRCUIT_THRESHOLD;
+    delete process.env.ANTV_CONTEXT7_RATE;
+    delete process.env.ANTV_DEEPWIKI_RATE;
+    delete process.env.ANTV_CONTEXT7_CONCURRENCY;
+    delete process.env.ANTV_DEEPWIKI_CONCURRENCY;
+    delete process.env.ANTV_QUEUE_TIMEOUT;
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('getFallbackChain', () => {
+    expect(router.getFallbackChain('Context7')).toEqual([
+      'Context7',
+      'DeepWiki',
+      'Local',
+    ]);
+    expect(router.getFallbackChain('Local')).toEqual([
+      'Local',
+      'Context7',
+      'DeepWiki',
+    ]);
+    expect(router.getFallbackChain('Hybrid')).toEqual(['Hybrid', 'Local']);
+  });
+
+  it('merges the Hybrid backends', async () => {
+    context7.mockResolvedValue({
+      documentation: 'TITLE: Tooltip\nDESCRIPTION: Context7 tooltip',
+    });
+    deepwiki.mockResolvedValue({
+      documentation: '## Shared tooltip\n\nDeepWiki answer',
+    });
+
+    const result = await router.queryDocumentation('Hybrid', query);
+    expect(result).toMatchObject({
+      backend: 'Hybrid',
+      sources: ['Context7', 'DeepWiki'],
+      attempts: 2,
+    });
+    expect(result.documentation).toContain('**Source**: Context7');
+    expect(result.documentation).toContain('**Source**: DeepWiki');
+    expect(local).not.toHaveBeenCalled();
+  });
+
+  it('answers from the requested channel', async () => {
+    context7.mockResolvedValue({ documentation: 'docs' });
+    expect(await router.queryDocumentation('Context7', query)).toEqual({
+      documentation: 'docs',
+      backend: 'Context7',
+      attempts: 1,
+    });
+    expect(deepwiki).not.toHaveBeenCalled();
+  });
+
+  it('reads the Local index without the cache', async () => {
+    const { documentCache } = await import('../../src/utils/cache');
+    const wrap = vi.spyOn(documentCache, 'wrap');
+    local.mockResolvedValueOnce({ documentation: 'old' });
+    local.mockResolvedValueOnce({ documentation: 'rebuilt' });
+
+    await router.queryDocumentation('Local', query);
+    const result = await router.queryDocumentation('Local', query);
+    expect(result.documentation).toBe('rebuilt');
+    expect(wrap).not.toHaveBeenCalled();
+    wrap.mockRestore();
+  });
+
+  it('retries transient errors then falls back', async () => {
+    context7.mockResolvedValue({ documentation: null, error: 'Timeout error' });
+    deepwiki.mockResolvedValue({ documentation: null });
+    local.mockResolvedValue({ documentation: 'local docs' });
+
+    const onBackendRequest = vi.fn();
+    const result = await router.queryDocumentation('Context7', query, {
+      onBackendRequest,
+    });
+    expect(result).toEqual({
+      documentation: 'local docs',
+      backend: 'Local',
+      attempts: 5,
+    });
+    expect(context7).toHaveBeenCalledTimes(3);
+    expect(onBackendRequest.mock.calls).toEqual([
+      ['Context7'],
+      ['DeepWiki'],
+      ['Local'],
+    ]);
+  });
+
+  it('returns the busy error without falling back', async () => {
+    let answer: (value: { documentation: string }) => void = () => {};
+    deepwiki.mockReturnValue(new Promise((resolve) => (answer = resolve)));
+    context7.mockResolvedValue({ documentation: 'docs' });
+
+    const pending = router.queryDocumentation('DeepWiki', query);
+    await expect(
+      router.queryDocumentation('DeepWiki', { ...query, topic: 'legend' }),
+    ).rejects.toBeInstanceOf(BackendBusyError);
+    expect(deepwiki).toHaveBeenCalledTimes(1);
+    expect(context7).not.toHaveBeenCalled();
+
+    answer({ documentation: 'wiki docs' });
+    expect((await pending).backend).toBe('DeepWiki');
+  });
+
+  it('cancels the other Hybrid backends when one is busy', async () => {
+    let answer: (value: { documentation: string }) => void = () => {};
+    deepwiki.mockReturnValueOnce(new Promise((resolve) => (answer = resolve)));
+    const signals: AbortSignal[] = [];
+    context7.mockImplementationOnce(
+      (_id: string, _topic: string, _tokens: number, signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise((_, reject) =>
+          signal.addEventListener('abort', () => reject(new CancelledError())),
+        );
+      },
+    );
+
+    const pending = router.queryDocumentation('DeepWiki', query);
+    await expect(
+      router.queryDocumentation('Hybrid', { ...query, topic: 'legend' }),
+    ).rejects.toBeInstanceOf(BackendBusyError);
+    expect(signals[0].aborted).toBe(true);
+
+    // The cancelled Context7 request released its slot
+    context7.mockResolvedValue({ documentation: 'docs' });
+    expect(
+      (await router.queryDocumentation('Context7', query)).documentation,
+    ).toBe('docs');
+    answer({ documentation: 'wiki docs' });
+    await pending;
+  });
+
+  it('skips backends with an open circuit', async () => {
+    context7.mockResolvedValue({
+      documentation: null,
+      error: 'HTTP 404: Not Found',
+    });
+    deepwiki.mockResolvedValue({ documentation: 'wiki docs' });
+
+    await router.queryDocumentation('Context7', query);
+    await router.queryDocumentation('Context7', query);
+    const calls = context7.mock.calls.length;
+
+    const result = await router.queryDocumentation('Context7', query);
+    expect(context7).toHaveBeenCalledTimes(calls);
+    expect(result).toEqual({
+      documentation: 'wiki docs',
+      backend: 'DeepWiki',
+      attempts: 1,
+    });
+  });
+
+  it('stops on cancellation without falling back', async () => {
+    const controller = new AbortController();
+    local.mockImplementation(async () => {
+      controller.abort();
+      throw new CancelledError();
+    });
+
+    await expect(
+      router.queryDocumentation('Local', query, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(local).toHaveBeenCalledTimes(1);
+    expect(context7).not.toHaveBeenCalled();
+  });
+
+  it('reports errors when no backend answers', async () => {
+    deepwiki.mockResolvedValue({
+      documentation: null,
+      error: 'DeepWiki return Empty/Error Answer',
+    });
+    local.mockResolvedValue({ documentation: null });
+
+    const result = await router.queryDocumentation('DeepWiki', query);
+    expect(result.documentation).toBeNull();
+    expect(result.backend).toBeNull();
+    expect(result.error).toContain(
+      'DeepWiki: DeepWiki return Empty/Error Answer',
+    );
+    expect(result.error).toContain('Context7: circuit open, skipped');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, parseSnippets, selectSnippets } from '../../src/utils';
+import {
+  deduplicateSnippets,
+  extractApis,
+  mergeSnippetGroups,
+  rankSnippets,
+  renderSnippets,
+} from '../../src/utils/snippets';
+
+const CONTEXT7 = `TITLE: Basic Bar Chart
+DESCRIPTION: Create a bar chart with the interval mark.
+SOURCE: https://github.com/antvis/g2/blob/v5/site/docs/interval.md#_snippet_0
+
+LANGUAGE: javascript
+CODE:
+\`\`\`
+const chart = new Chart({ container: 'container' });
+chart.interval().encode('x', 'genre');
+\`\`\`
+
+----------------------------------------
+
+TITLE: Tooltip
+DESCRIPTION: Configure the tooltip
+of a mark.
+SOURCE: https://github.com/antvis/g2/blob/v5/site/docs/tooltip.md#_snippet_1
+
+LANGUAGE: typescript
+CODE:
+\`\`\`
+chart.interaction('tooltip', true);
+\`\`\`
+
+LANGUAGE: javascript
+CODE:
+\`\`\`
+chart.tooltip(false);
+\`\`\``;
+
+const MARKDOWN = `## Stacked Area
+
+Use the stackY transform to stack areas.
+
+\`\`\`js
+chart.area().transform({ type: 'stackY' });
+\`\`\`
+
+Some explanation without code.`;
+
+describe('snippets', () => {
+  it('parse the Context7 text format', () => {
+    expect(parseSnippets(CONTEXT7)).toEqual([
+      {
+        title: 'Basic Bar Chart',
+        description: 'Create a bar chart with the interval mark.',
+        source:
+          'https://github.com/antvis/g2/blob/v5/site/docs/interval.md#_snippet_0',
+        language: 'javascript',
+        code: "const chart = new Chart({ container: 'container' });\nchart.interval().encode('x', 'genre');",
+      },
+      {
+        title: 'Tooltip',
+        description: 'Configure the tooltip of a mark.',
+        source:
+          'https://github.com/antvis/g2/blob/v5/site/docs/tooltip.md#_snippet_1',
+        language: 'typescript',
+        code: "chart.interaction('tooltip', true);\n\nchart.tooltip(false);",
+      },
+    ]);
+  });
+
+  it('parse markdown code blocks', () => {
+    expect(parseSnippets(MARKDOWN)).toEqual([
+      {
+        title: 'Stacked Area',
+        description: 'Use the stackY transform to stack areas.',
+        language: 'js',
+        code: "chart.area().transform({ type: 'stackY' });",
+      },
+    ]);
+  });
+
+  it('parse merged documentation', () => {
+    const merged = `**Source**: DeepWiki\n\n${MARKDOWN}\n\n----------------------------------------\n\n**Source**: Context7\n\n${CONTEXT7}`;
+    expect(parseSnippets(merged).map((s) => s.title)).toEqual([
+      'Stacked Area',
+      'Basic Bar Chart',
+      'Tooltip',
+    ]);
+    expect(parseSnippets('No code here.')).toEqual([]);
+  });
+
+  it('deduplicateSnippets', () => {
+    const snippet = { title: 'Bar', code: 'chart.interval();' };
+    expect(
+      deduplicateSnippets([
+        snippet,
+        { ...snippet, title: 'Bar again', code: ' chart.interval(); ' },
+        { title: 'Bar', code: 'chart.interval();;' },
+        { title: 'Line', code: 'chart.line();' },
+      ]),
+    ).toEqual([snippet, { title: 'Line', code: 'chart.line();' }]);
+  });
+
+  it('mergeSnippetGroups', () => {
+    const stacked = {
+      title: 'Stacked Area',
+      code: 'chart.area().transform();',
+    };
+    const tooltip = { title: 'Tooltip', code: 'chart.tooltip(false);' };
+    const line = { title: 'Line', code: 'chart.line();' };
+    expect(
+      mergeSnippetGroups([
+        [stacked, line],
+        [{ ...stacked, code: ' chart.area().transform(); ' }, tooltip],
+        [tooltip, stacked],
+      ]),
+    ).toEqual([
+      { snippet: stacked, groups: [0, 1, 2] },
+      { snippet: line, groups: [0] },
+      { snippet: tooltip, groups: [1, 2] },
+    ]);
+  });
+
+  it('extractApis', () => {
+    expect(
+      extractApis(
+        "const chart = new Chart({ container: 'container' });\nchart.area().encode('x', 'year').transform({ type: 'stackY' });\nchart.render();\ndata.map((d) => d);",
+      ),
+    ).toEqual(['new Chart()', 'area()', 'encode()', 'transform()']);
+  });
+
+  it('rankSnippets', () => {
+    const ranked = rankSnippets(parseSnippets(CONTEXT7), 'tooltip');
+    expect(ranked.map((s) => [s.title, s.score])).toEqual([
+      ['Tooltip', 6],
+      ['Basic Bar Chart', 0],
+    ]);
+  });
+
+  it('selectSnippets', () => {
+    const duplicated = `${CONTEXT7}\n\n----------------------------------------\n\n${CONTEXT7}`;
+    const { documentation, snippets, duplicates } = selectSnippets(
+      duplicated,
+      'How to hide the tooltip',
+    );
+    expect(duplicates).toBe(2);
+    expect(snippets.map((s) => s.title)).toEqual([
+      'Tooltip',
+      'Basic Bar Chart',
+    ]);
+    expect(documentation).toBe(renderSnippets(snippets));
+    expect(parseSnippets(documentation)).toEqual(
+      snippets.map(({ score, ...snippet }) => snippet),
+    );
+    expect(selectSnippets('Plain text.', 'tooltip')).toEqual({
+      documentation: 'Plain text.',
+      snippets: [],
+      duplicates: 0,
+    });
+  });
+
+  it('selectSnippets fills the token budget', () => {
+    const marks =
+      'area bar line pie scatter heatmap funnel radar gauge sankey treemap violin';
+    const documentation = renderSnippets(
+      marks.split(' ').map((mark) => ({
+        title: `Tooltip of the ${mark} chart`,
+        language: 'javascript',
+        code: `chart.${mark}().tooltip({ title: '${mark}' });`,
+      })),
+    );
+
+    expect(
+      selectSnippets(documentation, 'tooltip', 10000).snippets,
+    ).toHaveLength(12);
+    const fitted = selectSnippets(documentation, 'tooltip', 100);
+    expect(fitted.snippets.length).toBeGreaterThan(0);
+    expect(fitted.snippets.length).toBeLessThan(12);
+    expect(estimateTokens(fitted.documentation)).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocateTokenBudget,
+  estimateTokens,
+  truncateToTokens,
+} from '../../src/utils';
+
+const CONTEXT7 = ['Bar', 'Line', 'Pie']
+  .map(
+    (title) => `TITLE: ${title} Chart
+DESCRIPTION: Create a ${title.toLowerCase()} chart.
+
+LANGUAGE: javascript
+CODE:
+\`\`\`
+const chart = new Chart({ container: 'container' });
+chart.${title.toLowerCase()}().encode('x', 'genre').encode('y', 'sold');
+chart.render();
+\`\`\`
+`,
+  )
+  .join('\n----------------------------------------\n\n');
+
+const DEEPWIKI = `## Legend
+
+The legend is configured on the mark.
+
+\`\`\`ts
+chart.interval().legend('color', { position: 'top' });
+\`\`\`
+
+## Tooltip
+
+Tooltips are enabled by default.
+
+\`\`\`ts
+chart.interval().tooltip({ title: 'genre' });
+\`\`\`
+`;
+
+describe('tokens', () => {
+  it('estimateTokens', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('chart')).toBe(2);
+    expect(estimateTokens('图例位置')).toBe(4);
+    expect(estimateTokens('2024')).toBe(2);
+    expect(estimateTokens('----------------')).toBe(4);
+    expect(estimateTokens("chart.render('a');")).toBe(11);
+  });
+
+  it('allocateTokenBudget', () => {
+    expect(allocateTokenBudget(1000, [])).toEqual([]);
+    expect(allocateTokenBudget(1000, [1, 1])).toEqual([500, 500]);
+    expect(allocateTokenBudget(1000, [3, 1])).toEqual([750, 250]);
+    expect(allocateTokenBudget(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+    expect(allocateTokenBudget(1000, [0, 0])).toEqual([500, 500]);
+
+    // Each item gets the minimum, the rest by weight
+    expect(allocateTokenBudget(1000, [4, 0], 200)).toEqual([800, 200]);
+    // Not enough for the minimum, split evenly
+    expect(allocateTokenBudget(300, [4, 1], 200)).toEqual([150, 150]);
+    expect(allocateTokenBudget(-10, [1])).toEqual([0]);
+
+    const shares = allocateTokenBudget(5000, [5, 3, 2, 1], 200);
+    expect(shares.reduce((sum, s) => sum + s, 0)).toBe(5000);
+    expect(shares).toEqual([...shares].sort((a, b) => b - a));
+  });
+
+  it('truncateToTokens keeps documentation within the budget', () => {
+    const tokens = estimateTokens(CONTEXT7);
+    expect(truncateToTokens(CONTEXT7, tokens)).toEqual({
+      documentation: CONTEXT7,
+      tokens,
+      truncated: false,
+    });
+
+    const fit = truncateToTokens(CONTEXT7, tokens - 20);
+    expect(fit.truncated).toBe(true);
+    expect(fit.tokens).toBeLessThanOrEqual(tokens - 20);
+    expect(fit.documentation).toContain('TITLE: Bar Chart');
+    expect(fit.documentation).toContain('TITLE: Line Chart');
+    expect(fit.documentation).not.toContain('TITLE: Pie Chart');
+    expect(fit.documentation).toContain('truncated to fit the token budget');
+  });
+
+  it('truncateToTokens cuts markdown at section boundaries', () => {
+    const fit = truncateToTokens(DEEPWIKI, estimateTokens(DEEPWIKI) - 10);
+    expect(fit.truncated).toBe(true);
+    expect(fit.documentation).toContain("legend('color'");
+    expect(fit.documentation).not.toContain('tooltip({');
+    // Code blocks are never cut
+    expect(fit.documentation.match(/```/g)?.length).toBe(2);
+  });
+
+  it('truncateToTokens closes the code fence of a cut snippet', () => {
+    const code = `\`\`\`ts\n${Array.from({ length: 50 }, (_, i) => `chart.options({ index: ${i} });`).join('\n')}\n\`\`\``;
+    const fit = truncateToTokens(code, 100);
+    expect(fit.tokens).toBeLessThanOrEqual(100);
+    expect(fit.documentation).toContain('index: 0');
+    expect(fit.documentation).not.toContain('index: 49');
+    expect(fit.documentation.match(/```/g)?.length).toBe(2);
+  });
+});
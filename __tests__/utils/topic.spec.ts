@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyIntent,
+  detectQueryLibrary,
+  extractTopics,
+} from '../../src/utils';
+import { parseKeywordTable } from '../../src/utils/topic';
+
+describe('topic', () => {
+  it('classifyIntent', () => {
+    expect(classifyIntent('怎么配置堆叠面积图的描边为不同的颜色')).toBe(
+      'solve',
+    );
+    expect(classifyIntent('坐标轴文本样式怎么修改')).toBe('solve');
+    expect(classifyIntent('tooltip不显示怎么办')).toBe('solve');
+    expect(classifyIntent('帮我写一个饼图')).toBe('implement');
+    expect(classifyIntent('Create a bar chart with a legend')).toBe(
+      'implement',
+    );
+    expect(classifyIntent('Why does my chart not render')).toBe('solve');
+    expect(classifyIntent('柱状图')).toBe('solve');
+  });
+
+  it('parseKeywordTable', () => {
+    expect(parseKeywordTable('g2')).toContainEqual({
+      topic: 'Tooltip',
+      terms: ['提示信息'],
+      libraries: ['g2'],
+    });
+    expect(parseKeywordTable('g2').map((t) => t.topic)).not.toContain('Chart');
+    expect(parseKeywordTable('f2')).toContainEqual({
+      topic: 'ImageGuide',
+      terms: ['图片'],
+      libraries: ['f2'],
+    });
+    expect(parseKeywordTable('f2').map((t) => t.topic)).not.toContain(
+      'PointGuide',
+    );
+  });
+
+  it('detectQueryLibrary', () => {
+    expect(detectQueryLibrary('用 @antv/s2 做一个表格')).toBe('s2');
+    expect(detectQueryLibrary('How to use G6 with X6')).toBe('g6');
+    expect(detectQueryLibrary('画一个知识图谱，节点可以拖拽')).toBe('g6');
+    expect(detectQueryLibrary('在地图上展示飞线')).toBe('l7');
+    expect(
+      detectQueryLibrary('节点连线', [
+        { library: 'x6', packages: ['@antv/x6'] },
+      ]),
+    ).toBe('x6');
+    expect(detectQueryLibrary('a bar chart')).toBe('g2');
+  });
+
+  it('extractTopics simple', () => {
+    expect(
+      extractTopics({
+        query: '怎么配置堆叠面积图的描边为不同的颜色',
+        library: 'g2',
+        maxTopics: 5,
+      }),
+    ).toEqual({
+      library: 'g2',
+      topic: 'stack, area chart, stroke, color',
+      intent: 'solve',
+      isComplexTask: false,
+      subTasks: [],
+    });
+    expect(
+      extractTopics({ query: 'G2 柱状图的矩形树图', maxTopics: 5 }).topic,
+    ).toBe('bar chart, treemap');
+    expect(
+      extractTopics({ query: 'Add a Tooltip and legend', maxTopics: 5 }),
+    ).toMatchObject({ library: 'g2', topic: 'Tooltip, legend' });
+  });
+
+  it('extractTopics complex', () => {
+    const result = extractTopics({
+      query:
+        '创建一个折线图，添加图例和提示框，点击数据点高亮，并且支持缩放和动画',
+      maxTopics: 5,
+    });
+    expect(result.library).toBe('g2');
+    expect(result.intent).toBe('implement');
+    expect(result.isComplexTask).toBe(true);
+    expect(result.topic.split(', ')).toHaveLength(5);
+    expect(result.subTasks.length).toBeGreaterThanOrEqual(2);
+    expect(result.subTasks.length).toBeLessThanOrEqual(4);
+    expect(result.subTasks[0]).toEqual({
+      query: '创建一个折线图',
+      topic: 'line chart',
+    });
+  });
+
+  it('extractTopics fallback', () => {
+    expect(
+      extractTopics({ query: 'customize the watermark', maxTopics: 3 }).topic,
+    ).toBe('customize, watermark');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getLatestVersion,
+  getLibraryCodeStyle,
+  getVersionWarnings,
+  normalizeVersion,
+} from '../../src/utils';
+import { getVersionedQuestion } from '../../src/utils/version';
+import { getLibraryConfig } from '../../src/constant';
+
+describe('version', () => {
+  it('normalizeVersion', () => {
+    expect(normalizeVersion('4')).toBe('4');
+    expect(normalizeVersion('4.x')).toBe('4');
+    expect(normalizeVersion('^5.0.21')).toBe('5');
+    expect(normalizeVersion(undefined)).toBeUndefined();
+    expect(normalizeVersion('latest')).toBeUndefined();
+  });
+
+  it('getLatestVersion', () => {
+    expect(getLatestVersion('g2')).toBe('5');
+    expect(getLatestVersion('l7')).toBeUndefined();
+  });
+
+  it('getLibraryCodeStyle', () => {
+    expect(getLibraryCodeStyle('g2')).toBe(getLibraryConfig('g2').codeStyle);
+    expect(getLibraryCodeStyle('g2', '5.x')).toBe(
+      getLibraryConfig('g2').codeStyle,
+    );
+    expect(getLibraryCodeStyle('g2', '4')).toContain('position');
+    expect(getLibraryCodeStyle('x6', '1')).toBe(
+      getLibraryConfig('x6').codeStyle,
+    );
+  });
+
+  it('getVersionedQuestion', () => {
+    expect(getVersionedQuestion('g2', 'tooltip', '5')).toBe('tooltip');
+    expect(getVersionedQuestion('g2', 'tooltip', '4.x')).toBe(
+      'tooltip\n\nAnswer for G2 4.x (the `v4` branch).',
+    );
+  });
+
+  it('getVersionWarnings', () => {
+    expect(getVersionWarnings('g2', undefined, ['Context7'])).toEqual([]);
+    expect(getVersionWarnings('g2', '4', ['Context7', 'Local'])).toEqual([]);
+    expect(getVersionWarnings('g2', '4', ['DeepWiki'])).toEqual([
+      'The DeepWiki documentation covers G2 5.x, not the requested 4.x, APIs may differ.',
+    ]);
+    expect(getVersionWarnings('g2', '3', ['Context7'])).toHaveLength(1);
+    expect(getVersionWarnings('l7', '2', ['Context7'])[0]).toContain(
+      'not versioned',
+    );
+  });
+});
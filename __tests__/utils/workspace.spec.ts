@@ -0,0 +1,201 @@
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ToolExtra } from '../../src/types';
+import { detectAntVProject } from '../../src/utils';
+import {
+  ProjectRootsError,
+  resolveProjectRoots,
+  getMajorVersion,
+  parseNpmLockfile,
+  parsePnpmLockfile,
+  parseYarnLockfile,
+} from '../../src/utils/workspace';
+
+const root = path.join(os.tmpdir(), `mcp-server-antv-workspace-${process.pid}`);
+
+const packageJson = {
+  name: 'dashboard',
+  dependencies: {
+    '@antv/g2': '^4.2.0',
+    '@antv/s2-react': '^1.0.0',
+    react: '^18.0.0',
+  },
+  devDependencies: { '@antv/util': '^3.0.0' },
+};
+
+describe('workspace', () => {
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('getMajorVersion', () => {
+    expect(getMajorVersion('^4.2.0')).toBe(4);
+    expect(getMajorVersion('5.1.0-beta.1')).toBe(5);
+    expect(getMajorVersion('~5')).toBe(5);
+    expect(getMajorVersion('latest')).toBeUndefined();
+  });
+
+  it('parseNpmLockfile', () => {
+    const lock = {
+      lockfileVersion: 3,
+      packages: {
+        '': {},
+        'node_modules/@antv/g2': { version: '4.2.11' },
+        'node_modules/@antv/g2/node_modules/@antv/util': { version: '2.0.0' },
+      },
+    };
+    expect(parseNpmLockfile(JSON.stringify(lock))).toEqual({
+      '@antv/g2': '4.2.11',
+    });
+    expect(
+      parseNpmLockfile(
+        JSON.stringify({ dependencies: { '@antv/g6': { version: '4.8.24' } } }),
+      ),
+    ).toEqual({ '@antv/g6': '4.8.24' });
+  });
+
+  it('parseYarnLockfile', () => {
+    const classic = `# yarn lockfile v1
+
+"@antv/g2@^4.2.0":
+  version "4.2.11"
+  dependencies:
+    "@antv/util" "~2.0.5"
+
+"@antv/g2@^5.0.0":
+  version "5.1.0"
+`;
+    expect(parseYarnLockfile(classic, { '@antv/g2': '^4.2.0' })).toEqual({
+      '@antv/g2': '4.2.11',
+    });
+
+    const berry = `__metadata:
+  version: 6
+
+"@antv/g6@npm:^5.0.0":
+  version: 5.0.21
+  resolution: "@antv/g6@npm:5.0.21"
+`;
+    expect(parseYarnLockfile(berry, { '@antv/g6': '^5.0.0' })).toEqual({
+      '@antv/g6': '5.0.21',
+    });
+  });
+
+  it('parsePnpmLockfile', () => {
+    const v9 = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      '@antv/g2':
+        specifier: ^5.0.0
+        version: 5.1.0(react@18.2.0)
+      react:
+        specifier: ^18.0.0
+        version: 18.2.0
+
+packages:
+
+  '@antv/g2@5.1.0':
+    resolution: {integrity: sha512-xxx}
+`;
+    expect(parsePnpmLockfile(v9)).toEqual({ '@antv/g2': '5.1.0' });
+
+    const v5 = `lockfileVersion: 5.4
+
+dependencies:
+  '@antv/x6': 1.34.14
+
+packages:
+
+  /@antv/x6/1.34.14:
+    resolution: {integrity: sha512-xxx}
+`;
+    expect(parsePnpmLockfile(v5)).toEqual({ '@antv/x6': '1.34.14' });
+  });
+
+  it('detectAntVProject', async () => {
+    await fs.mkdir(root, { recursive: true });
+    expect(await detectAntVProject(root)).toBeNull();
+
+    await fs.writeFile(
+      path.join(root, 'package.json'),
+      JSON.stringify(packageJson),
+    );
+    await fs.writeFile(
+      path.join(root, 'package-lock.json'),
+      JSON.stringify({
+        packages: {
+          'node_modules/@antv/g2': { version: '4.2.11' },
+          'node_modules/@antv/s2-react': { version: '1.55.0' },
+        },
+      }),
+    );
+
+    const project = await detectAntVProject(root);
+    expect(project).toMatchObject({
+      name: 'dashboard',
+      packageManager: 'npm',
+      lockfile: 'package-lock.json',
+    });
+    expect(
+      project?.packages.map((p) => [p.name, p.version, p.library]),
+    ).toEqual([
+      ['@antv/g2', '4.2.11', 'g2'],
+      ['@antv/s2-react', '1.55.0', 's2'],
+      ['@antv/util', undefined, undefined],
+    ]);
+    expect(project?.libraries).toEqual([
+      {
+        library: 'g2',
+        version: '4.2.11',
+        majorVersion: 4,
+        packages: ['@antv/g2'],
+      },
+      {
+        library: 's2',
+        version: '1.55.0',
+        majorVersion: 1,
+        packages: ['@antv/s2-react'],
+      },
+    ]);
+  });
+
+  it('resolveProjectRoots', async () => {
+    const project = path.join(root, 'packages', 'dashboard');
+    await fs.mkdir(project, { recursive: true });
+    const createExtra = (roots: string[], sessionId?: string) =>
+      ({
+        sessionId,
+        sendRequest: vi.fn().mockResolvedValue({
+          roots: roots.map((r) => ({ uri: pathToFileURL(r).href })),
+        }),
+      }) as unknown as ToolExtra;
+
+    expect(await resolveProjectRoots(undefined, createExtra([root]))).toEqual([
+      root,
+    ]);
+    expect(
+      await resolveProjectRoots(project, createExtra([root], 'a')),
+    ).toEqual([project]);
+    await expect(
+      resolveProjectRoots(os.homedir(), createExtra([root])),
+    ).rejects.toThrow('is outside the client roots');
+    // Over HTTP, nothing without client roots
+    await expect(
+      resolveProjectRoots(project, createExtra([], 'a')),
+    ).rejects.toBeInstanceOf(ProjectRootsError);
+    await expect(
+      resolveProjectRoots(undefined, createExtra([], 'a')),
+    ).rejects.toThrow('The client exposes no roots');
+    // Over stdio, the path or the working directory
+    expect(await resolveProjectRoots(project, createExtra([]))).toEqual([
+      project,
+    ]);
+    expect(await resolveProjectRoots()).toEqual([process.cwd()]);
+  });
+});
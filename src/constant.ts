@@ -1,4 +1,18 @@
-import type { AntVLibrary } from './types';
+import type { AntVLibrary, DocBackend, DocChannel } from './types';
+
+export type LibraryVersionMeta = {
+  /** Context7 library ID of the documentation of this major version. */
+  context7Id: string;
+  /** GitHub branch of this major version, used to scope DeepWiki answers. */
+  branch?: string;
+  /** Whether this is the version covered by the default documentation. */
+  latest?: boolean;
+  /** Code conventions of this version, defaults to the library `codeStyle`. */
+  codeStyle?: string;
+};
+
+// Documented major versions of a library, e.g. `{ '4': {...}, '5': {...} }`
+export type LibraryVersions = Record<string, LibraryVersionMeta>;
 
 // AntV Libraries Metadata
 export const ANTV_LIBRARY_META = {
@@ -30,6 +44,20 @@ export const ANTV_LIBRARY_META = {
     - Prioritize using options() method to configure charts
     </convention>
   `,
+    versions: {
+      '5': { context7Id: '/antvis/g2', latest: true },
+      '4': {
+        context7Id: '/antvis/g2/v4',
+        branch: 'v4',
+        codeStyle: `
+    <convention>
+    - Use the G2 4.x chain API: \`chart.data(data)\`, then geometries such as \`chart.interval().position('x*y').color('type')\`
+    - Create the chart with \`new Chart({ container, autoFit, height })\` and call \`chart.render()\` at the end
+    - Do not use the 5.x \`options()\`, \`encode()\` or \`transform()\` APIs, they do not exist in 4.x
+    </convention>
+  `,
+      },
+    } as LibraryVersions,
   },
   g6: {
     id: 'g6' as AntVLibrary,
@@ -37,6 +65,29 @@ export const ANTV_LIBRARY_META = {
     description: 'Graph analysis, network diagrams, node-link relationships',
     keywords: '',
     codeStyle: '',
+    versions: {
+      '5': {
+        context7Id: '/antvis/g6',
+        latest: true,
+        codeStyle: `
+    <convention>
+    - Create the graph with \`new Graph({ container, data, node, edge, layout, behaviors })\` and call \`graph.render()\`, which returns a Promise
+    - Configure interactions with \`behaviors\`, not the 4.x \`modes\`
+    </convention>
+  `,
+      },
+      '4': {
+        context7Id: '/antvis/g6/v4',
+        branch: 'v4',
+        codeStyle: `
+    <convention>
+    - Create the graph with \`new G6.Graph({ container, width, height, modes, defaultNode, defaultEdge })\`, then call \`graph.data(data)\` and \`graph.render()\`
+    - Configure interactions with \`modes\`, and register custom nodes with \`G6.registerNode\`
+    - Do not use the 5.x \`behaviors\`, \`node.style\` or \`register(ExtensionCategory...)\` APIs, they do not exist in 4.x
+    </convention>
+  `,
+      },
+    } as LibraryVersions,
   },
   l7: {
     id: 'l7' as AntVLibrary,
@@ -44,6 +95,7 @@ export const ANTV_LIBRARY_META = {
     description: 'Geospatial visualization, maps, geographic data analysis',
     keywords: '',
     codeStyle: '',
+    versions: {} as LibraryVersions,
   },
   x6: {
     id: 'x6' as AntVLibrary,
@@ -54,6 +106,7 @@ export const ANTV_LIBRARY_META = {
   - By default, edges should connect to the node's border.
 </convention>
 `,
+    versions: {} as LibraryVersions,
   },
   f2: {
     id: 'f2' as AntVLibrary,
@@ -95,6 +148,7 @@ export const ANTV_LIBRARY_META = {
           \`\`\`
   </convention>
   `,
+    versions: {} as LibraryVersions,
   },
   s2: {
     id: 's2' as AntVLibrary,
@@ -152,6 +206,7 @@ export const ANTV_LIBRARY_META = {
     - **The \`@antv/s2-vue\` library is unmaintained and MUST NOT be used.** For Vue.js implementations, you MUST generate code that manually wraps the core \`@antv/s2\` package within a standard Vue component.
   </convention>
     `,
+    versions: {} as LibraryVersions,
   },
   g: {
     id: 'g' as AntVLibrary,
@@ -159,6 +214,7 @@ export const ANTV_LIBRARY_META = {
     description: 'AntV Grammar of Graphics runtime and specification',
     keywords: '',
     codeStyle: '',
+    versions: {} as LibraryVersions,
   },
   ava: {
     id: 'ava' as AntVLibrary,
@@ -167,6 +223,7 @@ export const ANTV_LIBRARY_META = {
       'Automated Visual Analytics: chart advisor, insight, narrative',
     keywords: '',
     codeStyle: '',
+    versions: {} as LibraryVersions,
   },
   adc: {
     id: 'adc' as AntVLibrary,
@@ -175,6 +232,7 @@ export const ANTV_LIBRARY_META = {
       'Ant Design Charts built on G2 for React and modern frameworks',
     keywords: '',
     codeStyle: '',
+    versions: {} as LibraryVersions,
   },
 };
 
@@ -184,6 +242,145 @@ export const CONTEXT7_TOKENS = {
   min: 1000,
 };
 
+// Separator between snippets in the Context7 text format
+export const SNIPPET_SEPARATOR = '----------------------------------------';
+
+// Documentation backends, also the default fallback order
+export const DOC_BACKENDS: [DocBackend, ...DocBackend[]] = [
+  'Context7',
+  'DeepWiki',
+  'Local',
+];
+
+// Documentation channels of the `query_antv_document` tool
+export const DOC_CHANNELS: [DocChannel, ...DocChannel[]] = [
+  ...DOC_BACKENDS,
+  'Hybrid',
+];
+
+// Backends queried concurrently by the `Hybrid` channel
+export const HYBRID_BACKENDS: DocBackend[] = ['Context7', 'DeepWiki'];
+
+export type TopicTerm = {
+  /** Official English topic passed to the documentation query. */
+  topic: string;
+  /** Chinese terms and English aliases of the topic. */
+  terms: string[];
+  /** Libraries the term hints at, used to detect the library. */
+  libraries?: AntVLibrary[];
+};
+
+// Bilingual term dictionary of the server-side topic extraction
+export const TOPIC_DICTIONARY: TopicTerm[] = [
+  // Chart types
+  {
+    topic: 'bar chart',
+    terms: ['柱状图', '柱形图', '条形图', 'bar', 'column chart'],
+  },
+  { topic: 'line chart', terms: ['折线图', '曲线图', 'line'] },
+  { topic: 'area chart', terms: ['面积图', 'area'] },
+  {
+    topic: 'pie chart',
+    terms: ['饼图', '环图', '环形图', 'donut chart', 'pie'],
+  },
+  {
+    topic: 'scatter plot',
+    terms: ['散点图', '气泡图', 'scatter', 'bubble chart'],
+  },
+  { topic: 'heatmap', terms: ['热力图', 'heat map'] },
+  { topic: 'radar chart', terms: ['雷达图', 'radar'] },
+  { topic: 'funnel chart', terms: ['漏斗图', 'funnel'] },
+  { topic: 'gauge', terms: ['仪表盘', 'gauge chart'] },
+  { topic: 'treemap', terms: ['矩形树图', 'tree map'] },
+  { topic: 'sankey', terms: ['桑基图', 'sankey diagram'] },
+  { topic: 'histogram', terms: ['直方图'] },
+  { topic: 'box plot', terms: ['箱线图', '箱形图', 'boxplot'] },
+  { topic: 'word cloud', terms: ['词云', 'wordcloud'] },
+  { topic: 'dual axes', terms: ['双轴图', '双轴', 'dual axis'] },
+  { topic: 'stack', terms: ['堆叠', 'stacked'] },
+  { topic: 'group', terms: ['分组', 'grouped', 'dodge'] },
+  // Components and styles
+  { topic: 'tooltip', terms: ['提示框', '提示信息', '悬浮提示'] },
+  { topic: 'legend', terms: ['图例'] },
+  { topic: 'axis', terms: ['坐标轴', '轴线', 'x axis', 'y axis'] },
+  { topic: 'label', terms: ['数据标签', '标签', 'labels'] },
+  { topic: 'annotation', terms: ['标注', '辅助线', 'reference line'] },
+  { topic: 'title', terms: ['标题'] },
+  { topic: 'slider', terms: ['缩略轴', '滑块', 'data zoom'] },
+  { topic: 'scrollbar', terms: ['滚动条', 'scroll bar'] },
+  { topic: 'color', terms: ['颜色', '配色', '色板', 'colors', 'palette'] },
+  { topic: 'stroke', terms: ['描边', '边框', 'border'] },
+  { topic: 'opacity', terms: ['透明度', 'transparency'] },
+  { topic: 'background', terms: ['背景'] },
+  { topic: 'font', terms: ['字体', '字号', '文本样式', 'font size'] },
+  { topic: 'style', terms: ['样式', 'styles'] },
+  { topic: 'theme', terms: ['主题', '暗色', 'dark mode'] },
+  { topic: 'gradient', terms: ['渐变'] },
+  { topic: 'animation', terms: ['动画', 'animate'] },
+  { topic: 'scale', terms: ['比例尺'] },
+  { topic: 'coordinate', terms: ['坐标系'] },
+  { topic: 'polar coordinate', terms: ['极坐标', 'polar'] },
+  { topic: 'data transform', terms: ['数据转换', '数据处理', 'transform'] },
+  // Interactions
+  { topic: 'click event', terms: ['点击', '单击', 'click'] },
+  { topic: 'hover', terms: ['悬停', '鼠标移入', 'mouseover'] },
+  { topic: 'zoom', terms: ['缩放', 'zooming'] },
+  { topic: 'brush', terms: ['刷选', '框选', 'brush selection'] },
+  { topic: 'highlight', terms: ['高亮', 'highlighting'] },
+  { topic: 'drag', terms: ['拖拽', '拖动', 'dragging', 'drag and drop'] },
+  { topic: 'event', terms: ['事件', 'events', 'listener'] },
+  // Graphs
+  { topic: 'node', terms: ['节点', 'nodes'], libraries: ['g6', 'x6'] },
+  { topic: 'edge', terms: ['连线', 'edges'], libraries: ['g6', 'x6'] },
+  { topic: 'combo', terms: ['分组框', 'combos'], libraries: ['g6'] },
+  { topic: 'layout', terms: ['布局', 'layouts'], libraries: ['g6'] },
+  {
+    topic: 'force layout',
+    terms: ['力导向', 'force directed'],
+    libraries: ['g6'],
+  },
+  {
+    topic: 'tree graph',
+    terms: ['树图', '脑图', 'mind map'],
+    libraries: ['g6'],
+  },
+  {
+    topic: 'network graph',
+    terms: ['关系图', '网络图', '知识图谱', 'knowledge graph'],
+    libraries: ['g6'],
+  },
+  { topic: 'minimap', terms: ['小地图', 'mini map'], libraries: ['g6', 'x6'] },
+  {
+    topic: 'flowchart',
+    terms: ['流程图', 'flow chart', 'diagram'],
+    libraries: ['x6'],
+  },
+  { topic: 'port', terms: ['连接桩', '端口', 'ports'], libraries: ['x6'] },
+  { topic: 'connector', terms: ['连接器'], libraries: ['x6'] },
+  { topic: 'stencil', terms: ['组件面板', 'dnd'], libraries: ['x6'] },
+  // Maps
+  { topic: 'map', terms: ['地图', 'maps'], libraries: ['l7'] },
+  { topic: 'point layer', terms: ['点图层'], libraries: ['l7'] },
+  { topic: 'line layer', terms: ['线图层', '轨迹', '飞线'], libraries: ['l7'] },
+  {
+    topic: 'polygon layer',
+    terms: ['面图层', '行政区划', 'choropleth'],
+    libraries: ['l7'],
+  },
+  // Tables and mobile
+  { topic: 'pivot table', terms: ['透视表', 'pivot'], libraries: ['s2'] },
+  {
+    topic: 'table sheet',
+    terms: ['明细表', '表格', 'table'],
+    libraries: ['s2'],
+  },
+  {
+    topic: 'mobile',
+    terms: ['移动端', '小程序', 'mini program'],
+    libraries: ['f2'],
+  },
+];
+
 // Convenience functions
 export function getLibraryConfig(library: AntVLibrary) {
   return ANTV_LIBRARY_META[library];
@@ -198,3 +395,7 @@ export function getLibraryDescription(library: AntVLibrary): string {
 export function getLibraryKeywords(library: AntVLibrary) {
   return ANTV_LIBRARY_META[library]?.keywords || '';
 }
+
+export function getLibraryVersions(library: AntVLibrary): LibraryVersions {
+  return ANTV_LIBRARY_META[library]?.versions || {};
+}
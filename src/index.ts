@@ -1,41 +1,213 @@
 #!/usr/bin/env node
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { randomUUID } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import { parseArgs } from 'node:util';
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { logger, validateSchema } from './utils';
-import { QueryAntVDocumentTool, ExtractAntVTopicTool } from './tools';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+  logger,
+  McpLoggingSink,
+  runWithLogContext,
+  validateSchema,
+  getEnvTransport,
+  getEnvHttpOptions,
+  parsePort,
+  buildLocalIndex,
+  trackToolCall,
+  getPrometheusMetrics,
+  closeDeepWikiConnection,
+  type TransportType,
+} from './utils';
+import { ANTV_LIBRARY_META } from './constant';
+import type { AntVLibrary, ToolExtra } from './types';
+import {
+  QueryAntVDocumentTool,
+  ExtractAntVTopicTool,
+  DetectAntVProjectTool,
+  CheckAntVCodeTool,
+  MigrateAntVCodeTool,
+  RecommendAntVChartTool,
+  RenderAntVChartTool,
+  ServerStatsTool,
+} from './tools';
+import {
+  AntVLibrariesResource,
+  AntVLibraryConventionsResource,
+  AntVLibraryKeywordsResource,
+} from './resources';
+import {
+  CreateAntVChartPrompt,
+  DebugAntVRenderPrompt,
+  ConvertEChartsToG2Prompt,
+} from './prompts';
+
+// Legacy SSE endpoints, served next to the Streamable HTTP endpoint.
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+// Prometheus scrape endpoint of the usage metrics.
+const METRICS_ENDPOINT = '/metrics';
+
+type HttpOptions = {
+  host: string;
+  port: number;
+  endpoint: string;
+};
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
 
 class AntVMCPServer {
-  private readonly server: McpServer;
+  private readonly transports = new Map<string, SessionTransport>();
+  private httpServer: Server | null = null;
 
-  constructor() {
-    this.server = new McpServer({
-      name: 'mcp-server-antv',
-      version: '0.1.0',
-    });
+  /**
+   * Create a new MCP server instance with all tools, resources and prompts registered.
+   * HTTP mode creates one instance per session, stdio mode only one.
+   * Its logging sink is removed when it closes, or by `removeLoggingSink`.
+   */
+  private createServer(): {
+    server: McpServer;
+    removeLoggingSink: () => void;
+  } {
+    const server = new McpServer(
+      {
+        name: 'mcp-server-antv',
+        version: '0.1.0',
+      },
+      { capabilities: { logging: {} } },
+    );
+
+    // Forward logs to the client as `notifications/message`
+    const removeLoggingSink = logger.addSink(
+      new McpLoggingSink(server.server, logger.getLevel()),
+    );
+    server.server.onclose = removeLoggingSink;
 
     // Register tools with validation
-    [ExtractAntVTopicTool, QueryAntVDocumentTool].forEach((tool) => {
+    [
+      ExtractAntVTopicTool,
+      QueryAntVDocumentTool,
+      DetectAntVProjectTool,
+      CheckAntVCodeTool,
+      MigrateAntVCodeTool,
+      RecommendAntVChartTool,
+      RenderAntVChartTool,
+      ServerStatsTool,
+    ].forEach((tool) => {
       const { name, description, inputSchema, run } = tool;
-      // @ts-ignore
-      this.server.tool(name, description, inputSchema.shape, (async (
+      const outputSchema = 'outputSchema' in tool ? tool.outputSchema : null;
+      // Schemas are typed by the zod version of the SDK
+      const config: any = {
+        description,
+        inputSchema: inputSchema.shape,
+        ...(outputSchema ? { outputSchema: outputSchema.shape } : {}),
+      };
+      server.registerTool(name, config, (async (
         args: any,
+        extra: ToolExtra,
       ) => {
-        const { success, errorMessage } = validateSchema(inputSchema, args);
-        if (success) {
-          return await run(args);
-        } else {
-          throw new Error(errorMessage);
-        }
+        const context = {
+          requestId: extra.requestId,
+          sessionId: extra.sessionId,
+        };
+        return runWithLogContext(context, () =>
+          trackToolCall(name, args, async () => {
+            const { success, errorMessage } = validateSchema(inputSchema, args);
+            if (success) {
+              return await run(args, extra);
+            } else {
+              throw new Error(errorMessage);
+            }
+          }),
+        );
       }) as any);
     });
 
-    logger.info('AntV MCP Server initialized successfully!');
+    // Register resources
+    server.resource(
+      AntVLibrariesResource.name,
+      AntVLibrariesResource.uri,
+      {
+        description: AntVLibrariesResource.description,
+        mimeType: AntVLibrariesResource.mimeType,
+      },
+      (uri) => AntVLibrariesResource.read(uri),
+    );
+    [AntVLibraryConventionsResource, AntVLibraryKeywordsResource].forEach(
+      (resource) => {
+        const { name, uriTemplate, description, mimeType, list, complete } =
+          resource;
+        server.resource(
+          name,
+          new ResourceTemplate(uriTemplate, {
+            list: async () => ({ resources: list() }),
+            complete,
+          }),
+          { description, mimeType },
+          (uri, variables) => resource.read(uri, variables),
+        );
+      },
+    );
+
+    // Register prompts
+    [
+      CreateAntVChartPrompt,
+      DebugAntVRenderPrompt,
+      ConvertEChartsToG2Prompt,
+    ].forEach((prompt) => {
+      const { name, description, argsSchema, generate } = prompt;
+      // @ts-ignore
+      server.prompt(name, description, argsSchema.shape, (args: any) =>
+        generate(args),
+      );
+    });
+
+    return { server, removeLoggingSink };
+  }
+
+  /**
+   * Connect a new server instance to the transport of an HTTP session. Its
+   * logging sink is removed when the transport closes or when the connection
+   * fails, so that sessions never closed by their server do not keep their
+   * sinks. Transport errors, e.g. a bad request, leave the session open.
+   * Returns the function removing the sink.
+   */
+  private async connectSession(
+    transport: SessionTransport,
+  ): Promise<() => void> {
+    const { server, removeLoggingSink } = this.createServer();
+    const { onclose } = transport;
+    transport.onclose = () => {
+      onclose?.();
+      removeLoggingSink();
+    };
+    transport.onerror = (error) => {
+      logger.warn(`Session transport error: ${transport.sessionId}`, error);
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      removeLoggingSink();
+      throw error;
+    }
+    return removeLoggingSink;
   }
 
   async runWithStdio(): Promise<void> {
     try {
       const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      await this.createServer().server.connect(transport);
       logger.info('AntV MCP Server started with stdio transport!');
     } catch (error) {
       logger.error('Failed to start server with stdio transport:', error);
@@ -43,17 +215,312 @@ class AntVMCPServer {
     }
   }
 
+  async runWithHttp(options: HttpOptions): Promise<void> {
+    const { host, port, endpoint } = options;
+    try {
+      const httpServer = createServer(async (req, res) => {
+        try {
+          const { pathname, searchParams } = new URL(
+            req.url || '/',
+            `http://${req.headers.host || host}`,
+          );
+          if (pathname === endpoint) {
+            await this.handleStreamableRequest(req, res);
+          } else if (pathname === SSE_ENDPOINT && req.method === 'GET') {
+            await this.handleSseConnection(res);
+          } else if (
+            pathname === SSE_MESSAGES_ENDPOINT &&
+            req.method === 'POST'
+          ) {
+            await this.handleSseMessage(
+              req,
+              res,
+              searchParams.get('sessionId'),
+            );
+          } else if (pathname === METRICS_ENDPOINT && req.method === 'GET') {
+            res.writeHead(200, {
+              'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            });
+            res.end(getPrometheusMetrics());
+          } else {
+            sendJsonRpcError(res, 404, 'Not Found');
+          }
+        } catch (error) {
+          logger.error('Failed to handle HTTP request:', error);
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, 'Internal server error');
+          }
+        }
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => {
+          httpServer.off('error', reject);
+          resolve();
+        });
+      });
+      this.httpServer = httpServer;
+
+      logger.info(
+        `AntV MCP Server started with Streamable HTTP transport at http://${host}:${port}${endpoint}`,
+      );
+      logger.info(
+        `Legacy SSE transport available at http://${host}:${port}${SSE_ENDPOINT}`,
+      );
+      logger.info(
+        `Prometheus metrics available at http://${host}:${port}${METRICS_ENDPOINT}`,
+      );
+    } catch (error) {
+      logger.error('Failed to start server with HTTP transport:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a Streamable HTTP request. An initialize request without a session
+   * ID creates a new session with its own server instance.
+   */
+  private async handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const transport = this.transports.get(sessionId);
+      if (transport instanceof StreamableHTTPServerTransport) {
+        await transport.handleRequest(req, res, body);
+      } else {
+        sendJsonRpcError(res, 404, 'Session not found');
+      }
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.transports.set(id, transport);
+        logger.info(`Streamable HTTP session initialized: ${id}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.transports.delete(transport.sessionId);
+        logger.info(`Streamable HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    const removeLoggingSink = await this.connectSession(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // The initialize request failed, no client can reach the session
+      if (!transport.sessionId) {
+        removeLoggingSink();
+        await transport.close();
+      }
+    }
+  }
+
+  private async handleSseConnection(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    this.transports.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      this.transports.delete(transport.sessionId);
+      logger.info(`SSE session closed: ${transport.sessionId}`);
+    };
+
+    try {
+      await this.connectSession(transport);
+    } catch (error) {
+      this.transports.delete(transport.sessionId);
+      throw error;
+    }
+    logger.info(`SSE session initialized: ${transport.sessionId}`);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ): Promise<void> {
+    const transport = sessionId ? this.transports.get(sessionId) : undefined;
+    if (transport instanceof SSEServerTransport) {
+      await transport.handlePostMessage(req, res, await readJsonBody(req));
+    } else {
+      sendJsonRpcError(res, 404, 'Session not found');
+    }
+  }
+
   async shutdown(): Promise<void> {
     logger.info('Shutting down AntV MCP Server...');
+
+    for (const transport of this.transports.values()) {
+      try {
+        await transport.close();
+      } catch (error) {
+        logger.error('Failed to close transport:', error);
+      }
+    }
+    this.transports.clear();
+    await closeDeepWikiConnection();
+
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      this.httpServer = null;
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+
     logger.info('AntV MCP Server shutdown complete');
   }
 }
 
+/**
+ * Read and parse the JSON body of an HTTP request.
+ * Returns `undefined` for an empty or malformed body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+const HELP_MESSAGE = `Usage: mcp-server-antv [options]
+       mcp-server-antv index --library <library> --dir <docs> [--index <file>]
+
+Commands:
+  index                   Build or update the local documentation index used by the "Local" channel
+
+Options:
+  -t, --transport <type>  Transport type: stdio | http (default: stdio, env: MCP_TRANSPORT)
+  --host <host>           HTTP host (default: 127.0.0.1, env: MCP_HOST)
+  -p, --port <port>       HTTP port (default: 3000, env: MCP_PORT)
+  -e, --endpoint <path>   Streamable HTTP endpoint (default: /mcp, env: MCP_ENDPOINT)
+  -h, --help              Show this help message
+
+Index options:
+  -l, --library <library> AntV library of the docs: ${Object.keys(ANTV_LIBRARY_META).join(', ')}
+  -d, --dir <docs>        Directory of the checked-out markdown docs and examples
+  -i, --index <file>      Index file (default: ~/.cache/mcp-server-antv/local-index.json, env: ANTV_LOCAL_INDEX)
+`;
+
+/**
+ * Build or update the local documentation index from a docs directory.
+ */
+async function runIndexCommand(options: {
+  library?: string;
+  dir?: string;
+  index?: string;
+}): Promise<void> {
+  const { library, dir, index } = options;
+  if (!library || !(library in ANTV_LIBRARY_META)) {
+    throw new Error(
+      `Unsupported library: ${library}. Must be one of: ${Object.keys(ANTV_LIBRARY_META).join(', ')}`,
+    );
+  }
+  if (!dir) {
+    throw new Error('Missing docs directory, use --dir <docs>');
+  }
+
+  const result = await buildLocalIndex({
+    library: library as AntVLibrary,
+    directory: dir,
+    indexPath: index,
+  });
+  console.error(
+    `Indexed ${result.documents} documents for ${library} into ${result.indexPath}`,
+  );
+}
+
 /**
  * Main function
  * Initializes and starts the AntV MCP server based on the transport type.
  */
 async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      transport: { type: 'string', short: 't' },
+      host: { type: 'string' },
+      port: { type: 'string', short: 'p' },
+      endpoint: { type: 'string', short: 'e' },
+      library: { type: 'string', short: 'l' },
+      dir: { type: 'string', short: 'd' },
+      index: { type: 'string', short: 'i' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.error(HELP_MESSAGE);
+    return;
+  }
+
+  if (positionals[0] === 'index') {
+    await runIndexCommand(values);
+    return;
+  }
+
+  const transport = (values.transport?.toLowerCase() ||
+    getEnvTransport()) as TransportType;
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(
+      `Unsupported transport: ${values.transport}. Must be one of: stdio, http`,
+    );
+  }
+
+  const port = values.port === undefined ? undefined : parsePort(values.port);
+  let httpOptions: ReturnType<typeof getEnvHttpOptions> | undefined;
+  try {
+    if (port === null) {
+      throw new Error(
+        `Invalid port: ${values.port}. Must be an integer from 1 to 65535`,
+      );
+    }
+    if (transport === 'http') {
+      const envOptions = getEnvHttpOptions();
+      httpOptions = {
+        host: values.host || envOptions.host,
+        port: port ?? envOptions.port,
+        endpoint: values.endpoint || envOptions.endpoint,
+      };
+    }
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${HELP_MESSAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+
   const server = new AntVMCPServer();
 
   // Setup process error handling
@@ -71,9 +538,21 @@ async function main(): Promise<void> {
       process.exit(1);
     });
   });
+  // Graceful shutdown
+  ['SIGINT', 'SIGTERM'].forEach((signal) => {
+    process.on(signal, () => {
+      server.shutdown().finally(() => {
+        process.exit(0);
+      });
+    });
+  });
 
   try {
-    await server.runWithStdio();
+    if (httpOptions) {
+      await server.runWithHttp(httpOptions);
+    } else {
+      await server.runWithStdio();
+    }
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,41 @@
+/**
+ * Shared prompt context, renders the curated knowledge of a library and the
+ * documentation tool flow that the prompts guide the model through.
+ */
+import type { AntVLibrary } from '../types';
+import { getLibraryConfig, getLibraryKeywords } from '../constant';
+import { getLibraryCodeStyle, normalizeVersion } from '../utils';
+
+export function generateLibraryContext(
+  library: AntVLibrary,
+  version?: string,
+): string {
+  const { name, description } = getLibraryConfig(library);
+  const major = normalizeVersion(version);
+  const keywords = getLibraryKeywords(library).trim();
+  const codeStyle = getLibraryCodeStyle(library, version).trim();
+
+  let context = `## ${name}${major ? ` ${major}.x` : ''} Context\n\n`;
+  context += `**Library**: ${name} (${library}) - ${description}\n\n`;
+  if (keywords) {
+    context += `**Terminology**:\n${keywords}\n\n`;
+  }
+  if (codeStyle) {
+    context += `**Conventions**:\n${codeStyle}\n\n`;
+  }
+  return context;
+}
+
+export function generateToolFlow(
+  library: AntVLibrary,
+  version?: string,
+): string {
+  const major = normalizeVersion(version);
+  const args = `\`library: "${library}"\`${major ? `, \`version: "${major}"\`` : ''}`;
+  return (
+    `## Workflow\n\n` +
+    `1. Call \`extract_antv_topic\` with the request and ${args} to extract the topics and intent.\n` +
+    `2. Call \`query_antv_document\` with the extracted topics, intent and ${args}.\n` +
+    `3. Answer only from the retrieved documentation and the conventions above, never from memory of older APIs.\n`
+  );
+}
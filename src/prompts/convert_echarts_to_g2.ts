@@ -0,0 +1,46 @@
+/**
+ * Convert ECharts to G2 Prompt - Migrates an ECharts option to the G2 API
+ */
+import { z } from 'zod';
+import { generateLibraryContext, generateToolFlow } from './context';
+
+const ConvertEChartsToG2ArgsSchema = z.object({
+  option: z
+    .string()
+    .min(1)
+    .describe('ECharts option to convert, as JSON or JavaScript'),
+  version: z
+    .string()
+    .optional()
+    .describe(
+      'Major version of G2 used by the project (optional), defaults to the latest',
+    ),
+});
+
+type ConvertEChartsToG2Args = z.infer<typeof ConvertEChartsToG2ArgsSchema>;
+
+export const ConvertEChartsToG2Prompt = {
+  name: 'convert_echarts_to_g2',
+  description:
+    'Convert an ECharts option to an equivalent G2 chart, mapping series, axes, tooltip and legend to G2 concepts.',
+  argsSchema: ConvertEChartsToG2ArgsSchema,
+  generate(args: ConvertEChartsToG2Args) {
+    let text = `# Convert ECharts to G2\n\n`;
+    text += `**ECharts Option**:\n\`\`\`javascript\n${args.option.trim()}\n\`\`\`\n\n`;
+    text += `**Mapping**:\n`;
+    text += `- \`series[].type\` → G2 mark (line, interval, point, area, cell...)\n`;
+    text += `- \`xAxis\`, \`yAxis\` and \`series[].encode\` → encode channels and axis options\n`;
+    text += `- \`dataset\` and \`series[].data\` → chart data, reshaped into an array of records\n`;
+    text += `- \`tooltip\`, \`legend\`, \`dataZoom\` → G2 tooltip, legend and interactions\n`;
+    text += `- \`stack\`, \`polar\`, \`visualMap\` → transforms, coordinate and color scale\n\n`;
+    text += generateLibraryContext('g2', args.version);
+    text += generateToolFlow('g2', args.version);
+    text += `4. Return the complete G2 code, and list the ECharts features without a direct G2 equivalent.\n`;
+
+    return {
+      messages: [
+        { role: 'user' as const, content: { type: 'text' as const, text } },
+      ],
+    };
+  },
+};
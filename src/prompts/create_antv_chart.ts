@@ -0,0 +1,57 @@
+/**
+ * Create AntV Chart Prompt - Builds a visualization from a requirement and a data sample
+ */
+import { z } from 'zod';
+import type { AntVLibrary } from '../types';
+import { ANTV_LIBRARY_META, getLibraryConfig } from '../constant';
+import { generateLibraryContext, generateToolFlow } from './context';
+
+const CreateAntVChartArgsSchema = z.object({
+  requirement: z
+    .string()
+    .min(1)
+    .describe(
+      'Description of the chart to create, e.g. "monthly sales by region"',
+    ),
+  library: z
+    .enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]])
+    .optional()
+    .describe('AntV library to use (optional), defaults to g2'),
+  data: z
+    .string()
+    .optional()
+    .describe('Sample of the data to visualize, as JSON or CSV (optional)'),
+  version: z
+    .string()
+    .optional()
+    .describe('Major version of the library used by the project (optional)'),
+});
+
+type CreateAntVChartArgs = z.infer<typeof CreateAntVChartArgsSchema>;
+
+export const CreateAntVChartPrompt = {
+  name: 'create_antv_chart',
+  description:
+    'Create an AntV visualization from a requirement and a data sample, following the library conventions and the official documentation.',
+  argsSchema: CreateAntVChartArgsSchema,
+  generate(args: CreateAntVChartArgs) {
+    const library = args.library || 'g2';
+    const { name } = getLibraryConfig(library);
+
+    let text = `# Create a ${name} Visualization\n\n`;
+    text += `**Requirement**: ${args.requirement}\n\n`;
+    if (args.data) {
+      text += `**Data Sample**:\n\`\`\`\n${args.data.trim()}\n\`\`\`\n\n`;
+      text += `Infer the field types from the data sample, and map them to the visual channels that fit the requirement.\n\n`;
+    }
+    text += generateLibraryContext(library, args.version);
+    text += generateToolFlow(library, args.version);
+    text += `4. Return complete, runnable code that uses the data sample${args.data ? '' : ' or realistic mock data'}.\n`;
+
+    return {
+      messages: [
+        { role: 'user' as const, content: { type: 'text' as const, text } },
+      ],
+    };
+  },
+};
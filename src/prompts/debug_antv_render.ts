@@ -0,0 +1,61 @@
+/**
+ * Debug AntV Render Prompt - Troubleshoots a visualization that fails to render
+ */
+import { z } from 'zod';
+import type { AntVLibrary } from '../types';
+import { ANTV_LIBRARY_META, getLibraryConfig } from '../constant';
+import { generateLibraryContext, generateToolFlow } from './context';
+
+const DebugAntVRenderArgsSchema = z.object({
+  library: z
+    .enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]])
+    .describe('AntV library of the visualization'),
+  code: z
+    .string()
+    .optional()
+    .describe('Code of the visualization that does not render (optional)'),
+  error: z
+    .string()
+    .optional()
+    .describe('Error message or console output (optional)'),
+  version: z
+    .string()
+    .optional()
+    .describe('Major version of the library used by the project (optional)'),
+});
+
+type DebugAntVRenderArgs = z.infer<typeof DebugAntVRenderArgsSchema>;
+
+export const DebugAntVRenderPrompt = {
+  name: 'debug_antv_render',
+  description:
+    'Debug why an AntV chart, graph or map does not render, from its code and error text.',
+  argsSchema: DebugAntVRenderArgsSchema,
+  generate(args: DebugAntVRenderArgs) {
+    const { library } = args;
+    const { name } = getLibraryConfig(library);
+
+    let text = `# Debug a ${name} Rendering Issue\n\n`;
+    text += `The ${name} visualization below does not render as expected. Find the root cause and fix it.\n\n`;
+    if (args.error) {
+      text += `**Error**:\n\`\`\`\n${args.error.trim()}\n\`\`\`\n\n`;
+    }
+    if (args.code) {
+      text += `**Code**:\n\`\`\`javascript\n${args.code.trim()}\n\`\`\`\n\n`;
+    }
+    text += `**Common causes to check**:\n`;
+    text += `- The container is missing, not mounted yet or has no width and height\n`;
+    text += `- The data does not match the fields used by the configuration\n`;
+    text += `- APIs of another major version are mixed in, check the installed version\n`;
+    text += `- The render call is missing or its Promise is not handled\n\n`;
+    text += generateLibraryContext(library, args.version);
+    text += generateToolFlow(library, args.version);
+    text += `4. Explain the root cause, then return the fixed code.\n`;
+
+    return {
+      messages: [
+        { role: 'user' as const, content: { type: 'text' as const, text } },
+      ],
+    };
+  },
+};
@@ -0,0 +1,3 @@
+export { CreateAntVChartPrompt } from './create_antv_chart';
+export { DebugAntVRenderPrompt } from './debug_antv_render';
+export { ConvertEChartsToG2Prompt } from './convert_echarts_to_g2';
@@ -0,0 +1,36 @@
+/**
+ * AntV Libraries Resource - Lists the supported AntV libraries and their resources
+ */
+import { ANTV_LIBRARY_META, getLibraryVersions } from '../constant';
+import { getLatestVersion } from '../utils';
+
+export const AntVLibrariesResource = {
+  name: 'antv_libraries',
+  uri: 'antv://libraries',
+  description:
+    'Supported AntV libraries with their description, documented versions and the URIs of their conventions and keywords resources.',
+  mimeType: 'application/json',
+  async read(uri: URL) {
+    const libraries = Object.values(ANTV_LIBRARY_META).map((lib) => ({
+      id: lib.id,
+      name: lib.name,
+      description: lib.description,
+      versions: Object.keys(getLibraryVersions(lib.id)),
+      latestVersion: getLatestVersion(lib.id),
+      resources: {
+        conventions: `antv://library/${lib.id}/conventions`,
+        keywords: `antv://library/${lib.id}/keywords`,
+      },
+    }));
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(libraries, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,113 @@
+/**
+ * AntV Library Resources - Exposes the curated conventions and keywords of each library
+ */
+import type { AntVLibrary } from '../types';
+import {
+  ANTV_LIBRARY_META,
+  getLibraryConfig,
+  getLibraryKeywords,
+  getLibraryVersions,
+} from '../constant';
+import { getLatestVersion, getLibraryCodeStyle } from '../utils';
+
+type LibraryVariables = Record<string, string | string[]>;
+
+const LIBRARY_IDS = Object.keys(ANTV_LIBRARY_META) as AntVLibrary[];
+
+function getLibrary(variables: LibraryVariables): AntVLibrary {
+  const id = String(variables.id).toLowerCase();
+  if (!LIBRARY_IDS.includes(id as AntVLibrary)) {
+    throw new Error(
+      `Unknown AntV library: ${id}. Must be one of: ${LIBRARY_IDS.join(', ')}`,
+    );
+  }
+  return id as AntVLibrary;
+}
+
+function completeLibraryId(value: string): string[] {
+  return LIBRARY_IDS.filter((id) => id.startsWith(value.toLowerCase()));
+}
+
+function generateConventions(library: AntVLibrary): string {
+  const { name } = getLibraryConfig(library);
+  const latest = getLatestVersion(library);
+  const codeStyle = getLibraryCodeStyle(library, latest);
+
+  let text = `# ${name} Coding Conventions\n\n`;
+  text += codeStyle.trim()
+    ? `${latest ? `## ${name} ${latest}.x\n\n` : ''}${codeStyle.trim()}\n`
+    : `No specific conventions, follow the examples of the official ${name} documentation.\n`;
+
+  for (const [version, meta] of Object.entries(getLibraryVersions(library))) {
+    if (!meta.codeStyle || version === latest) continue;
+    text += `\n## ${name} ${version}.x\n\n${meta.codeStyle.trim()}\n`;
+  }
+  return text;
+}
+
+function generateKeywords(library: AntVLibrary): string {
+  const { name } = getLibraryConfig(library);
+  const keywords = getLibraryKeywords(library).trim();
+  return (
+    `# ${name} Keywords\n\n` +
+    (keywords
+      ? `${keywords}\n`
+      : `No curated keywords, use the official ${name} English terminology.\n`)
+  );
+}
+
+export const AntVLibraryConventionsResource = {
+  name: 'antv_library_conventions',
+  uriTemplate: 'antv://library/{id}/conventions',
+  description:
+    'Coding conventions of an AntV library, per major version, to follow when generating code.',
+  mimeType: 'text/markdown',
+  list() {
+    return LIBRARY_IDS.map((id) => ({
+      uri: `antv://library/${id}/conventions`,
+      name: `${getLibraryConfig(id).name} conventions`,
+      description: `Coding conventions of ${getLibraryConfig(id).name}`,
+      mimeType: 'text/markdown',
+    }));
+  },
+  complete: { id: completeLibraryId },
+  async read(uri: URL, variables: LibraryVariables) {
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'text/markdown',
+          text: generateConventions(getLibrary(variables)),
+        },
+      ],
+    };
+  },
+};
+
+export const AntVLibraryKeywordsResource = {
+  name: 'antv_library_keywords',
+  uriTemplate: 'antv://library/{id}/keywords',
+  description:
+    'Keyword taxonomy of an AntV library, the official terminology of its components and concepts.',
+  mimeType: 'text/markdown',
+  list() {
+    return LIBRARY_IDS.map((id) => ({
+      uri: `antv://library/${id}/keywords`,
+      name: `${getLibraryConfig(id).name} keywords`,
+      description: `Keyword taxonomy of ${getLibraryConfig(id).name}`,
+      mimeType: 'text/markdown',
+    }));
+  },
+  complete: { id: completeLibraryId },
+  async read(uri: URL, variables: LibraryVariables) {
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'text/markdown',
+          text: generateKeywords(getLibrary(variables)),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,5 @@
+export { AntVLibrariesResource } from './antv_libraries';
+export {
+  AntVLibraryConventionsResource,
+  AntVLibraryKeywordsResource,
+} from './antv_library';
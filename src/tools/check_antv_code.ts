@@ -0,0 +1,163 @@
+/**
+ * AntV Code Check Tool - Lints generated code against the AntV library conventions
+ */
+import { z } from 'zod';
+import type { AntVLibrary } from '../types';
+import { logger, checkConventions, normalizeVersion } from '../utils';
+import type { ConventionViolation } from '../utils/conventions';
+import { getLibraryConfig, ANTV_LIBRARY_META } from '../constant';
+
+const CheckAntVCodeInputSchema = z.object({
+  code: z.string().min(1).describe('JS, TS or JSX code to check'),
+  library: z
+    .enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]])
+    .optional()
+    .describe(
+      'AntV library of the code (optional) - If not specified, detected from the imported packages',
+    ),
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Major version of the library (optional), e.g. "4" or "5.x". Defaults to the latest version.',
+    ),
+  language: z
+    .enum(['js', 'jsx', 'ts', 'tsx'])
+    .optional()
+    .default('tsx')
+    .describe('Language of the code, `tsx` parses most snippets'),
+});
+
+const CheckAntVCodeOutputSchema = z.object({
+  libraries: z
+    .array(
+      z.enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]]),
+    )
+    .describe('Libraries whose conventions were checked'),
+  version: z.string().optional().describe('Checked major version'),
+  valid: z.boolean().describe('Whether the code has no errors'),
+  errors: z.number().int().describe('Number of errors'),
+  warnings: z.number().int().describe('Number of warnings'),
+  violations: z
+    .array(
+      z.object({
+        rule: z.string().describe('Rule id, e.g. `f2/no-top-level-await`'),
+        severity: z.enum(['error', 'warning']),
+        message: z.string(),
+        line: z.number().int().describe('Line number, from 1'),
+        column: z.number().int().describe('Column number, from 1'),
+        fix: z.string().optional().describe('Suggested fix'),
+      }),
+    )
+    .describe('Convention violations and syntax errors, in code order'),
+});
+
+type CheckAntVCodeArgs = z.infer<typeof CheckAntVCodeInputSchema>;
+
+function generateCheckReport(
+  libraries: AntVLibrary[],
+  violations: ConventionViolation[],
+  version?: string,
+): string {
+  let response = `# AntV Code Check\n\n`;
+  if (libraries.length === 0) {
+    return (
+      response +
+      `⚠️ **No AntV library detected**: the code imports no AntV package.\n\n` +
+      `Pass the library of the code with the \`library\` argument.\n`
+    );
+  }
+
+  response += `**Libraries**: ${libraries
+    .map(
+      (l, i) =>
+        `${getLibraryConfig(l).name}${i === 0 && version ? ` ${version}.x` : ''}`,
+    )
+    .join(', ')}\n\n`;
+
+  if (violations.length === 0) {
+    return (
+      response + `✅ **No violations**: the code follows the conventions.\n`
+    );
+  }
+
+  const errors = violations.filter((v) => v.severity === 'error').length;
+  response += `${errors > 0 ? '❌' : '⚠️'} **${errors} error(s), ${violations.length - errors} warning(s)**\n\n`;
+  for (const violation of violations) {
+    response += `### ${violation.severity === 'error' ? '❌' : '⚠️'} Line ${violation.line}:${violation.column} \`${violation.rule}\`\n\n`;
+    response += `${violation.message}\n`;
+    if (violation.fix) response += `\n**Fix**: ${violation.fix}\n`;
+    response += `\n`;
+  }
+
+  response += `**Next Step**: Apply the fixes, then check the code again.\n`;
+  return response;
+}
+
+export const CheckAntVCodeTool = {
+  name: 'check_antv_code',
+  description: `AntV Code Check Tool - Parses a JS, TS or JSX snippet and checks it against the conventions of the AntV libraries it uses, e.g. no top-level \`await\` in F2, no \`@antv/s2-vue\`, \`options()\` over the chain API in G2 5.x, X6 edges connecting to node borders. Reports violations with line numbers and suggested fixes.
+
+When to use this tool:
+- **Before delivering code**: To check generated AntV code before the user runs or commits it.
+- **Version checks**: To catch APIs of another major version, e.g. G2 4.x \`position()\` in 5.x code.`,
+  inputSchema: CheckAntVCodeInputSchema,
+  outputSchema: CheckAntVCodeOutputSchema,
+  async run(args: CheckAntVCodeArgs) {
+    const startTime = Date.now();
+    try {
+      const version = normalizeVersion(args.version);
+      const { libraries, violations } = checkConventions({
+        code: args.code,
+        library: args.library,
+        version,
+        language: args.language,
+      });
+      const errors = violations.filter((v) => v.severity === 'error').length;
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: generateCheckReport(libraries, violations, version),
+          },
+        ],
+        structuredContent: {
+          libraries,
+          version,
+          valid: errors === 0,
+          errors,
+          warnings: violations.length - errors,
+          violations,
+        },
+        _meta: {
+          libraries,
+          violations: violations.length,
+          processingTime,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to check AntV code:', error);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to check AntV code: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          libraries: [],
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
@@ -0,0 +1,128 @@
+/**
+ * AntV Project Detection Tool - Reports the AntV packages installed in the workspace
+ */
+import { z } from 'zod';
+import type { ToolExtra } from '../types';
+import { logger, detectAntVProjects } from '../utils';
+import { getLibraryConfig } from '../constant';
+import { ProjectRootsError, type DetectedProject } from '../utils/workspace';
+
+const DetectAntVProjectInputSchema = z.object({
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Absolute path of the project directory (optional), inside the MCP client roots - If not specified, the client roots are scanned',
+    ),
+});
+
+type DetectAntVProjectArgs = z.infer<typeof DetectAntVProjectInputSchema>;
+
+function generateProjectReport(projects: DetectedProject[]): string {
+  if (projects.length === 0) {
+    return (
+      `# AntV Project Detection\n\n` +
+      `❌ **No package.json found** in the project directories.\n\n` +
+      `Pass the absolute project directory with the \`path\` argument.\n`
+    );
+  }
+
+  let response = `# AntV Project Detection\n\n`;
+  for (const project of projects) {
+    response += `## ${project.name || project.root}\n\n`;
+    response += `**Root**: ${project.root}\n`;
+    response += `**Package Manager**: ${project.packageManager || 'unknown'}${project.lockfile ? ` (${project.lockfile})` : ', no lockfile'}\n\n`;
+
+    if (project.packages.length === 0) {
+      response += `⚠️ No AntV packages installed.\n\n`;
+      continue;
+    }
+
+    response += `| Package | Declared | Installed | Library |\n`;
+    response += `| --- | --- | --- | --- |\n`;
+    for (const pkg of project.packages) {
+      response += `| ${pkg.name} | ${pkg.specifier} | ${pkg.version || '-'} | ${pkg.library || '-'} |\n`;
+    }
+    response += `\n`;
+
+    if (project.libraries.length > 0) {
+      response += `**Detected Libraries**: ${project.libraries
+        .map(
+          (l) =>
+            `${getLibraryConfig(l.library).name}${l.majorVersion !== undefined ? ` ${l.majorVersion}.x` : ''}`,
+        )
+        .join(', ')}\n\n`;
+    }
+  }
+
+  response += `**Next Step**: Pass the detected library to \`extract_antv_topic\` and \`query_antv_document\`.\n`;
+  return response;
+}
+
+function generateRootsReport(message: string): string {
+  return (
+    `# AntV Project Detection\n\n` +
+    `❌ **No project to scan**: ${message}.\n\n` +
+    `Expose the project directory as a root in the MCP client, then call this tool again.\n`
+  );
+}
+
+export const DetectAntVProjectTool = {
+  name: 'detect_antv_project',
+  description: `AntV Project Detection Tool - Reads package.json and the npm, yarn or pnpm lockfile of the workspace, and reports which @antv/* packages and versions are installed.
+
+When to use this tool:
+- **Library detection**: Before answering a question, to know which AntV libraries the project uses.
+- **Version detection**: To know the installed major version, e.g. G2 4.x vs 5.x, and query the matching documentation.`,
+  inputSchema: DetectAntVProjectInputSchema,
+  async run(args: DetectAntVProjectArgs, extra?: ToolExtra) {
+    const startTime = Date.now();
+    try {
+      const projects = await detectAntVProjects(args.path, extra);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [{ type: 'text', text: generateProjectReport(projects) }],
+        _meta: {
+          projects,
+          libraries: projects.flatMap((p) => p.libraries),
+          processingTime,
+        },
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      if (error instanceof ProjectRootsError) {
+        logger.warn('No project to scan:', error.message);
+        return {
+          content: [{ type: 'text', text: generateRootsReport(error.message) }],
+          _meta: {
+            projects: [],
+            libraries: [],
+            processingTime,
+            error: error.message,
+          },
+        };
+      }
+      logger.error('Failed to detect AntV project:', error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to detect AntV project: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          projects: [],
+          libraries: [],
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
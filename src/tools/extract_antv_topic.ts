@@ -2,8 +2,15 @@
  * AntV Topic Extraction Tool - Preprocesses user queries for AntV libraries
  */
 import { z } from 'zod';
-import type { AntVLibrary } from '../types';
-import { logger } from '../utils';
+import type { AntVLibrary, ToolExtra } from '../types';
+import {
+  logger,
+  detectAntVProjects,
+  normalizeVersion,
+  extractTopics,
+} from '../utils';
+import type { DetectedLibrary } from '../utils/workspace';
+import type { ExtractedTopics } from '../utils/topic';
 import {
   getLibraryConfig,
   getLibraryKeywords,
@@ -29,6 +36,13 @@ const ExtractAntVTopicInputSchema = z.object({
     .describe(
       'AntV library name (optional) - If not specified, tool will automatically detect project dependencies and intelligently recommend',
     ),
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Major version of the library (optional), e.g. "4" or "5.x" - If not specified, the installed version of the project is used',
+    ),
   maxTopics: z
     .number()
     .int('MaxTopics must be an integer')
@@ -38,16 +52,113 @@ const ExtractAntVTopicInputSchema = z.object({
     .describe(
       'Maximum number of extracted topic keywords, default 5, can be increased appropriately for complex tasks',
     ),
+  projectPath: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Absolute path of the user project (optional) - Used to detect the installed AntV libraries and versions, defaults to the MCP client roots, not read when both `library` and `version` are passed',
+    ),
+  mode: z
+    .enum(['prompt', 'server'])
+    .default('prompt')
+    .describe(
+      'Extraction mode - "prompt" (default) returns an analysis prompt for the model to fill in, "server" extracts the topics, intent and subtasks on the server and returns them as JSON, for small models',
+    ),
+});
+
+const ExtractAntVTopicOutputSchema = z.object({
+  query: z.string().describe('Original user query'),
+  mode: z.enum(['prompt', 'server']).describe('Extraction mode'),
+  library: z
+    .enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]])
+    .optional()
+    .describe(
+      'Specified or detected library, unset when the model has to detect it from the prompt',
+    ),
+  version: z
+    .string()
+    .optional()
+    .describe('Specified or installed major version of the library'),
+  topics: z
+    .array(z.string())
+    .describe('Extracted topic keywords, empty in prompt mode'),
+  intent: z
+    .enum(['implement', 'solve'])
+    .optional()
+    .describe('Extracted user intent, unset in prompt mode'),
+  isComplexTask: z
+    .boolean()
+    .optional()
+    .describe('Whether the query was decomposed, unset in prompt mode'),
+  subTasks: z
+    .array(
+      z.object({
+        query: z.string().describe('Subtask query'),
+        topic: z.string().describe('Subtask topic'),
+      }),
+    )
+    .describe('Subtasks of a complex task'),
+  detectedLibraries: z
+    .array(
+      z.object({
+        library: z.enum(
+          Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]],
+        ),
+        version: z.string().optional(),
+        majorVersion: z.number().int().optional(),
+        packages: z.array(z.string()),
+      }),
+    )
+    .describe('AntV libraries installed in the project'),
+  promptGenerated: z
+    .boolean()
+    .describe('Whether the model has to complete the extraction prompt'),
 });
 
 interface ExtractAntVTopicArgs {
   query: string;
   library?: AntVLibrary;
+  version?: string;
   maxTopics: number;
+  projectPath?: string;
+  mode: 'prompt' | 'server';
+}
+
+function generateDependencyContext(
+  detectedLibraries: DetectedLibrary[],
+): string {
+  if (detectedLibraries.length === 0) return '';
+  const dependencies = detectedLibraries
+    .map(
+      (l) =>
+        `   - **${getLibraryConfig(l.library).name} (${l.library})**${l.majorVersion !== undefined ? `: ${l.majorVersion}.x` : ''}${l.version ? ` (installed ${l.version})` : ''} - ${l.packages.join(', ')}`,
+    )
+    .join('\n');
+  return `\n**Detected Project Dependencies:**\n${dependencies}\n`;
 }
 
-function generateExtractionPrompt(args: ExtractAntVTopicArgs): string {
-  const { query, library, maxTopics } = args;
+/**
+ * Build the analysis prompt, for the library specified or detected as the
+ * only one of the project, if any.
+ */
+function generateExtractionPrompt(
+  args: ExtractAntVTopicArgs,
+  library: AntVLibrary | undefined,
+  detectedLibraries: DetectedLibrary[] = [],
+): string {
+  const { query, maxTopics } = args;
+  const specified = args.library ? 'Specified' : 'Detected';
+  const dependencyContext = generateDependencyContext(detectedLibraries);
+  const detectedVersion = detectedLibraries.find(
+    (l) => l.library === library,
+  )?.majorVersion;
+  const version = normalizeVersion(args.version);
+  const versionContext = version
+    ? `, version ${version}.x`
+    : detectedVersion !== undefined
+      ? `, version ${detectedVersion}.x installed`
+      : '';
 
   // Generate library mappings
   const libraryMappings = Object.values(ANTV_LIBRARY_META)
@@ -71,22 +182,22 @@ function generateExtractionPrompt(args: ExtractAntVTopicArgs): string {
 ## User Query
 **Query**: ${query}
 **Max Topics**: ${maxTopics}
-${library ? `**Specified Library**: ${getLibraryConfig(library).name} (${library})` : '**Library**: Auto-detect'}
+${library ? `**${specified} Library**: ${getLibraryConfig(library).name} (${library})${versionContext}` : '**Library**: Auto-detect'}
 
 ## Task Instructions
 
-### Phase 1: Library Detection ${library ? '(Skipped - Library Specified)' : ''}
+### Phase 1: Library Detection ${library ? `(Skipped - Library ${specified})` : ''}
 ${
   library
-    ? `Using specified library: **${getLibraryConfig(library).name} (${library})**`
+    ? `Using ${specified.toLowerCase()} library: **${getLibraryConfig(library).name} (${library})**${args.library ? '' : ', the only AntV library installed in the project'}`
     : `**Determine the most suitable AntV library:**
 
 Available Libraries:
 ${libraryMappings}
-
+${dependencyContext}
 **Selection Priority:**
 1. Match query intent with library purpose
-2. Check for existing project dependencies
+2. Check for existing project dependencies${dependencyContext ? ' (prefer the detected libraries above, and answer for their installed major version)' : ''}
 3. Consider common use cases for the query type`
 }
 
@@ -138,6 +249,7 @@ If complex, decompose into 2-4 subtasks, each subtask should:
 \`\`\`json
 {
   "library": "detected_or_specified_library",
+  "version": "major_version_if_specified_or_detected",
   "topic": "topic1, topic2, topic3",
   "intent": "implement|solve",
   "isComplexTask": false
@@ -148,6 +260,7 @@ If complex, decompose into 2-4 subtasks, each subtask should:
 \`\`\`json
 {
   "library": "detected_or_specified_library",
+  "version": "major_version_if_specified_or_detected",
   "topic": "overall_topic_summary",
   "intent": "overall_intent",
   "isComplexTask": true,
@@ -167,7 +280,45 @@ If complex, decompose into 2-4 subtasks, each subtask should:
 **Analyze the query and provide the structured output above.**
 
 ## Important Notice
-**MANDATORY NEXT STEP**: After completing this task, immediately call the \`query_antv_document\` tool with the extracted parameters.
+**MANDATORY NEXT STEP**: After completing this task, immediately call the \`query_antv_document\` tool with the extracted parameters, including \`version\` when known so that the documentation matches the version in use.
+`;
+}
+
+function getVersion(
+  args: ExtractAntVTopicArgs,
+  detectedLibraries: DetectedLibrary[],
+  library?: AntVLibrary,
+): string | undefined {
+  const detectedVersion = detectedLibraries.find(
+    (l) => l.library === library,
+  )?.majorVersion;
+  return (
+    normalizeVersion(args.version) ??
+    (detectedVersion !== undefined ? String(detectedVersion) : undefined)
+  );
+}
+
+function generateExtractionResult(
+  query: string,
+  result: ExtractedTopics & { version?: string },
+): string {
+  const { subTasks, ...parameters } = result;
+  const json = {
+    ...parameters,
+    query,
+    ...(result.isComplexTask ? { subTasks } : {}),
+  };
+  return `# AntV Topic Extraction
+
+**Query**: ${query}
+**Library**: ${getLibraryConfig(result.library).name} (${result.library})
+
+\`\`\`json
+${JSON.stringify(json, null, 2)}
+\`\`\`
+
+## Important Notice
+**MANDATORY NEXT STEP**: Immediately call the \`query_antv_document\` tool with the parameters above.
 `;
 }
 
@@ -188,12 +339,79 @@ Key features:
 - **Smart Library Detection**: Scans installed AntV libraries and recommends the best fit based on query and project dependencies.
 - **Topic & Intent Extraction**: Intelligently extracts technical topics and determines user intent (implement/solve).
 - **Task Complexity Handling**: Detects complex tasks and decomposes them into manageable subtasks.
+- **Server Mode**: With \`mode: "server"\`, extracts topics, intent and subtasks on the server and returns them as JSON, for models that struggle with the analysis prompt.
 - **Seamless Integration**: Prepares structured data for the query_antv_document tool to provide precise solutions.`,
   inputSchema: ExtractAntVTopicInputSchema,
-  async run(args: ExtractAntVTopicArgs) {
+  outputSchema: ExtractAntVTopicOutputSchema,
+  async run(args: ExtractAntVTopicArgs, extra?: ToolExtra) {
     const startTime = Date.now();
     try {
-      const extractionPrompt = generateExtractionPrompt(args);
+      // The project only tells the library and version the caller did not pass
+      const projects =
+        args.library && args.version
+          ? []
+          : await detectAntVProjects(args.projectPath, extra).catch((error) => {
+              logger.warn('Failed to detect project dependencies:', error);
+              return [];
+            });
+      const detectedLibraries = projects.flatMap((p) => p.libraries);
+
+      if (args.mode === 'server') {
+        const extracted = extractTopics({
+          query: args.query,
+          library: args.library,
+          maxTopics: args.maxTopics,
+          detectedLibraries,
+        });
+        const version = getVersion(args, detectedLibraries, extracted.library);
+        const processingTime = Date.now() - startTime;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: generateExtractionResult(args.query, {
+                ...extracted,
+                version,
+              }),
+            },
+          ],
+          structuredContent: {
+            query: args.query,
+            mode: args.mode,
+            library: extracted.library,
+            version,
+            topics: extracted.topic.split(', '),
+            intent: extracted.intent,
+            isComplexTask: extracted.isComplexTask,
+            subTasks: extracted.subTasks,
+            detectedLibraries,
+            promptGenerated: false,
+          },
+          _meta: {
+            query: args.query,
+            ...extracted,
+            version,
+            detectedLibraries,
+            maxTopics: args.maxTopics,
+            mode: args.mode,
+            promptGenerated: false,
+            next_tools: ['query_antv_document'],
+            processingTime,
+          },
+        };
+      }
+
+      const library =
+        args.library ||
+        (detectedLibraries.length === 1
+          ? detectedLibraries[0].library
+          : undefined);
+      const extractionPrompt = generateExtractionPrompt(
+        args,
+        library,
+        detectedLibraries,
+      );
       const processingTime = Date.now() - startTime;
 
       return {
@@ -203,12 +421,25 @@ Key features:
             text: extractionPrompt,
           },
         ],
+        structuredContent: {
+          query: args.query,
+          mode: args.mode,
+          library,
+          version: getVersion(args, detectedLibraries, library),
+          topics: [],
+          subTasks: [],
+          detectedLibraries,
+          promptGenerated: true,
+        },
         _meta: {
           query: args.query, // Original user query for next tool
           topic: '', // Will be filled by LLM
           intent: '', // Will be filled by LLM
-          library: args.library || 'auto-detect',
+          library: library || 'auto-detect',
+          version: getVersion(args, detectedLibraries, library),
+          detectedLibraries,
           maxTopics: args.maxTopics,
+          mode: args.mode,
           promptGenerated: true,
           next_tools: ['query_antv_document'],
           isComplexTask: false, // Will be determined and filled by LLM
@@ -235,7 +466,9 @@ Key features:
           topic: '',
           intent: '',
           library: args.library || 'auto-detect',
+          version: normalizeVersion(args.version),
           maxTopics: args.maxTopics,
+          mode: args.mode,
           promptGenerated: false,
           next_tools: ['query_antv_document'],
           isComplexTask: false,
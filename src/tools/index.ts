@@ -1,2 +1,8 @@
 export { QueryAntVDocumentTool } from './query_antv_document';
 export { ExtractAntVTopicTool } from './extract_antv_topic';
+export { DetectAntVProjectTool } from './detect_antv_project';
+export { CheckAntVCodeTool } from './check_antv_code';
+export { MigrateAntVCodeTool } from './migrate_antv_code';
+export { RecommendAntVChartTool } from './recommend_antv_chart';
+export { RenderAntVChartTool } from './render_antv_chart';
+export { ServerStatsTool } from './server_stats';
@@ -0,0 +1,315 @@
+/**
+ * AntV Code Migration Tool - Migrates code to the next major version of a library
+ */
+import { z } from 'zod';
+import type { DocChannel, ToolExtra } from '../types';
+import {
+  logger,
+  getLibraryId,
+  migrateG2Code,
+  checkConventions,
+  estimateTokens,
+  truncateToTokens,
+} from '../utils';
+import type { MigrationMapping, UntranslatedCode } from '../utils/migration';
+import type { ConventionViolation } from '../utils/conventions';
+import { CONTEXT7_TOKENS, DOC_CHANNELS } from '../constant';
+import { BackendBusyError } from '../utils/limiter';
+import { queryDocRouter } from './query_antv_document';
+
+// Libraries with a migration, and the versions they migrate between
+const MIGRATIONS = {
+  g2: { name: 'G2', from: '4', to: '5', migrate: migrateG2Code },
+} as const;
+
+type MigratableLibrary = keyof typeof MIGRATIONS;
+
+const MigrateAntVCodeInputSchema = z.object({
+  code: z.string().min(1).describe('JS, TS or JSX code to migrate'),
+  library: z
+    .enum(Object.keys(MIGRATIONS) as [MigratableLibrary])
+    .optional()
+    .default('g2')
+    .describe('AntV library of the code, only G2 4.x to 5.x for now'),
+  language: z
+    .enum(['js', 'jsx', 'ts', 'tsx'])
+    .optional()
+    .default('tsx')
+    .describe('Language of the code, `tsx` parses most snippets'),
+  includeDocs: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      'Whether to query the documentation of the migrated APIs, to verify each change',
+    ),
+  channel: z
+    .enum(DOC_CHANNELS)
+    .optional()
+    .default('Context7')
+    .describe(
+      'Documentation channel, as for `query_antv_document`. Use "Local" when there is no internet access.',
+    ),
+  tokens: z
+    .number()
+    .int()
+    .min(CONTEXT7_TOKENS.min)
+    .max(CONTEXT7_TOKENS.max)
+    .default(CONTEXT7_TOKENS.default)
+    .describe('Maximum tokens of the returned documentation'),
+});
+
+const MigrateAntVCodeOutputSchema = z.object({
+  library: z.enum(Object.keys(MIGRATIONS) as [MigratableLibrary]),
+  from: z.string().describe('Major version migrated from'),
+  to: z.string().describe('Major version migrated to'),
+  code: z.string().describe('Migrated code'),
+  changed: z.boolean().describe('Whether any code was migrated'),
+  mappings: z
+    .array(
+      z.object({
+        line: z.number().int().describe('Line number in the original code'),
+        from: z.string().describe('Original call'),
+        to: z.string().describe('Migrated configuration'),
+        note: z.string().optional().describe('Difference to verify'),
+      }),
+    )
+    .describe('Translated calls, in code order'),
+  untranslated: z
+    .array(
+      z.object({
+        line: z.number().int().describe('Line number in the original code'),
+        code: z.string().describe('Call or statement left as is'),
+        reason: z.string(),
+      }),
+    )
+    .describe('Code that could not be translated, marked with TODO comments'),
+  apis: z
+    .array(z.string())
+    .describe('APIs of the migrated code, queried in the documentation'),
+  violations: z
+    .array(
+      z.object({
+        rule: z.string(),
+        severity: z.enum(['error', 'warning']),
+        message: z.string(),
+        line: z.number().int(),
+        column: z.number().int(),
+        fix: z.string().optional(),
+      }),
+    )
+    .describe('Convention violations left in the migrated code'),
+  hasDocumentation: z.boolean().describe('Whether any documentation was found'),
+  backend: z
+    .enum(DOC_CHANNELS)
+    .nullable()
+    .describe('Backend that answered, `null` if none was queried or answered'),
+  truncated: z
+    .boolean()
+    .describe('Whether documentation was truncated to fit the token budget'),
+  error: z
+    .string()
+    .optional()
+    .describe('Errors of the backends, when no documentation was found'),
+});
+
+type MigrateAntVCodeArgs = z.infer<typeof MigrateAntVCodeInputSchema>;
+
+async function queryMigrationDocs(
+  args: MigrateAntVCodeArgs,
+  apis: string[],
+  extra?: ToolExtra,
+): Promise<{
+  documentation: string | null;
+  backend: DocChannel | null;
+  truncated: boolean;
+  error?: string;
+}> {
+  const { name, to } = MIGRATIONS[args.library];
+  const query = `${name} ${to}.x ${apis.join(' ')} API`;
+  const topic = apis.join(', ');
+  const routed = await queryDocRouter({
+    args: {
+      library: args.library,
+      query,
+      topic,
+      intent: 'migrate',
+      version: to,
+      tokens: args.tokens,
+      channel: args.channel,
+    },
+    libraryId: getLibraryId(args.library, to),
+    query,
+    topic,
+    tokens: args.tokens,
+    requestOptions: { signal: extra?.signal, sessionId: extra?.sessionId },
+  }).catch((error) => {
+    // The migration stands without the docs, report the busy backend
+    if (!(error instanceof BackendBusyError)) throw error;
+    return {
+      documentation: null,
+      backend: null,
+      error: `${error.backend} ${error.message}`,
+    };
+  });
+  const { documentation, backend, error } = routed;
+  if (!documentation) {
+    return { documentation, backend, truncated: false, error };
+  }
+  const fit = truncateToTokens(documentation, args.tokens);
+  return {
+    documentation: fit.documentation,
+    backend,
+    truncated: fit.truncated,
+  };
+}
+
+function generateMigrationReport(
+  args: MigrateAntVCodeArgs,
+  result: {
+    code: string;
+    mappings: MigrationMapping[];
+    untranslated: UntranslatedCode[];
+    violations: ConventionViolation[];
+    documentation: string | null;
+  },
+): string {
+  const { name, from, to } = MIGRATIONS[args.library];
+  let response = `# ${name} ${from}.x → ${to}.x Migration\n\n`;
+
+  if (result.mappings.length === 0 && result.untranslated.length === 0) {
+    return (
+      response +
+      `⚠️ **Nothing to migrate**: the code calls no ${name} ${from}.x chart API.\n`
+    );
+  }
+
+  response += `## Migrated Code\n\n\`\`\`${args.language}\n${result.code.trimEnd()}\n\`\`\`\n\n`;
+
+  if (result.mappings.length > 0) {
+    response += `## Mapping Notes\n\n`;
+    for (const mapping of result.mappings) {
+      response += `- Line ${mapping.line}: \`${mapping.from}\` → \`${mapping.to}\``;
+      response += mapping.note ? ` - ${mapping.note}\n` : `\n`;
+    }
+    response += `\n`;
+  }
+
+  if (result.untranslated.length > 0) {
+    response += `## Not Translated\n\n`;
+    response += `Marked with \`TODO(${name} ${to}.x)\` comments in the migrated code:\n\n`;
+    for (const item of result.untranslated) {
+      response += `- Line ${item.line}: \`${item.code}\` - ${item.reason}\n`;
+    }
+    response += `\n`;
+  }
+
+  if (result.violations.length > 0) {
+    response += `## Remaining Violations\n\n`;
+    for (const violation of result.violations) {
+      response += `- Line ${violation.line} \`${violation.rule}\`: ${violation.message}\n`;
+    }
+    response += `\n`;
+  }
+
+  if (result.documentation) {
+    response += `## ${name} ${to}.x Documentation\n\n${result.documentation}\n\n`;
+  }
+
+  response += `**Next Steps**:\n`;
+  response += `1. Verify each mapping against the ${name} ${to}.x documentation.\n`;
+  if (result.untranslated.length > 0) {
+    response += `2. Migrate the \`TODO\` code by hand, then check it with \`check_antv_code\`.\n`;
+  } else {
+    response += `2. Check the migrated code with \`check_antv_code\`.\n`;
+  }
+  return response;
+}
+
+export const MigrateAntVCodeTool = {
+  name: 'migrate_antv_code',
+  description: `AntV Code Migration Tool - Migrates code to the next major version of an AntV library, starting with G2 4.x to 5.x. Translates the chain API, e.g. \`chart.interval().position('x*y')\`, to the 5.x \`options()\` spec, lists a mapping note for each translated call and the constructs it could not translate, and pulls the 5.x documentation of the migrated APIs to verify each change.
+
+When to use this tool:
+- **Version upgrades**: To upgrade a project or snippet from G2 4.x to 5.x.
+- **Outdated examples**: To translate a G2 4.x example found online before adapting it.`,
+  inputSchema: MigrateAntVCodeInputSchema,
+  outputSchema: MigrateAntVCodeOutputSchema,
+  async run(args: MigrateAntVCodeArgs, extra?: ToolExtra) {
+    const startTime = Date.now();
+    try {
+      const { from, to, migrate } = MIGRATIONS[args.library];
+      const { code, mappings, untranslated, apis } = migrate({
+        code: args.code,
+        language: args.language,
+      });
+      const changed = code !== args.code;
+      const { violations } = checkConventions({
+        code,
+        library: args.library,
+        version: to,
+        language: args.language,
+      });
+
+      const docs =
+        args.includeDocs && apis.length > 0
+          ? await queryMigrationDocs(args, apis, extra)
+          : { documentation: null, backend: null, truncated: false };
+      const response = generateMigrationReport(args, {
+        code,
+        mappings,
+        untranslated,
+        violations,
+        documentation: docs.documentation,
+      });
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [{ type: 'text', text: response }],
+        structuredContent: {
+          library: args.library,
+          from,
+          to,
+          code,
+          changed,
+          mappings,
+          untranslated,
+          apis,
+          violations,
+          hasDocumentation: !!docs.documentation,
+          backend: docs.backend,
+          truncated: docs.truncated,
+          error: docs.error,
+        },
+        _meta: {
+          library: args.library,
+          mappings: mappings.length,
+          untranslated: untranslated.length,
+          backend: docs.backend,
+          tokens: estimateTokens(response),
+          processingTime,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to migrate AntV code:', error);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to migrate AntV code: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          library: args.library,
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
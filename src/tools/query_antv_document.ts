@@ -2,20 +2,53 @@
  * AntV Documentation Query Tool - Provides visualization solutions from official docs
  */
 import { z } from 'zod';
-import type { AntVLibrary } from '../types';
-import { logger, getLibraryId, fetchLibraryDocumentation } from '../utils';
+import type { AntVLibrary, DocBackend, DocChannel, ToolExtra } from '../types';
+import {
+  logger,
+  getLibraryId,
+  queryDocumentation,
+  normalizeVersion,
+  getLibraryCodeStyle,
+  getVersionWarnings,
+  parseSnippets,
+  selectSnippets,
+  mergeSnippetGroups,
+  renderSnippets,
+  extractApis,
+  estimateTokens,
+  allocateTokenBudget,
+  truncateToTokens,
+  ProgressReporter,
+  type DocumentationRequestOptions,
+} from '../utils';
+import { tokenize } from '../utils/local';
+import { BackendBusyError } from '../utils/limiter';
+import { CancelledError, createLinkedSignal } from '../utils/resilience';
+import type { DocumentationSnippet, RankedSnippet } from '../utils/snippets';
 import {
   getLibraryConfig,
   ANTV_LIBRARY_META,
   CONTEXT7_TOKENS,
+  DOC_BACKENDS,
+  DOC_CHANNELS,
 } from '../constant';
-import { adaptedQueryDeepWiki } from '../utils/deepwiki';
+
+// Budget of a subtask request at least, so that each returns some snippets
+const MIN_SUBTASK_TOKENS = 200;
+
+const LibrarySchema = z.enum(
+  Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]],
+);
 
 const QueryAntVDocumentInputSchema = z.object({
-  library: z
-    .enum(Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]])
+  library: LibrarySchema.describe(
+    'Specified AntV library type, intelligently identified based on user query. The main library when several are combined',
+  ),
+  libraries: z
+    .array(LibrarySchema)
+    .optional()
     .describe(
-      'Specified AntV library type, intelligently identified based on user query',
+      'Other AntV libraries combined with `library` in the same solution (optional), e.g. S2 tables with G2 charts, or G6 graphs with L7 maps. Without subtasks, the question is asked of each library',
     ),
   query: z
     .string()
@@ -33,18 +66,30 @@ const QueryAntVDocumentInputSchema = z.object({
     .describe(
       'Extracted user intent, provided by extract_antv_topic tool or directly extracted from simple questions.',
     ),
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Major version of `library` used by the project (optional), e.g. "4" or "5.x". The other libraries use their latest documentation. Provided by `extract_antv_topic` or `detect_antv_project`, defaults to the latest documentation.',
+    ),
   tokens: z
     .number()
     .int()
     .min(CONTEXT7_TOKENS.min)
     .max(CONTEXT7_TOKENS.max)
     .default(CONTEXT7_TOKENS.default)
-    .describe('tokens for returned content'),
+    .describe(
+      'Maximum tokens of the returned content, spread across subtasks by relevance',
+    ),
   subTasks: z
     .array(
       z.object({
         query: z.string().min(1).describe('Subtask query'),
         topic: z.string().min(1).describe('Subtask topic'),
+        library: LibrarySchema.optional().describe(
+          'Library of the subtask, defaults to `library`',
+        ),
       }),
     )
     .optional()
@@ -52,84 +97,418 @@ const QueryAntVDocumentInputSchema = z.object({
       'Decomposed subtask list for complex tasks, supports batch processing',
     ),
   channel: z
-    .enum(['Context7', 'DeepWiki'])
+    .enum(DOC_CHANNELS)
     .optional()
     .default('Context7')
     .describe(
       'Controls the trade-off between search speed and retrieval accuracy. ' +
         'Use "Context7" (Default) for quick, interactive responses (~2s latency). ' +
-        'Use "DeepWiki" ONLY when the user explicitly requests "deep research", "high accuracy", "comprehensive analysis", or when the query is critical and requires verification, despite the slower speed (~20s latency).',
+        'Use "DeepWiki" ONLY when the user explicitly requests "deep research", "high accuracy", "comprehensive analysis", or when the query is critical and requires verification, despite the slower speed (~20s latency). ' +
+        'Use "Local" to answer offline from the local documentation index, when there is no internet access. ' +
+        'Use "Hybrid" for critical questions that need both breadth and source-code-grounded answers: it queries Context7 and DeepWiki concurrently and merges their results (~20s latency).',
     ),
 });
 
+const SnippetSchema = z.object({
+  title: z.string().describe('Snippet title'),
+  description: z.string().optional().describe('Snippet description'),
+  source: z.string().optional().describe('Source URL of the snippet'),
+  language: z.string().optional().describe('Language of the code'),
+  code: z.string().describe('Code of the snippet'),
+  subTasks: z
+    .array(z.number().int())
+    .optional()
+    .describe('Subtasks served by the snippet, numbered from 1'),
+});
+
+const QueryAntVDocumentOutputSchema = z.object({
+  library: LibrarySchema.describe('Main queried AntV library'),
+  libraries: z
+    .array(LibrarySchema)
+    .describe('All queried AntV libraries, the main library first'),
+  version: z.string().optional().describe('Requested major version'),
+  topics: z.array(z.string()).describe('Queried topic keywords'),
+  intent: z.string().describe('User intent'),
+  channel: z.enum(DOC_CHANNELS).describe('Requested channel'),
+  hasDocumentation: z.boolean().describe('Whether any documentation was found'),
+  backend: z
+    .enum(DOC_CHANNELS)
+    .nullable()
+    .optional()
+    .describe(
+      'Backend that answered a simple query, `null` if none did. Differs from the channel after a fallback',
+    ),
+  sources: z
+    .array(z.enum(DOC_BACKENDS))
+    .optional()
+    .describe('Backends whose answers were merged by the `Hybrid` channel'),
+  backends: z
+    .array(z.enum(DOC_CHANNELS))
+    .describe('All backends that answered'),
+  attempts: z
+    .number()
+    .int()
+    .describe('Requests sent to the backends, retries included'),
+  snippets: z
+    .array(SnippetSchema)
+    .describe('Code snippets of the documentation, of all subtasks'),
+  subTasks: z
+    .array(
+      z.object({
+        query: z.string().describe('Subtask query'),
+        topic: z.string().describe('Subtask topic'),
+        library: LibrarySchema.describe('Library of the subtask'),
+        hasDocumentation: z.boolean(),
+        backend: z.enum(DOC_CHANNELS).nullable(),
+        sources: z.array(z.enum(DOC_BACKENDS)).optional(),
+        attempts: z.number().int(),
+        snippets: z.array(SnippetSchema),
+        shared: z
+          .array(
+            z.object({
+              title: z.string().describe('Snippet title'),
+              subTask: z
+                .number()
+                .int()
+                .describe('Subtask the snippet is shown under'),
+            }),
+          )
+          .optional()
+          .describe('Snippets of the subtask shown under an earlier subtask'),
+        error: z.string().optional(),
+      }),
+    )
+    .optional()
+    .describe('Results of the subtasks of a complex task'),
+  sharedApis: z
+    .array(
+      z.object({
+        api: z.string().describe('API called by the snippets'),
+        subTasks: z.array(z.number().int()).describe('Subtasks calling it'),
+      }),
+    )
+    .optional()
+    .describe('APIs tying the subtasks of a complex task together'),
+  versionWarnings: z
+    .array(z.string())
+    .describe('Mismatches between the requested and documented versions'),
+  tokens: z.number().int().describe('Estimated tokens of the response'),
+  truncated: z
+    .boolean()
+    .describe('Whether documentation was truncated to fit the token budget'),
+  error: z
+    .string()
+    .optional()
+    .describe('Errors of the backends, when no documentation was found'),
+});
+
 type QueryAntVDocumentArgs = z.infer<typeof QueryAntVDocumentInputSchema>;
+type QueryAntVDocumentOutput = z.infer<typeof QueryAntVDocumentOutputSchema>;
+
+type SubTask = { query: string; topic: string; library: AntVLibrary };
+
+/**
+ * Libraries of the query, the main library first.
+ */
+function getQueryLibraries(args: QueryAntVDocumentArgs): AntVLibrary[] {
+  return Array.from(
+    new Set([
+      args.library,
+      ...(args.libraries || []),
+      ...(args.subTasks || []).flatMap((t) => (t.library ? [t.library] : [])),
+    ]),
+  );
+}
+
+/**
+ * Requested version of a library, only the main library has one.
+ */
+function getLibraryVersion(
+  args: QueryAntVDocumentArgs,
+  library: AntVLibrary,
+): string | undefined {
+  return library === args.library ? args.version : undefined;
+}
+
+/**
+ * Subtasks of the query, the given ones on their library, or the question
+ * asked of each library when several are combined without subtasks.
+ */
+function getSubTasks(
+  args: QueryAntVDocumentArgs,
+  libraries: AntVLibrary[],
+): SubTask[] {
+  if (args.subTasks && args.subTasks.length > 0) {
+    return args.subTasks.map((t) => ({
+      ...t,
+      library: t.library || args.library,
+    }));
+  }
+  if (libraries.length > 1) {
+    return libraries.map((library) => ({
+      query: args.query,
+      topic: args.topic,
+      library,
+    }));
+  }
+  return [];
+}
 
 export async function queryDocRouter(params: {
   args: QueryAntVDocumentArgs;
+  /** Library of a subtask, defaults to `args.library`. */
+  library?: AntVLibrary;
   libraryId: string;
+  query: string;
   topic: string;
   tokens?: number;
+  requestOptions?: DocumentationRequestOptions;
 }) {
-  const { args, libraryId, topic, tokens } = params;
-  if (args.channel === 'DeepWiki') {
-    return await adaptedQueryDeepWiki({
-      repoName: args.library,
-      question: topic,
-    });
-  } else {
-    return await fetchLibraryDocumentation(libraryId, topic, tokens);
+  const { args, libraryId, query, topic, tokens, requestOptions } = params;
+  const library = params.library || args.library;
+  const result = await queryDocumentation(
+    args.channel,
+    {
+      library,
+      libraryId,
+      topic,
+      tokens,
+      version: normalizeVersion(getLibraryVersion(args, library)),
+    },
+    requestOptions,
+  );
+  if (!result.documentation) return { ...result, snippets: [], duplicates: 0 };
+
+  // Context7 and Local answer with snippets, keep the relevant unique ones
+  if (result.backend === 'Context7' || result.backend === 'Local') {
+    return {
+      ...result,
+      ...selectSnippets(result.documentation, `${query} ${topic}`, tokens),
+    };
   }
+  return {
+    ...result,
+    snippets: parseSnippets(result.documentation).map((snippet) => ({
+      ...snippet,
+      score: 0,
+    })),
+    duplicates: 0,
+  };
 }
 
-async function handleComplexTask(
+/**
+ * Report the backend requests of a task as progress, DeepWiki answers being
+ * slow enough for clients to time out.
+ */
+function reportBackendRequests(
+  progress: ProgressReporter,
+  task: number,
+  label: string,
+): DocumentationRequestOptions {
+  return {
+    onBackendRequest: (backend) =>
+      progress.step(
+        task,
+        backend === 'DeepWiki'
+          ? `${label}: connecting to DeepWiki, answers take about 20s`
+          : `${label}: querying ${backend}`,
+      ),
+  };
+}
+
+function toSnippetOutput({
+  score,
+  ...snippet
+}: RankedSnippet): DocumentationSnippet {
+  return snippet;
+}
+
+function getAnsweringBackends(
+  backend: DocChannel | null,
+  sources?: DocBackend[],
+): DocBackend[] {
+  if (!backend) return [];
+  return backend === 'Hybrid' ? sources || [] : [backend];
+}
+
+function generateVersionNotice(warnings: string[]): string {
+  if (warnings.length === 0) return '';
+  return `\n⚠️ **Version Mismatch**:\n${warnings.map((w) => `- ${w}`).join('\n')}\n\n`;
+}
+
+type SubTaskResult = Awaited<ReturnType<typeof queryDocRouter>> & {
+  task: SubTask;
+  /** Snippets of the subtask shown under an earlier subtask. */
+  shared?: Array<{ title: string; subTask: number }>;
+};
+
+type MergedSnippet = { snippet: RankedSnippet; subTasks: number[] };
+
+// APIs listed at most in the integration summary
+const MAX_SHARED_APIS = 10;
+
+/**
+ * Relevance of a subtask to the whole question, the number of its query and
+ * topic terms shared with the question and its topics.
+ */
+function getSubTaskRelevance(
   args: QueryAntVDocumentArgs,
-  libraryId: string,
-  subTasks: Array<{ query: string; topic: string }>,
-): Promise<{ response: string; hasDocumentation: boolean }> {
-  const libraryConfig = getLibraryConfig(args.library);
-  const tokenPerSubTask = Math.min(
-    Math.floor(args.tokens / subTasks.length),
-    1000,
+  subTask: { query: string; topic: string },
+): number {
+  const terms = new Set(tokenize(`${args.query} ${args.topic}`));
+  const shared = new Set(
+    tokenize(`${subTask.query} ${subTask.topic}`).filter((t) => terms.has(t)),
   );
+  return Math.max(1, shared.size);
+}
 
-  let response = `# ${libraryConfig.name} Complex Task Solution\n\n`;
-  response += `**Question**: ${args.query}\n`;
-  response += `**Complexity**: Decomposed into ${subTasks.length} subtasks\n\n---\n\n`;
+/**
+ * Keep the snippets still rendered in truncated documentation.
+ */
+function keepRenderedSnippets(
+  snippets: RankedSnippet[],
+  documentation: string,
+): RankedSnippet[] {
+  return snippets.filter((s) => documentation.includes(s.code));
+}
 
-  const subTaskPromises = subTasks.map(async (subTask, index) => {
-    try {
-      logger.info(
-        `Processing subtask ${index + 1}/${subTasks.length}: ${subTask.topic}`,
-      );
-      const { documentation, error } = await queryDocRouter({
-        args,
-        libraryId,
-        topic: subTask.topic,
-        tokens: tokenPerSubTask,
-      });
-      return { task: subTask, documentation, error };
-    } catch (error) {
-      logger.error(`Failed to process subtask ${index + 1}:`, error);
-      return {
-        task: subTask,
-        documentation: null,
-        error: error instanceof Error ? error.message : String(error),
-      };
+/**
+ * Show each snippet once across subtasks, under the first subtask it serves,
+ * and reference it from the others. Only documentation rendered from
+ * snippets, that of Context7 and Local, can be rewritten.
+ */
+function mergeSubTaskResults(results: SubTaskResult[]): {
+  results: SubTaskResult[];
+  snippets: MergedSnippet[];
+  duplicates: number;
+} {
+  const merged = mergeSnippetGroups(results.map((r) => r.snippets));
+  let duplicates = 0;
+
+  const deduplicated = results.map((result, index) => {
+    if (result.backend !== 'Context7' && result.backend !== 'Local') {
+      return result;
     }
+    const shared = merged.filter(
+      (m) => m.groups[0] !== index && m.groups.includes(index),
+    );
+    if (shared.length === 0) return result;
+
+    const owned = merged
+      .filter((m) => m.groups[0] === index)
+      .map((m) => m.snippet);
+    duplicates += shared.length;
+    return {
+      ...result,
+      documentation: renderSnippets(owned),
+      snippets: owned,
+      shared: shared.map((m) => ({
+        title: m.snippet.title,
+        subTask: m.groups[0] + 1,
+      })),
+    };
   });
 
-  const results = await Promise.all(subTaskPromises);
-  const hasDocumentation = results.some(
-    (r) => r.documentation !== null && r.documentation.trim() !== '',
-  );
+  return {
+    results: deduplicated,
+    snippets: merged.map((m) => ({
+      snippet: m.snippet,
+      subTasks: m.groups.map((g) => g + 1),
+    })),
+    duplicates,
+  };
+}
+
+/**
+ * Find the APIs called by the snippets of several subtasks, the ones most
+ * subtasks share first.
+ */
+function findSharedApis(
+  snippets: MergedSnippet[],
+): Array<{ api: string; subTasks: number[] }> {
+  const apis = new Map<string, Set<number>>();
+  for (const { snippet, subTasks } of snippets) {
+    for (const api of extractApis(snippet.code)) {
+      const served = apis.get(api) || new Set<number>();
+      subTasks.forEach((t) => served.add(t));
+      apis.set(api, served);
+    }
+  }
+
+  return Array.from(apis.entries())
+    .filter(([, subTasks]) => subTasks.size > 1)
+    .map(([api, subTasks]) => ({
+      api,
+      subTasks: Array.from(subTasks).sort((a, b) => a - b),
+    }))
+    .sort((a, b) => b.subTasks.length - a.subTasks.length)
+    .slice(0, MAX_SHARED_APIS);
+}
+
+function generateSharedSummary(
+  snippets: MergedSnippet[],
+  sharedApis: Array<{ api: string; subTasks: number[] }>,
+): string {
+  let summary = '';
+  if (sharedApis.length > 0) {
+    summary += `**Shared APIs**: These APIs tie the subtasks together, configure them once and reuse them.\n`;
+    summary += sharedApis
+      .map((a) => `- \`${a.api}\`: Subtasks ${a.subTasks.join(', ')}\n`)
+      .join('');
+    summary += '\n';
+  }
+
+  const shared = snippets.filter((s) => s.subTasks.length > 1);
+  if (shared.length > 0) {
+    summary += `**Shared Examples**:\n`;
+    summary += shared
+      .map(
+        (s) =>
+          `- ${s.snippet.title}: Subtasks ${s.subTasks.join(', ')}, shown under Subtask ${s.subTasks[0]}\n`,
+      )
+      .join('');
+    summary += '\n';
+  }
+  return summary;
+}
+
+function generateComplexResponse(
+  args: QueryAntVDocumentArgs,
+  results: SubTaskResult[],
+  snippets: MergedSnippet[],
+  versionWarnings: string[],
+): string {
+  const libraries = getQueryLibraries(args);
+  const names = libraries.map((l) => getLibraryConfig(l).name);
+
+  let response = `# ${names.join(' + ')} Complex Task Solution\n\n`;
+  response += `**Question**: ${args.query}\n`;
+  if (args.version) {
+    response += `**Version**: ${normalizeVersion(args.version) || args.version}.x\n`;
+  }
+  response += `**Complexity**: Decomposed into ${results.length} subtasks\n\n---\n\n`;
+  response += generateVersionNotice(versionWarnings);
 
   // Generate subtask responses
   for (const [index, result] of results.entries()) {
     response += `## 📋 Subtask ${index + 1}: ${result.task.query}\n\n`;
     response += `**Subtask Topic**: ${result.task.topic}\n\n`;
+    if (libraries.length > 1) {
+      response += `**Library**: ${getLibraryConfig(result.task.library).name}\n\n`;
+    }
+    if (result.backend && result.backend !== args.channel) {
+      response += `**Source**: ${result.backend} (fallback)\n\n`;
+    }
     if (result.documentation) {
       response += `${result.documentation}\n\n`;
-    } else {
+    }
+    if (result.shared?.length) {
+      response += `🔗 **Also Relevant**:\n`;
+      response += result.shared
+        .map((s) => `- ${s.title}, see Subtask ${s.subTask}\n`)
+        .join('');
+      response += '\n';
+    } else if (!result.documentation) {
       response += `⚠️ No relevant documentation found for this subtask.\n`;
       if (result.error) {
         response += `Error: ${result.error}\n`;
@@ -139,7 +518,9 @@ async function handleComplexTask(
   }
 
   // Add integration summary
-  const successCount = results.filter((r) => r.documentation).length;
+  const successCount = results.filter(
+    (r) => r.documentation || r.shared?.length,
+  ).length;
   response += `## 🎯 Integration Summary\n\n`;
 
   if (successCount === results.length) {
@@ -154,19 +535,193 @@ async function handleComplexTask(
     response += `❌ **Limited Results**: No documentation found for the subtasks.\n\n`;
     response += `**Suggestions**:\n`;
     response += `- Try refining the query with more specific keywords\n`;
-    response += `- Check the official ${libraryConfig.name} documentation directly\n\n`;
+    response += `- Check the official ${names.join(' and ')} documentation directly\n\n`;
   }
+  response += generateSharedSummary(snippets, findSharedApis(snippets));
 
-  response += generateImplementationGuidance(args.intent, args.library);
+  response += generateImplementationGuidance(args, libraries);
   response += generateFollowUpNotice();
+  return response;
+}
+
+async function handleComplexTask(
+  args: QueryAntVDocumentArgs,
+  subTasks: SubTask[],
+  extra?: ToolExtra,
+): Promise<{
+  response: string;
+  hasDocumentation: boolean;
+  truncated: boolean;
+  versionWarnings: string[];
+  rankedSnippets: RankedSnippet[];
+  duplicates: number;
+  snippets: QueryAntVDocumentOutput['snippets'];
+  sharedApis: NonNullable<QueryAntVDocumentOutput['sharedApis']>;
+  subTasks: NonNullable<QueryAntVDocumentOutput['subTasks']>;
+}> {
+  // Spread the budget across the subtasks by relevance
+  const weights = subTasks.map((subTask) => getSubTaskRelevance(args, subTask));
+  const budgets = allocateTokenBudget(args.tokens, weights, MIN_SUBTASK_TOKENS);
+  const progress = new ProgressReporter(extra, subTasks.length);
+  // A busy backend cancels the other subtasks, the client retries the whole task
+  const linked = createLinkedSignal(extra?.signal);
+
+  const subTaskPromises = subTasks.map(
+    async (subTask, index): Promise<SubTaskResult> => {
+      const label = `Subtask ${index + 1}/${subTasks.length}`;
+      try {
+        logger.info(
+          `Processing subtask ${index + 1}/${subTasks.length}: ${subTask.library} ${subTask.topic} (${budgets[index]} tokens)`,
+        );
+        progress.start(index, `${label} started: ${subTask.topic}`);
+        const result = await queryDocRouter({
+          args,
+          library: subTask.library,
+          libraryId: getLibraryId(
+            subTask.library,
+            getLibraryVersion(args, subTask.library),
+          ),
+          query: subTask.query,
+          topic: subTask.topic,
+          tokens: budgets[index],
+          requestOptions: {
+            signal: linked.signal,
+            sessionId: extra?.sessionId,
+            ...reportBackendRequests(progress, index, label),
+          },
+        });
+        progress.finish(
+          index,
+          `${label} finished${result.documentation ? '' : ', no documentation found'}`,
+        );
+        return { task: subTask, ...result };
+      } catch (error) {
+        if (error instanceof BackendBusyError) linked.abort(error);
+        // Stop the other subtasks right away
+        if (
+          error instanceof CancelledError ||
+          error instanceof BackendBusyError
+        ) {
+          throw error;
+        }
+        logger.error(`Failed to process subtask ${index + 1}:`, error);
+        progress.finish(index, `${label} failed`);
+        return {
+          task: subTask,
+          documentation: null,
+          error: error instanceof Error ? error.message : String(error),
+          backend: null,
+          attempts: 0,
+          snippets: [],
+          duplicates: 0,
+        };
+      }
+    },
+  );
 
-  return { response, hasDocumentation };
+  const settled = await Promise.all(subTaskPromises)
+    .catch((error: unknown) => {
+      // The other subtasks fail with a `CancelledError` once aborted
+      throw linked.signal.reason instanceof BackendBusyError
+        ? linked.signal.reason
+        : error;
+    })
+    .finally(linked.clear);
+  progress.complete('Merging the subtask results');
+  const merged = mergeSubTaskResults(settled);
+  const results = merged.results;
+  const hasDocumentation = results.some(
+    (r) => r.documentation !== null && r.documentation.trim() !== '',
+  );
+  // Only the main library has a requested version
+  const versionWarnings = getVersionWarnings(
+    args.library,
+    args.version,
+    Array.from(
+      new Set(
+        results
+          .filter((r) => r.task.library === args.library)
+          .flatMap((r) => getAnsweringBackends(r.backend, r.sources)),
+      ),
+    ),
+  );
+
+  // Fit the documentation in what the rest of the response leaves
+  const overhead = estimateTokens(
+    generateComplexResponse(
+      args,
+      results.map((r) => ({ ...r, documentation: r.documentation && ' ' })),
+      merged.snippets,
+      versionWarnings,
+    ),
+  );
+  const documented = results.filter((r) => r.documentation);
+  const shares = allocateTokenBudget(
+    args.tokens - overhead,
+    documented.map((r) => weights[results.indexOf(r)]),
+  );
+  let truncated = false;
+  const fitted = results.map((result) => {
+    const index = documented.indexOf(result);
+    if (!result.documentation || index === -1) return result;
+    const fit = truncateToTokens(result.documentation, shares[index]);
+    truncated ||= fit.truncated;
+    return {
+      ...result,
+      documentation: fit.documentation,
+      snippets: keepRenderedSnippets(result.snippets, fit.documentation),
+    };
+  });
+
+  // Report the unique snippets still rendered after truncation
+  const rendered = new Set(fitted.flatMap((r) => r.snippets));
+  const snippets = merged.snippets.filter((m) => rendered.has(m.snippet));
+
+  return {
+    response: generateComplexResponse(args, fitted, snippets, versionWarnings),
+    hasDocumentation,
+    truncated,
+    versionWarnings,
+    rankedSnippets: snippets.map((m) => m.snippet),
+    duplicates:
+      merged.duplicates + fitted.reduce((sum, r) => sum + r.duplicates, 0),
+    snippets: snippets.map((m) => ({
+      ...toSnippetOutput(m.snippet),
+      subTasks: m.subTasks,
+    })),
+    sharedApis: findSharedApis(snippets),
+    subTasks: fitted.map(
+      ({
+        task,
+        documentation,
+        error,
+        backend,
+        sources,
+        attempts,
+        snippets,
+        shared,
+      }) => ({
+        query: task.query,
+        topic: task.topic,
+        library: task.library,
+        hasDocumentation: !!documentation?.trim() || !!shared?.length,
+        backend,
+        sources,
+        attempts,
+        snippets: snippets.map(toSnippetOutput),
+        shared,
+        error,
+      }),
+    ),
+  };
 }
 
 function generateSimpleResponse(
   args: QueryAntVDocumentArgs,
   documentation: string | null,
   error?: string,
+  backend?: DocChannel | null,
+  versionWarnings: string[] = [],
 ): string {
   const libraryConfig = getLibraryConfig(args.library);
 
@@ -187,25 +742,51 @@ function generateSimpleResponse(
   let response = `# ${libraryConfig.name} Solution\n\n`;
   response += `**User Question**: ${args.query}\n`;
   response += `**Search Topic**: ${args.topic}\n`;
+  if (args.version) {
+    response += `**Version**: ${normalizeVersion(args.version) || args.version}.x\n`;
+  }
+  if (backend && backend !== args.channel) {
+    response += `**Source**: ${backend} (fallback, ${args.channel} returned no documentation)\n`;
+  }
+  response += generateVersionNotice(versionWarnings);
   response += `${documentation}\n\n`;
-  response += generateImplementationGuidance(args.intent, args.library);
+  response += generateImplementationGuidance(args, [args.library]);
   response += generateFollowUpNotice();
 
   return response;
 }
 
+/**
+ * Code conventions of the queried libraries, each labeled when several are
+ * combined.
+ */
+function generateCodeStyleGuidance(
+  args: QueryAntVDocumentArgs,
+  libraries: AntVLibrary[],
+): string {
+  if (libraries.length === 1) {
+    const [library] = libraries;
+    return ` ${getLibraryCodeStyle(library, getLibraryVersion(args, library))}\n`;
+  }
+  return libraries
+    .map(
+      (library) =>
+        `- ${getLibraryConfig(library).name} conventions:\n ${getLibraryCodeStyle(library, getLibraryVersion(args, library))}\n`,
+    )
+    .join('');
+}
+
 function generateImplementationGuidance(
-  intent: string,
-  library: AntVLibrary,
+  args: QueryAntVDocumentArgs,
+  libraries: AntVLibrary[],
 ): string {
-  switch (intent) {
+  const names = libraries.map((l) => getLibraryConfig(l).name).join(' and ');
+  switch (args.intent) {
     case 'implement':
-      const config = getLibraryConfig(library);
-
       return (
         `## 🛠️ Implementation Guide\n\n` +
         `- Follow the code examples and patterns shown above\n` +
-        ` ${config.codeStyle}\n` +
+        generateCodeStyleGuidance(args, libraries) +
         `- Pay attention to required vs optional parameters\n` +
         `- Test with simple data first, then use your real data\n` +
         `- Check browser console for any errors during development\n\n`
@@ -225,7 +806,7 @@ function generateImplementationGuidance(
         `## 📖 Next Steps\n\n` +
         `- Review the documentation above carefully\n` +
         `- Adapt the examples to your specific requirements\n` +
-        `- Ensure your implementation follows ${getLibraryConfig(library).name} best practices and conventions\n` +
+        `- Ensure your implementation follows ${names} best practices and conventions\n` +
         `- Test incrementally and iterate as needed\n\n`
       );
   }
@@ -253,47 +834,180 @@ When to use this tool:
 - **Debugging & Problem Solving**: For troubleshooting errors, unexpected behaviors, or technical challenges in AntV projects.
 - **Learning & Best Practices**: To explore official documentation, code examples, design patterns, or advanced features.
 - **Complex Task Handling**: For multi-step tasks requiring subtask decomposition (e.g., "Build a dashboard with interactive charts").
+- **Multi-library Solutions**: For solutions combining libraries (e.g., S2 tables with G2 charts), list them in \`libraries\` or set the \`library\` of each subtask.
 - **Simple modifications**: Even basic changes like "Change the chart's color" or "Update legend position" in AntV context.`,
   inputSchema: QueryAntVDocumentInputSchema,
-  async run(args: QueryAntVDocumentArgs) {
+  outputSchema: QueryAntVDocumentOutputSchema,
+  async run(args: QueryAntVDocumentArgs, extra?: ToolExtra) {
     const startTime = Date.now();
     try {
-      const libraryId = getLibraryId(args.library);
+      const libraryId = getLibraryId(args.library, args.version);
+      const libraries = getQueryLibraries(args);
+      const subTasks = getSubTasks(args, libraries);
       let response: string;
-      let hasDocumentation = false;
+      let structuredContent: QueryAntVDocumentOutput;
+      let routing: Record<string, unknown>;
+      const output = {
+        library: args.library,
+        libraries,
+        version: normalizeVersion(args.version),
+        topics: args.topic.split(',').map((t: string) => t.trim()),
+        intent: args.intent,
+        channel: args.channel,
+      };
 
-      if (args.subTasks && args.subTasks.length > 0) {
-        // Handle complex task with subtasks
-        const result = await handleComplexTask(args, libraryId, args.subTasks);
+      if (subTasks.length > 0) {
+        // Handle complex task with subtasks, or one per library
+        const result = await handleComplexTask(args, subTasks, extra);
+        const backends = Array.from(
+          new Set(
+            result.subTasks
+              .map((t) => t.backend)
+              .filter((b): b is DocChannel => !!b),
+          ),
+        );
+        const attempts = result.subTasks.reduce(
+          (sum, t) => sum + t.attempts,
+          0,
+        );
         response = result.response;
-        hasDocumentation = result.hasDocumentation;
+        structuredContent = {
+          ...output,
+          hasDocumentation: result.hasDocumentation,
+          backends,
+          attempts,
+          snippets: result.snippets,
+          subTasks: result.subTasks,
+          sharedApis: result.sharedApis,
+          versionWarnings: result.versionWarnings,
+          tokens: estimateTokens(response),
+          truncated: result.truncated,
+        };
+        routing = {
+          backends,
+          attempts,
+          snippets: result.rankedSnippets,
+          duplicatesRemoved: result.duplicates,
+          subTasks: result.subTasks.map(
+            ({ topic, library, backend, sources, attempts }) => ({
+              topic,
+              library,
+              backend,
+              sources,
+              attempts,
+            }),
+          ),
+        };
       } else {
         // Handle simple query
-        const { documentation, error } = await queryDocRouter({
+        const progress = new ProgressReporter(extra, 1);
+        progress.start(0, `Querying documentation: ${args.topic}`);
+        const { error, backend, sources, attempts, duplicates, ...result } =
+          await queryDocRouter({
+            args,
+            libraryId,
+            query: args.query,
+            topic: args.topic,
+            tokens: args.tokens,
+            requestOptions: {
+              signal: extra?.signal,
+              sessionId: extra?.sessionId,
+              ...reportBackendRequests(progress, 0, 'Query'),
+            },
+          });
+        progress.complete('Formatting the documentation');
+        const versionWarnings = getVersionWarnings(
+          args.library,
+          args.version,
+          getAnsweringBackends(backend, sources),
+        );
+
+        // Fit the documentation in what the rest of the response leaves
+        let { documentation, snippets } = result;
+        let truncated = false;
+        if (documentation) {
+          const overhead = estimateTokens(
+            generateSimpleResponse(args, ' ', error, backend, versionWarnings),
+          );
+          const fit = truncateToTokens(documentation, args.tokens - overhead);
+          documentation = fit.documentation;
+          snippets = keepRenderedSnippets(snippets, documentation);
+          truncated = fit.truncated;
+        }
+
+        response = generateSimpleResponse(
           args,
-          libraryId,
-          topic: args.topic,
-          tokens: args.tokens,
-        });
-        hasDocumentation =
-          documentation !== null && documentation.trim() !== '';
-        response = generateSimpleResponse(args, documentation, error);
+          documentation,
+          error,
+          backend,
+          versionWarnings,
+        );
+        structuredContent = {
+          ...output,
+          hasDocumentation:
+            documentation !== null && documentation.trim() !== '',
+          backend,
+          sources,
+          backends: backend ? [backend] : [],
+          attempts,
+          snippets: snippets.map(toSnippetOutput),
+          versionWarnings,
+          tokens: estimateTokens(response),
+          truncated,
+          error,
+        };
+        routing = {
+          backend,
+          sources,
+          attempts,
+          snippets,
+          duplicatesRemoved: duplicates,
+        };
       }
 
       const processingTime = Date.now() - startTime;
       return {
         content: [{ type: 'text', text: response }],
+        structuredContent,
         _meta: {
-          topic: args.topic.split(',').map((t: string) => t.trim()),
+          topic: structuredContent.topics,
           intent: args.intent,
           library: args.library,
-          hasDocumentation,
+          libraries,
+          version: structuredContent.version,
+          versionWarnings: structuredContent.versionWarnings,
+          libraryId,
+          hasDocumentation: structuredContent.hasDocumentation,
+          channel: args.channel,
+          tokens: structuredContent.tokens,
+          truncated: structuredContent.truncated,
+          ...routing,
           processingTime,
         },
       };
     } catch (error) {
-      logger.error('Failed to execute query tool:', error);
       const processingTime = Date.now() - startTime;
+      if (error instanceof BackendBusyError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `⏳ ${error.backend} is busy: too many documentation requests are in progress. Retry after ${error.retryAfter}s, or use another \`channel\`.`,
+            },
+          ],
+          isError: true,
+          _meta: {
+            topic: args.topic.split(',').map((t) => t.trim()),
+            intent: args.intent,
+            library: args.library,
+            hasDocumentation: false,
+            processingTime,
+            error: `${error.backend} ${error.message}`,
+            busy: { backend: error.backend, retryAfter: error.retryAfter },
+          },
+        };
+      }
+      logger.error('Failed to execute query tool:', error);
 
       return {
         content: [
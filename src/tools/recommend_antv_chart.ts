@@ -0,0 +1,160 @@
+/**
+ * AntV Chart Recommendation Tool - Recommends charts from a data sample
+ */
+import { z } from 'zod';
+import type { AntVLibrary } from '../types';
+import { logger, recommendCharts } from '../utils';
+import type { ChartRecommendation } from '../utils/recommend';
+import { getLibraryConfig, ANTV_LIBRARY_META } from '../constant';
+
+const RecommendAntVChartInputSchema = z.object({
+  data: z
+    .string()
+    .min(1)
+    .describe(
+      'Data sample, as CSV with a header row or as JSON: an array of records, a `{ nodes, edges }` graph or GeoJSON',
+    ),
+  goal: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Analysis goal (optional), e.g. "sales trend by month" or "share of each category"',
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .default(5)
+    .describe('Maximum number of recommended charts'),
+});
+
+const RecommendAntVChartOutputSchema = z.object({
+  records: z.number().int().describe('Records of the sample'),
+  fields: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.enum(['temporal', 'nominal', 'quantitative', 'geo']),
+        distinct: z.number().int().describe('Distinct values in the sample'),
+        missing: z.number().int().describe('Empty values in the sample'),
+      }),
+    )
+    .describe('Fields of the data and their inferred types'),
+  goal: z
+    .enum([
+      'trend',
+      'comparison',
+      'composition',
+      'distribution',
+      'correlation',
+      'relationship',
+      'geo',
+      'detail',
+    ])
+    .optional()
+    .describe('Classified analysis goal'),
+  candidates: z
+    .array(
+      z.object({
+        chart: z.string().describe('Chart id, e.g. `line` or `point-map`'),
+        name: z.string().describe('Chart name'),
+        library: z.enum(
+          Object.keys(ANTV_LIBRARY_META) as [AntVLibrary, ...AntVLibrary[]],
+        ),
+        score: z.number().describe('Fitness from 0 to 1'),
+        reason: z.string(),
+        spec: z
+          .record(z.string(), z.any())
+          .describe('Starting configuration, without the data'),
+        code: z.string().describe('Starting code rendering the data'),
+      }),
+    )
+    .describe('Recommended charts, best first'),
+});
+
+type RecommendAntVChartArgs = z.infer<typeof RecommendAntVChartInputSchema>;
+
+function generateRecommendationReport(
+  recommendation: ChartRecommendation,
+): string {
+  const { records, fields, goal, candidates } = recommendation;
+  let response = `# AntV Chart Recommendation\n\n`;
+  response += `**Data**: ${records} record(s)${goal ? ` · **Goal**: ${goal}` : ''}\n\n`;
+  response += `| Field | Type | Distinct | Missing |\n| --- | --- | --- | --- |\n`;
+  for (const field of fields) {
+    response += `| \`${field.name}\` | ${field.type} | ${field.distinct} | ${field.missing} |\n`;
+  }
+  response += `\n`;
+
+  if (candidates.length === 0) {
+    return (
+      response +
+      `⚠️ **No chart recommended**: the data has no field combination a chart fits.\n`
+    );
+  }
+
+  candidates.forEach((candidate, i) => {
+    response += `## ${i + 1}. ${candidate.name} (${getLibraryConfig(candidate.library).name}) - ${candidate.score}\n\n`;
+    response += `${candidate.reason}.\n\n`;
+    response += `\`\`\`ts\n${candidate.code}\n\`\`\`\n\n`;
+  });
+
+  response += `**Next Step**: Query the documentation of the chosen chart with \`query_antv_document\` to refine its spec.\n`;
+  return response;
+}
+
+export const RecommendAntVChartTool = {
+  name: 'recommend_antv_chart',
+  description: `AntV Chart Recommendation Tool - Recommends charts for a JSON or CSV data sample and an optional analysis goal. Infers the field types (temporal, nominal, quantitative, geo), ranks the suitable charts and returns a starting spec and code for each: G2 charts, L7 maps for geo data, G6 graphs for relational data, S2 tables for tabular data.
+
+When to use this tool:
+- **Chart selection**: When the user has data but no chart type in mind, e.g. "visualize this CSV".
+- **Library selection**: To tell whether data fits a chart, a map, a graph or a table.`,
+  inputSchema: RecommendAntVChartInputSchema,
+  outputSchema: RecommendAntVChartOutputSchema,
+  async run(args: RecommendAntVChartArgs) {
+    const startTime = Date.now();
+    try {
+      const recommendation = recommendCharts(args);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: generateRecommendationReport(recommendation),
+          },
+        ],
+        structuredContent: recommendation,
+        _meta: {
+          records: recommendation.records,
+          goal: recommendation.goal,
+          candidates: recommendation.candidates.map((c) => c.chart),
+          processingTime,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to recommend AntV charts:', error);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to recommend AntV charts: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
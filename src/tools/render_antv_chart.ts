@@ -0,0 +1,147 @@
+/**
+ * AntV Chart Rendering Tool - Renders G2 specs headlessly to verify them
+ */
+import { z } from 'zod';
+import { logger, renderG2Spec } from '../utils';
+
+const RenderAntVChartInputSchema = z.object({
+  spec: z
+    .record(z.string(), z.any())
+    .describe(
+      "G2 5.x spec, as passed to `chart.options()`, with inline data only: data to fetch, e.g. `{ type: 'fetch' }`, is rejected",
+    ),
+  width: z
+    .number()
+    .int()
+    .min(50)
+    .max(2000)
+    .optional()
+    .default(640)
+    .describe('Width of the chart in pixels'),
+  height: z
+    .number()
+    .int()
+    .min(50)
+    .max(2000)
+    .optional()
+    .default(480)
+    .describe('Height of the chart in pixels'),
+  format: z
+    .enum(['svg', 'png'])
+    .optional()
+    .default('svg')
+    .describe(
+      'Output format, `svg` returns the SVG markup, `png` an image for models that read images',
+    ),
+});
+
+const RenderAntVChartOutputSchema = z.object({
+  rendered: z.boolean().describe('Whether the chart rendered without errors'),
+  format: z.enum(['svg', 'png']),
+  width: z.number().int(),
+  height: z.number().int(),
+  svg: z
+    .string()
+    .optional()
+    .describe('SVG markup of the chart, for the `svg` format'),
+  errors: z.array(z.string()).describe('Errors thrown during the rendering'),
+  warnings: z
+    .array(z.string())
+    .describe(
+      'Likely mistakes rendering without errors, e.g. encoded fields missing from the data',
+    ),
+});
+
+type RenderAntVChartArgs = z.infer<typeof RenderAntVChartInputSchema>;
+
+function generateRenderReport(
+  args: RenderAntVChartArgs,
+  errors: string[],
+  warnings: string[],
+): string {
+  let response = `# G2 Chart Rendering\n\n`;
+  response +=
+    errors.length === 0
+      ? `✅ **Rendered** a ${args.width}×${args.height} chart as ${args.format.toUpperCase()}.\n\n`
+      : `❌ **Rendering failed**:\n${errors.map((e) => `- ${e}`).join('\n')}\n\n`;
+  if (warnings.length > 0) {
+    response += `⚠️ **Warnings**:\n${warnings.map((w) => `- ${w}`).join('\n')}\n\n`;
+  }
+
+  if (errors.length > 0) {
+    response += `**Next Step**: Fix the spec, query the documentation of the failing API with \`query_antv_document\` if needed, then render it again.\n`;
+  } else if (warnings.length > 0) {
+    response += `**Next Step**: Check the warnings, then render the spec again.\n`;
+  }
+  return response;
+}
+
+export const RenderAntVChartTool = {
+  name: 'render_antv_chart',
+  description: `AntV Chart Rendering Tool - Renders a G2 5.x spec with inline data headlessly and returns the SVG, or a PNG image, with the errors thrown during the rendering, e.g. an unknown mark, transform or missing channel, and warnings for encoded fields missing from the data.
+
+When to use this tool:
+- **Verification**: To check a generated G2 spec renders, and looks as intended, before delivering it.
+- **Debugging**: To reproduce the runtime error of a spec.`,
+  inputSchema: RenderAntVChartInputSchema,
+  outputSchema: RenderAntVChartOutputSchema,
+  async run(args: RenderAntVChartArgs) {
+    const startTime = Date.now();
+    try {
+      const { svg, png, errors, warnings } = await renderG2Spec(args);
+      const report = generateRenderReport(args, errors, warnings);
+      const content: Array<
+        | { type: 'text'; text: string }
+        | { type: 'image'; data: string; mimeType: string }
+      > = [{ type: 'text', text: report }];
+      if (png) {
+        content.push({
+          type: 'image',
+          data: png.toString('base64'),
+          mimeType: 'image/png',
+        });
+      } else if (svg) {
+        content.push({ type: 'text', text: svg });
+      }
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content,
+        structuredContent: {
+          rendered: errors.length === 0,
+          format: args.format,
+          width: args.width,
+          height: args.height,
+          ...(args.format === 'svg' && svg ? { svg } : {}),
+          errors,
+          warnings,
+        },
+        _meta: {
+          format: args.format,
+          errors: errors.length,
+          warnings: warnings.length,
+          processingTime,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to render AntV chart:', error);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to render AntV chart: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
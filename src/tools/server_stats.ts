@@ -0,0 +1,223 @@
+/**
+ * AntV Server Stats Tool - Reports the usage metrics of the server
+ */
+import { z } from 'zod';
+import { logger, metrics, getPrometheusMetrics } from '../utils';
+import type { Histogram } from '../utils/metrics';
+
+const ServerStatsInputSchema = z.object({
+  format: z
+    .enum(['summary', 'prometheus'])
+    .optional()
+    .default('summary')
+    .describe(
+      'Format of the text content, a markdown summary or the Prometheus text exposition format',
+    ),
+});
+
+const LatencySchema = {
+  avgMs: z.number().nullable().describe('Average duration in milliseconds'),
+  p95Ms: z
+    .number()
+    .nullable()
+    .describe('Estimated 95th percentile duration in milliseconds'),
+};
+
+const ServerStatsOutputSchema = z.object({
+  uptime: z.number().describe('Seconds since the server started'),
+  tools: z
+    .array(
+      z.object({
+        tool: z.string(),
+        calls: z.number().int(),
+        errors: z.number().int(),
+        ...LatencySchema,
+      }),
+    )
+    .describe('Tool calls, most called first'),
+  libraries: z
+    .array(z.object({ library: z.string(), requests: z.number().int() }))
+    .describe('Tool calls by requested AntV library, most requested first'),
+  backends: z
+    .array(
+      z.object({
+        backend: z.string(),
+        requests: z.number().int(),
+        success: z.number().int(),
+        empty: z.number().int().describe('Requests returning nothing'),
+        errors: z.number().int(),
+        ...LatencySchema,
+      }),
+    )
+    .describe('Documentation backend requests, retries included'),
+  cache: z.object({
+    hits: z.number().int(),
+    stale: z.number().int().describe('Hits on expired entries, revalidated'),
+    misses: z.number().int(),
+    hitRate: z.number().nullable().describe('Share of lookups hitting'),
+  }),
+});
+
+type ServerStatsArgs = z.infer<typeof ServerStatsInputSchema>;
+type ServerStatsOutput = z.infer<typeof ServerStatsOutputSchema>;
+
+function getLatency(histogram: Histogram, labels: Record<string, string>) {
+  const series = histogram.get(labels);
+  const p95 = histogram.quantile(labels, 0.95);
+  return {
+    avgMs: series?.count
+      ? Math.round((series.sum / series.count) * 1000)
+      : null,
+    p95Ms: p95 === null ? null : Math.round(p95 * 1000),
+  };
+}
+
+function sumBy(
+  values: Array<{ labels: Record<string, string>; value: number }>,
+  label: string,
+): Map<string, number> {
+  const sums = new Map<string, number>();
+  for (const { labels, value } of values) {
+    sums.set(labels[label], (sums.get(labels[label]) || 0) + value);
+  }
+  return sums;
+}
+
+function getServerStats(): ServerStatsOutput {
+  const toolCalls = metrics.toolCalls.values();
+  const tools = Array.from(sumBy(toolCalls, 'tool'))
+    .map(([tool, calls]) => ({
+      tool,
+      calls,
+      errors: metrics.toolCalls.get({ tool, status: 'error' }),
+      ...getLatency(metrics.toolDuration, { tool }),
+    }))
+    .sort((a, b) => b.calls - a.calls);
+
+  const libraries = Array.from(
+    sumBy(metrics.libraryRequests.values(), 'library'),
+  )
+    .map(([library, requests]) => ({ library, requests }))
+    .sort((a, b) => b.requests - a.requests);
+
+  const backendRequests = metrics.backendRequests.values();
+  const backends = Array.from(sumBy(backendRequests, 'backend')).map(
+    ([backend, requests]) => ({
+      backend,
+      requests,
+      success: metrics.backendRequests.get({ backend, result: 'success' }),
+      empty: metrics.backendRequests.get({ backend, result: 'empty' }),
+      errors: metrics.backendRequests.get({ backend, result: 'error' }),
+      ...getLatency(metrics.backendDuration, { backend }),
+    }),
+  );
+
+  const hits = metrics.cacheLookups.get({ result: 'hit' });
+  const stale = metrics.cacheLookups.get({ result: 'stale' });
+  const misses = metrics.cacheLookups.get({ result: 'miss' });
+  const lookups = hits + stale + misses;
+
+  return {
+    uptime: Math.round((Date.now() - metrics.startedAt) / 1000),
+    tools,
+    libraries,
+    backends,
+    cache: {
+      hits,
+      stale,
+      misses,
+      hitRate:
+        lookups > 0 ? Math.round(((hits + stale) / lookups) * 100) / 100 : null,
+    },
+  };
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '-' : `${ms}ms`;
+}
+
+function generateStatsSummary(stats: ServerStatsOutput): string {
+  let response = `# AntV MCP Server Stats\n\n**Uptime**: ${stats.uptime}s\n\n`;
+
+  response += `## Tools\n\n`;
+  if (stats.tools.length === 0) response += `No tool calls yet.\n\n`;
+  else {
+    response += `| Tool | Calls | Errors | Avg | P95 |\n| --- | --- | --- | --- | --- |\n`;
+    for (const t of stats.tools) {
+      response += `| \`${t.tool}\` | ${t.calls} | ${t.errors} | ${formatMs(t.avgMs)} | ${formatMs(t.p95Ms)} |\n`;
+    }
+    response += `\n`;
+  }
+
+  if (stats.libraries.length > 0) {
+    response += `## Libraries\n\n${stats.libraries
+      .map((l) => `- ${l.library}: ${l.requests}`)
+      .join('\n')}\n\n`;
+  }
+
+  response += `## Documentation Backends\n\n`;
+  if (stats.backends.length === 0) response += `No backend requests yet.\n\n`;
+  else {
+    response += `| Backend | Requests | Success | Empty | Errors | Avg | P95 |\n| --- | --- | --- | --- | --- | --- | --- |\n`;
+    for (const b of stats.backends) {
+      response += `| ${b.backend} | ${b.requests} | ${b.success} | ${b.empty} | ${b.errors} | ${formatMs(b.avgMs)} | ${formatMs(b.p95Ms)} |\n`;
+    }
+    response += `\n`;
+  }
+
+  const { hits, stale, misses, hitRate } = stats.cache;
+  response += `## Cache\n\n${hits} hit(s), ${stale} stale, ${misses} miss(es)`;
+  response +=
+    hitRate === null ? `\n` : `, ${Math.round(hitRate * 100)}% hit rate\n`;
+  return response;
+}
+
+export const ServerStatsTool = {
+  name: 'server_stats',
+  description: `AntV Server Stats Tool - Reports the usage metrics of the server since it started: calls, errors and latency of each tool, the requested AntV libraries, requests, empty answers, errors and latency of each documentation backend, and cache hits.
+
+When to use this tool:
+- **Monitoring**: When the user asks how the server is used or performs.
+- **Troubleshooting**: To tell whether a documentation backend is failing or slow.`,
+  inputSchema: ServerStatsInputSchema,
+  outputSchema: ServerStatsOutputSchema,
+  async run(args: ServerStatsArgs) {
+    const startTime = Date.now();
+    try {
+      const stats = getServerStats();
+      const text =
+        args.format === 'prometheus'
+          ? getPrometheusMetrics()
+          : generateStatsSummary(stats);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [{ type: 'text', text }],
+        structuredContent: stats,
+        _meta: {
+          format: args.format,
+          processingTime,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get server stats:', error);
+      const processingTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to get server stats: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          },
+        ],
+        isError: true,
+        _meta: {
+          processingTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  },
+};
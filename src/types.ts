@@ -1,6 +1,11 @@
 /**
  * AntV MCP Server Type Definitions
  */
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * AntV Library Types.
@@ -8,15 +13,7 @@
  * These libraries are used to fetch documentation and provide context for the AntV Assistant tool.
  */
 export type AntVLibrary =
-  | 'g2'
-  | 'g6'
-  | 'l7'
-  | 'x6'
-  | 'f2'
-  | 's2'
-  | 'g'
-  | 'ava'
-  | 'adc';
+  'g2' | 'g6' | 'l7' | 'x6' | 'f2' | 's2' | 'g' | 'ava' | 'adc';
 
 export type AntVConfig = {
   id: AntVLibrary;
@@ -25,3 +22,21 @@ export type AntVConfig = {
   keywords: string;
   codeStyle: string;
 };
+
+/**
+ * Documentation Backend Types.
+ * Defines the backends used to retrieve AntV documentation.
+ */
+export type DocBackend = 'Context7' | 'DeepWiki' | 'Local';
+
+/**
+ * Documentation Channel Types.
+ * A single backend, or `Hybrid` to query Context7 and DeepWiki concurrently.
+ */
+export type DocChannel = DocBackend | 'Hybrid';
+
+/**
+ * Extra context passed by the MCP server to tool handlers, used to send
+ * requests and notifications to the client.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
@@ -0,0 +1,253 @@
+/**
+ * Documentation cache, a memory LRU backed by an on-disk store, used to avoid
+ * repeated Context7 and DeepWiki lookups for the same query.
+ */
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { getEnvCacheOptions } from './env';
+import { CancelledError } from './resilience';
+import { logger } from './logger';
+import { metrics } from './metrics';
+
+export type DocumentationResult = {
+  documentation: string | null;
+  error?: string;
+};
+
+export type DocumentCacheKey = {
+  channel: string;
+  libraryId: string;
+  topic: string;
+  tokens?: number;
+  /** Requested major version, part of the key of DeepWiki questions. */
+  version?: string;
+};
+
+export type DocumentCacheOptions = {
+  /** Disable the cache entirely. */
+  enabled: boolean;
+  /** Directory of the disk store, `null` to keep the cache in memory only. */
+  directory: string | null;
+  /** Time to live of an entry, in milliseconds. */
+  ttl: number;
+  /** Maximum number of entries kept in memory. */
+  maxEntries: number;
+  /** Maximum total size of the disk store, in bytes. */
+  maxSize: number;
+  /** Serve expired entries while refreshing them in the background. */
+  staleWhileRevalidate: boolean;
+};
+
+type CacheEntry = {
+  key: string;
+  value: string;
+  createdAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Normalize a topic so that `Tooltip, bar chart` and `bar chart,tooltip`
+ * share the same cache entry.
+ */
+export function normalizeTopic(topic: string): string {
+  const terms = topic
+    .split(',')
+    .map((t) => t.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(Boolean);
+  return Array.from(new Set(terms)).sort().join(',');
+}
+
+export class DocumentCache {
+  private readonly options: DocumentCacheOptions;
+  private readonly memory = new Map<string, CacheEntry>();
+  private readonly revalidating = new Map<
+    string,
+    Promise<DocumentationResult>
+  >();
+
+  constructor(options: DocumentCacheOptions) {
+    this.options = options;
+  }
+
+  static getKey({
+    channel,
+    libraryId,
+    topic,
+    tokens,
+    version,
+  }: DocumentCacheKey) {
+    const library = version ? `${libraryId}@${version}` : libraryId;
+    return [channel, library, normalizeTopic(topic), tokens ?? ''].join('|');
+  }
+
+  /**
+   * Get an entry from memory, then from disk. Expired entries are only
+   * returned (flagged as stale) in stale-while-revalidate mode.
+   */
+  async get(key: string): Promise<{ value: string; stale: boolean } | null> {
+    const entry = this.memory.get(key) || (await this.readFromDisk(key));
+    if (!entry) return null;
+
+    const stale = entry.expiresAt <= Date.now();
+    if (stale && !this.options.staleWhileRevalidate) {
+      this.memory.delete(key);
+      return null;
+    }
+
+    this.remember(entry);
+    return { value: entry.value, stale };
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const now = Date.now();
+    const entry = {
+      key,
+      value,
+      createdAt: now,
+      expiresAt: now + this.options.ttl,
+    };
+    this.remember(entry);
+    await this.writeToDisk(entry);
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    if (!this.options.directory) return;
+    await fs.rm(this.options.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Return the cached documentation for the key, or call `fetcher` and cache
+   * its result. Only results with documentation are cached.
+   */
+  async wrap(
+    params: DocumentCacheKey,
+    fetcher: () => Promise<DocumentationResult>,
+  ): Promise<DocumentationResult> {
+    if (!this.options.enabled) return fetcher();
+
+    const key = DocumentCache.getKey(params);
+    const cached = await this.get(key);
+    metrics.cacheLookups.inc({
+      result: cached ? (cached.stale ? 'stale' : 'hit') : 'miss',
+    });
+    if (cached) {
+      logger.info(`Documentation cache hit${cached.stale ? ' (stale)' : ''}`);
+      if (cached.stale) {
+        this.revalidate(key, fetcher).catch((error) => {
+          logger.error('Failed to revalidate documentation cache:', error);
+        });
+      }
+      return { documentation: cached.value };
+    }
+
+    return this.revalidate(key, fetcher);
+  }
+
+  /**
+   * Fetch and store a fresh value, sharing in-flight requests for the same key.
+   */
+  private revalidate(
+    key: string,
+    fetcher: () => Promise<DocumentationResult>,
+  ): Promise<DocumentationResult> {
+    const pending = this.revalidating.get(key);
+    if (pending) {
+      // Fetch again when the request sharing its fetch was cancelled
+      return pending.catch((error) =>
+        error instanceof CancelledError
+          ? this.revalidate(key, fetcher)
+          : Promise.reject(error),
+      );
+    }
+
+    const promise = (async () => {
+      try {
+        const result = await fetcher();
+        if (result.documentation) {
+          await this.set(key, result.documentation);
+        }
+        return result;
+      } finally {
+        this.revalidating.delete(key);
+      }
+    })();
+    this.revalidating.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Insert the entry as the most recently used one, evicting the least
+   * recently used entries beyond `maxEntries`.
+   */
+  private remember(entry: CacheEntry): void {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+    while (this.memory.size > this.options.maxEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private getFilePath(key: string): string | null {
+    if (!this.options.directory) return null;
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.options.directory, `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | null> {
+    const filePath = this.getFilePath(key);
+    if (!filePath) return null;
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return entry.key === key ? (entry as CacheEntry) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    const filePath = this.getFilePath(entry.key);
+    if (!filePath || !this.options.directory) return;
+    try {
+      await fs.mkdir(this.options.directory, { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(entry), 'utf-8');
+      await this.pruneDisk();
+    } catch (error) {
+      logger.warn('Failed to write documentation cache to disk:', error);
+    }
+  }
+
+  /**
+   * Remove the oldest files until the disk store fits in `maxSize`.
+   */
+  private async pruneDisk(): Promise<void> {
+    const directory = this.options.directory;
+    if (!directory) return;
+
+    const files = await Promise.all(
+      (await fs.readdir(directory))
+        .filter((name) => name.endsWith('.json'))
+        .map(async (name) => {
+          const filePath = path.join(directory, name);
+          const { size, mtimeMs } = await fs.stat(filePath);
+          return { filePath, size, mtimeMs };
+        }),
+    );
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files) {
+      if (total <= this.options.maxSize) break;
+      await fs.rm(file.filePath, { force: true });
+      total -= file.size;
+    }
+  }
+}
+
+/**
+ * Documentation cache instance, configured by the `ANTV_CACHE_*` environment variables.
+ */
+export const documentCache = new DocumentCache(getEnvCacheOptions());
@@ -2,10 +2,13 @@
  * Context7 service, used to get the latest documentation context for AntV.
  */
 import type { AntVLibrary } from '../types';
+import { getLibraryVersions } from '../constant';
+import { getEnvBackendTimeouts } from './env';
 import { logger } from './logger';
+import { CancelledError, createTimeoutSignal } from './resilience';
+import { normalizeVersion } from './version';
 
 const CONTEXT7_BASE_URL = 'https://context7.com/api';
-const CONTEXT7_TIMEOUT = 30000;
 
 function getContext7Url(
   libraryId: string,
@@ -26,11 +29,15 @@ function getContext7Url(
   return url.toString();
 }
 
-async function fetchContext7Library(url: string): Promise<string | null> {
+async function fetchContext7Library(
+  url: string,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  const timeout = createTimeoutSignal(getEnvBackendTimeouts().Context7, signal);
   try {
     const response = await fetch(url, {
       method: 'GET',
-      signal: AbortSignal.timeout(CONTEXT7_TIMEOUT),
+      signal: timeout.signal,
       headers: { 'X-Context7-Source': 'mcp-server' },
     });
 
@@ -51,32 +58,39 @@ async function fetchContext7Library(url: string): Promise<string | null> {
 
     return text;
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Timeout error');
-    }
+    if (signal?.aborted) throw new CancelledError();
+    if (timeout.timedOut()) throw new Error('Timeout error');
     throw error;
+  } finally {
+    timeout.clear();
   }
 }
 
 /**
- * Get the Context7 library ID corresponding to the AntV organization.
+ * Get the Context7 library ID corresponding to the AntV organization, the
+ * versioned ID when the requested major version has its own documentation.
  */
-export function getLibraryId(library: AntVLibrary): string {
+export function getLibraryId(library: AntVLibrary, version?: string): string {
+  const major = normalizeVersion(version);
+  const versioned = major && getLibraryVersions(library)[major];
+  if (versioned) return versioned.context7Id;
   if (library === 'adc') return '/ant-design/ant-design-charts';
   return `/antvis/${library}`;
 }
 
 /**
  * Get the documentation context associated with the specified library and topic.
+ * Throws a `CancelledError` when the signal aborts.
  */
 export async function fetchLibraryDocumentation(
   libraryId: string,
   topic: string,
   tokens?: number,
+  signal?: AbortSignal,
 ): Promise<{ documentation: string | null; error?: string }> {
   try {
     const url = getContext7Url(libraryId, topic, tokens);
-    const response = await fetchContext7Library(url);
+    const response = await fetchContext7Library(url, signal);
 
     if (response) {
       logger.info(
@@ -87,6 +101,7 @@ export async function fetchLibraryDocumentation(
 
     return { documentation: null };
   } catch (error) {
+    if (error instanceof CancelledError) throw error;
     logger.error('Failed to fetch documentation:', error);
     return {
       documentation: null,
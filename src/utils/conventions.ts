@@ -0,0 +1,543 @@
+/**
+ * Convention checker, parses JS/TS/JSX code with the TypeScript compiler and
+ * runs the rules expressing the `codeStyle` conventions of each library.
+ */
+import ts from 'typescript';
+import type { AntVLibrary } from '../types';
+import { ANTV_PACKAGES } from './workspace';
+import { getLatestVersion, normalizeVersion } from './version';
+
+export type CodeLanguage = 'js' | 'jsx' | 'ts' | 'tsx';
+
+export type ConventionViolation = {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  /** Suggested fix, none for syntax errors. */
+  fix?: string;
+};
+
+type RuleContext = {
+  sourceFile: ts.SourceFile;
+  imports: Array<{ module: string; node: ts.Node }>;
+  report: (
+    node: ts.Node,
+    violation: Omit<ConventionViolation, 'rule' | 'line' | 'column'>,
+  ) => void;
+};
+
+type ConventionRule = {
+  id: string;
+  library: AntVLibrary;
+  /** Major versions the rule applies to, all when not set. */
+  versions?: string[];
+  check: (context: RuleContext) => void;
+};
+
+// G2 5.x marks the chain API adds to a chart, view-level calls such as
+// `chart.data()` or `chart.legend()` are left alone
+const G2_MARKS = new Set([
+  'interval',
+  'line',
+  'point',
+  'area',
+  'cell',
+  'rect',
+  'text',
+  'image',
+  'link',
+  'polygon',
+  'box',
+  'boxplot',
+  'vector',
+  'lineX',
+  'lineY',
+  'range',
+  'rangeX',
+  'rangeY',
+  'connector',
+  'density',
+  'heatmap',
+  'shape',
+  'path',
+  'wordCloud',
+  'gauge',
+  'liquid',
+  'sankey',
+  'treemap',
+  'pack',
+  'forceGraph',
+  'tree',
+  'chord',
+  'partition',
+]);
+
+// G2 5.x APIs that do not exist in 4.x
+const G2_V5_APIS = new Set(['options', 'encode', 'transform']);
+
+export function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, (child) => walk(child, visit));
+}
+
+function getScriptKind(language: CodeLanguage): ts.ScriptKind {
+  return {
+    js: ts.ScriptKind.JS,
+    jsx: ts.ScriptKind.JSX,
+    ts: ts.ScriptKind.TS,
+    tsx: ts.ScriptKind.TSX,
+  }[language];
+}
+
+/**
+ * Parse code as a snippet file of a language, with parent pointers set.
+ */
+export function parseCode(code: string, language: CodeLanguage): ts.SourceFile {
+  return ts.createSourceFile(
+    `snippet.${language}`,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(language),
+  );
+}
+
+/**
+ * Collect the modules imported by ES imports, `require()` and `import()`.
+ */
+function getImports(
+  sourceFile: ts.SourceFile,
+): Array<{ module: string; node: ts.Node }> {
+  const imports: Array<{ module: string; node: ts.Node }> = [];
+  walk(sourceFile, (node) => {
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      imports.push({ module: node.moduleSpecifier.text, node });
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) &&
+          node.expression.text === 'require')) &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteral(node.arguments[0])
+    ) {
+      imports.push({ module: node.arguments[0].text, node });
+    }
+  });
+  return imports;
+}
+
+function isInsideFunction(node: ts.Node): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (ts.isFunctionLike(parent)) return true;
+  }
+  return false;
+}
+
+function getTopLevelStatement(node: ts.Node): ts.Node {
+  let current = node;
+  while (current.parent && !ts.isSourceFile(current.parent)) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Get the identifier a call chain starts from, e.g. `chart` for
+ * `chart.interval().encode('x', 'a')`.
+ */
+export function getChainRoot(expression: ts.Expression): ts.Identifier | null {
+  let current = expression;
+  while (
+    ts.isCallExpression(current) ||
+    ts.isPropertyAccessExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) ? current : null;
+}
+
+/**
+ * Find the variables assigned an instance of a class, e.g. `new Chart()`.
+ */
+export function getInstances(
+  sourceFile: ts.SourceFile,
+  className: (name: string) => boolean,
+): Set<string> {
+  const names = new Set<string>();
+  walk(sourceFile, (node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      ts.isNewExpression(node.initializer) &&
+      className(node.initializer.expression.getText(sourceFile))
+    ) {
+      names.add(node.name.text);
+    }
+  });
+  return names;
+}
+
+/**
+ * Get the property of an object literal passed to `new <className>()`.
+ */
+function getConstructorOptions(
+  sourceFile: ts.SourceFile,
+  className: (name: string) => boolean,
+  property: string,
+): ts.PropertyAssignment[] {
+  const found: ts.PropertyAssignment[] = [];
+  walk(sourceFile, (node) => {
+    if (
+      !ts.isNewExpression(node) ||
+      !className(node.expression.getText(sourceFile))
+    ) {
+      return;
+    }
+    const options = node.arguments?.[0];
+    if (!options || !ts.isObjectLiteralExpression(options)) return;
+    for (const p of options.properties) {
+      if (
+        ts.isPropertyAssignment(p) &&
+        p.name.getText(sourceFile).replace(/['"]/g, '') === property
+      ) {
+        found.push(p);
+      }
+    }
+  });
+  return found;
+}
+
+function isGraph(name: string): boolean {
+  return name === 'Graph' || name.endsWith('.Graph');
+}
+
+const RULES: ConventionRule[] = [
+  {
+    id: 'f2/no-top-level-await',
+    library: 'f2',
+    check: ({ sourceFile, report }) => {
+      const statements = sourceFile.statements;
+      walk(sourceFile, (node) => {
+        if (!ts.isAwaitExpression(node) || isInsideFunction(node)) return;
+        const statement = getTopLevelStatement(node);
+        const awaited = node.expression.getText(sourceFile);
+        const isLast = statement === statements[statements.length - 1];
+        report(node, {
+          severity: 'error',
+          message: `The top-level scope does not support \`await\`: \`await ${awaited}\`.`,
+          fix: isLast
+            ? `Nothing runs after it, remove the \`await\` keyword: \`${awaited};\``
+            : `Wrap the \`await\` and the code after it in an async IIFE: \`(async () => { await ${awaited}; /* following code */ })();\``,
+        });
+      });
+    },
+  },
+  {
+    id: 'f2/react-canvas',
+    library: 'f2',
+    check: ({ sourceFile, imports, report }) => {
+      if (!imports.some((i) => i.module === 'react')) return;
+      for (const statement of sourceFile.statements) {
+        if (
+          !ts.isImportDeclaration(statement) ||
+          !ts.isStringLiteral(statement.moduleSpecifier) ||
+          statement.moduleSpecifier.text !== '@antv/f2'
+        ) {
+          continue;
+        }
+        const bindings = statement.importClause?.namedBindings;
+        const canvas =
+          bindings &&
+          ts.isNamedImports(bindings) &&
+          bindings.elements.find(
+            (e) => (e.propertyName || e.name).text === 'Canvas',
+          );
+        if (!canvas) continue;
+        report(canvas, {
+          severity: 'warning',
+          message:
+            'React code must render F2 with the `ReactCanvas` component, not `Canvas`.',
+          fix: "Import `ReactCanvas` from '@antv/f2-react' and use `<ReactCanvas>` instead of `<Canvas>`.",
+        });
+      }
+    },
+  },
+  {
+    id: 's2/no-s2-vue',
+    library: 's2',
+    check: ({ imports, report }) => {
+      for (const { module, node } of imports) {
+        if (module !== '@antv/s2-vue') continue;
+        report(node, {
+          severity: 'error',
+          message: '`@antv/s2-vue` is unmaintained and must not be used.',
+          fix: 'Wrap the core `@antv/s2` package in a Vue component: create the `PivotSheet` or `TableSheet` in `onMounted`, call `render()`, and `destroy()` it in `onBeforeUnmount`.',
+        });
+      }
+    },
+  },
+  {
+    id: 's2/react-dependencies',
+    library: 's2',
+    check: ({ imports, report }) => {
+      const s2React = imports.find((i) =>
+        ['@antv/s2-react', '@antv/s2-react-components'].includes(i.module),
+      );
+      if (!s2React) return;
+      const missing = ['react', 'react-dom/client'].filter(
+        (module) => !imports.some((i) => i.module === module),
+      );
+      if (missing.length === 0) return;
+      report(s2React.node, {
+        severity: 'warning',
+        message: `\`${s2React.module}\` is a React package, but ${missing.map((m) => `\`${m}\``).join(' and ')} ${missing.length > 1 ? 'are' : 'is'} not imported.`,
+        fix: "Import `React` from 'react' and render the app with `createRoot` from 'react-dom/client'.",
+      });
+    },
+  },
+  {
+    id: 'g2/prefer-options',
+    library: 'g2',
+    versions: ['5'],
+    check: ({ sourceFile, report }) => {
+      const charts = getInstances(sourceFile, (name) => name === 'Chart');
+      walk(sourceFile, (node) => {
+        if (
+          !ts.isExpressionStatement(node) ||
+          !ts.isCallExpression(node.expression)
+        ) {
+          return;
+        }
+        // The first call of the chain, e.g. `chart.interval()`
+        let call: ts.Expression = node.expression;
+        while (
+          ts.isCallExpression(call) &&
+          ts.isPropertyAccessExpression(call.expression) &&
+          ts.isCallExpression(call.expression.expression)
+        ) {
+          call = call.expression.expression;
+        }
+        if (
+          !ts.isCallExpression(call) ||
+          !ts.isPropertyAccessExpression(call.expression) ||
+          !ts.isIdentifier(call.expression.expression) ||
+          !charts.has(call.expression.expression.text)
+        ) {
+          return;
+        }
+        const mark = call.expression.name.text;
+        if (!G2_MARKS.has(mark)) return;
+        report(node, {
+          severity: 'warning',
+          message: `Prefer the \`options()\` method over the chain API \`${call.expression.getText(sourceFile)}()\`.`,
+          fix: `Configure the mark with \`${call.expression.expression.text}.options({ type: '${mark}', data, encode: { ... } })\`.`,
+        });
+      });
+    },
+  },
+  {
+    id: 'g2/no-v4-api',
+    library: 'g2',
+    versions: ['5'],
+    check: ({ sourceFile, report }) => {
+      const charts = getInstances(sourceFile, (name) => name === 'Chart');
+      walk(sourceFile, (node) => {
+        if (
+          !ts.isCallExpression(node) ||
+          !ts.isPropertyAccessExpression(node.expression) ||
+          node.expression.name.text !== 'position'
+        ) {
+          return;
+        }
+        const root = getChainRoot(node.expression.expression);
+        if (!root || !charts.has(root.text)) return;
+        report(node.expression.name, {
+          severity: 'error',
+          message: '`position()` is the G2 4.x API, it does not exist in 5.x.',
+          fix: "Map the fields with `encode('x', ...)` and `encode('y', ...)`, or `options({ encode: { x, y } })`.",
+        });
+      });
+    },
+  },
+  {
+    id: 'g2/no-v5-api',
+    library: 'g2',
+    versions: ['4'],
+    check: ({ sourceFile, report }) => {
+      const charts = getInstances(sourceFile, (name) => name === 'Chart');
+      walk(sourceFile, (node) => {
+        if (
+          !ts.isCallExpression(node) ||
+          !ts.isPropertyAccessExpression(node.expression) ||
+          !G2_V5_APIS.has(node.expression.name.text)
+        ) {
+          return;
+        }
+        const root = getChainRoot(node.expression.expression);
+        if (!root || !charts.has(root.text)) return;
+        report(node.expression.name, {
+          severity: 'error',
+          message: `\`${node.expression.name.text}()\` is a G2 5.x API, it does not exist in 4.x.`,
+          fix: "Use the 4.x chain API: `chart.data(data)`, then `chart.interval().position('x*y').color('type')`.",
+        });
+      });
+    },
+  },
+  {
+    id: 'g6/behaviors',
+    library: 'g6',
+    versions: ['5'],
+    check: ({ sourceFile, report }) => {
+      for (const modes of getConstructorOptions(sourceFile, isGraph, 'modes')) {
+        report(modes, {
+          severity: 'error',
+          message:
+            '`modes` is the G6 4.x API, G6 5.x configures interactions with `behaviors`.',
+          fix: "Use `behaviors: ['drag-canvas', 'zoom-canvas', 'drag-element']`.",
+        });
+      }
+    },
+  },
+  {
+    id: 'g6/modes',
+    library: 'g6',
+    versions: ['4'],
+    check: ({ sourceFile, report }) => {
+      for (const behaviors of getConstructorOptions(
+        sourceFile,
+        isGraph,
+        'behaviors',
+      )) {
+        report(behaviors, {
+          severity: 'error',
+          message:
+            '`behaviors` is the G6 5.x API, G6 4.x configures interactions with `modes`.',
+          fix: "Use `modes: { default: ['drag-canvas', 'zoom-canvas', 'drag-node'] }`.",
+        });
+      }
+    },
+  },
+  {
+    id: 'x6/connect-to-border',
+    library: 'x6',
+    check: ({ sourceFile, report }) => {
+      walk(sourceFile, (node) => {
+        if (
+          !ts.isPropertyAssignment(node) ||
+          node.name.getText(sourceFile).replace(/['"]/g, '') !==
+            'connectionPoint'
+        ) {
+          return;
+        }
+        // `'anchor'` or `{ name: 'anchor' }`
+        const value = node.initializer;
+        const name = ts.isObjectLiteralExpression(value)
+          ? value.properties
+              .filter(ts.isPropertyAssignment)
+              .find((p) => p.name.getText(sourceFile) === 'name')?.initializer
+          : value;
+        if (!name || !ts.isStringLiteralLike(name) || name.text !== 'anchor') {
+          return;
+        }
+        report(node, {
+          severity: 'warning',
+          message:
+            "Edges should connect to the node's border, the `anchor` connection point connects them to the anchor.",
+          fix: "Use `connectionPoint: 'boundary'`, or remove it to use the default.",
+        });
+      });
+    },
+  },
+];
+
+/**
+ * Detect the libraries of the AntV packages imported by code, including the
+ * packages named after a core package, e.g. `@antv/s2-vue`.
+ */
+export function detectImportedLibraries(
+  imports: Array<{ module: string }>,
+): AntVLibrary[] {
+  return (Object.keys(ANTV_PACKAGES) as AntVLibrary[]).filter((library) =>
+    imports.some(
+      ({ module }) =>
+        module.startsWith(`${ANTV_PACKAGES[library][0]}-`) ||
+        ANTV_PACKAGES[library].some(
+          (pkg) => module === pkg || module.startsWith(`${pkg}/`),
+        ),
+    ),
+  );
+}
+
+/**
+ * Check code against the conventions of a library, and of the other AntV
+ * libraries it imports. The version selects the rules of the library, it
+ * defaults to the latest documented version.
+ */
+export function checkConventions(params: {
+  code: string;
+  library?: AntVLibrary;
+  version?: string;
+  language?: CodeLanguage;
+}): { libraries: AntVLibrary[]; violations: ConventionViolation[] } {
+  const { code, language = 'tsx' } = params;
+  const sourceFile = parseCode(code, language);
+  const imports = getImports(sourceFile);
+  const libraries = Array.from(
+    new Set([
+      ...(params.library ? [params.library] : []),
+      ...detectImportedLibraries(imports),
+    ]),
+  );
+
+  const violations: ConventionViolation[] = [];
+  const position = (start: number) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+    return { line: line + 1, column: character + 1 };
+  };
+
+  // Syntax errors, the rules still run on the recovered tree
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: sourceFile.fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+  for (const diagnostic of diagnostics) {
+    violations.push({
+      rule: 'syntax',
+      severity: 'error',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      ...position(diagnostic.start ?? 0),
+    });
+  }
+
+  for (const library of libraries) {
+    // The version applies to the checked library, the others use their latest
+    const major =
+      (library === (params.library || libraries[0]) &&
+        normalizeVersion(params.version)) ||
+      getLatestVersion(library);
+    for (const rule of RULES) {
+      if (rule.library !== library) continue;
+      if (rule.versions && (!major || !rule.versions.includes(major))) continue;
+      rule.check({
+        sourceFile,
+        imports,
+        report: (node, violation) =>
+          violations.push({
+            rule: rule.id,
+            ...violation,
+            ...position(node.getStart(sourceFile)),
+          }),
+      });
+    }
+  }
+
+  violations.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { libraries, violations };
+}
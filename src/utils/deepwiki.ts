@@ -1,198 +1,413 @@
+/**
+ * Client of the DeepWiki MCP server, kept connected across questions and
+ * reconnected with backoff after a failure.
+ */
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import EventSource from 'eventsource';
+import { getEnvBackendTimeouts, getEnvDeepWikiOptions } from './env';
 import { logger } from './logger';
+import {
+  CancelledError,
+  retryWithBackoff,
+  throwIfCancelled,
+  type RetryOptions,
+} from './resilience';
 import { AntVLibrary } from '../types';
 
-// ---------------------------------------------------------
-// 1. 全局环境配置
-// ---------------------------------------------------------
-// Node.js 环境下 MCP SDK 依赖全局 EventSource
-// 作为底层包，为了保证运行时安全，仅在未定义时赋值
+// Older SDK versions expect a global EventSource in Node.js
 if (!global.EventSource) {
   // @ts-ignore
   global.EventSource = EventSource;
 }
 
-// ---------------------------------------------------------
-// 2. 单例状态管理
-// ---------------------------------------------------------
-let _client: Client | null = null;
-let _transport: SSEClientTransport | null = null;
-let _connectingPromise: Promise<Client> | null = null;
+export type DeepWikiTransportType = 'streamable-http' | 'sse';
+
+export type DeepWikiClientOptions = {
+  /** MCP endpoint, an endpoint ending with `/sse` is only tried over SSE. */
+  endpoint: string;
+  /** Timeout of a question and of the connection, in milliseconds. */
+  timeout: number;
+  /** Interval between pings of an open connection in milliseconds, 0 to disable. */
+  healthCheckInterval: number;
+  /** Backoff of the connection attempts. */
+  reconnect: RetryOptions;
+  /** Create the transport to the endpoint, tests inject a local fake server. */
+  createTransport: (type: DeepWikiTransportType, url: URL) => Transport;
+};
+
+export type DeepWikiHealth = {
+  healthy: boolean;
+  transport?: DeepWikiTransportType;
+  /** Round trip of the ping in milliseconds. */
+  latency?: number;
+  error?: string;
+};
+
+type Connection = {
+  client: Client;
+  transport: Transport;
+  type: DeepWikiTransportType;
+};
+
+type ConnectionAttempt = {
+  promise: Promise<Connection>;
+  controller: AbortController;
+  /** Callers waiting for the attempt. */
+  waiting: number;
+};
+
+const DEFAULT_RECONNECT: RetryOptions = {
+  retries: 2,
+  baseDelay: 1000,
+  maxDelay: 10000,
+};
+
+function createTransport(type: DeepWikiTransportType, url: URL): Transport {
+  return type === 'sse'
+    ? new SSEClientTransport(url)
+    : new StreamableHTTPClientTransport(url);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 /**
- * 获取或初始化 MCP 客户端 (单例模式)
- * 包含防止并发重复连接的锁机制
+ * Client of the DeepWiki MCP server. Connects over Streamable HTTP and falls
+ * back to the deprecated SSE transport, then keeps using the transport that
+ * worked. A failed question or health check closes the connection, the next
+ * question reconnects.
  */
-async function getMcpClient(): Promise<Client> {
-  // 如果客户端已存在且传输层看似正常，直接返回
-  // 注意：SSEClientTransport 目前没有直观的 isConnected 属性，
-  // 这里的检查主要是防止对象为空。更严谨的做法是监听 transport 的 close 事件来重置 _client。
-  if (_client && _transport) {
-    return _client;
+export class DeepWikiClient {
+  private readonly options: DeepWikiClientOptions;
+  private connection: Connection | null = null;
+  private connecting: ConnectionAttempt | null = null;
+  /** Transport that connected last, tried first on reconnection. */
+  private preferred: DeepWikiTransportType | null = null;
+  private healthTimer: NodeJS.Timeout | null = null;
+  /** Incremented on close, connections of an older generation are dropped. */
+  private generation = 0;
+
+  constructor(options: Partial<DeepWikiClientOptions> = {}) {
+    this.options = {
+      ...getEnvDeepWikiOptions(),
+      timeout: getEnvBackendTimeouts().DeepWiki,
+      reconnect: DEFAULT_RECONNECT,
+      createTransport,
+      ...options,
+    };
   }
 
-  // 如果正在连接中，等待同一个 Promise 结果，防止并发请求导致多次 new Client
-  if (_connectingPromise) {
-    return _connectingPromise;
+  get connected(): boolean {
+    return this.connection !== null;
   }
 
-  // 开始初始化连接
-  _connectingPromise = (async () => {
-    try {
-      logger.info('DeepWiki MCP: 初始化连接...');
+  get transportType(): DeepWikiTransportType | null {
+    return this.connection?.type ?? null;
+  }
 
-      const transport = new SSEClientTransport(
-        new URL('https://mcp.deepwiki.com/sse'),
-      );
+  /**
+   * Transports to try in order, with their URL: the DeepWiki SSE endpoint is
+   * `/sse` next to the Streamable HTTP `/mcp`.
+   */
+  private getCandidates(): [DeepWikiTransportType, URL][] {
+    const url = new URL(this.options.endpoint);
+    if (url.pathname.endsWith('/sse')) return [['sse', url]];
+
+    const sseUrl = new URL(url);
+    sseUrl.pathname = url.pathname.replace(/\/mcp$/, '/sse');
+    const candidates: [DeepWikiTransportType, URL][] = [
+      ['streamable-http', url],
+      ['sse', sseUrl],
+    ];
+    return this.preferred === 'sse' ? candidates.reverse() : candidates;
+  }
 
+  private async open(signal: AbortSignal): Promise<Connection> {
+    let lastError: unknown;
+    for (const [type, url] of this.getCandidates()) {
+      throwIfCancelled(signal);
       const client = new Client(
-        {
-          name: 'deepwiki-node-client',
-          version: '1.0.0',
-        },
+        { name: 'mcp-server-antv', version: '1.0.0' },
         { capabilities: {} },
       );
+      try {
+        const transport = this.options.createTransport(type, url);
+        await client.connect(transport, {
+          timeout: this.options.timeout,
+          signal,
+        });
+        return { client, transport, type };
+      } catch (error) {
+        lastError = error;
+        logger.debug(`DeepWiki ${type} connection failed:`, error);
+        await client.close().catch(() => undefined);
+      }
+    }
+    throwIfCancelled(signal);
+    throw lastError;
+  }
 
-      // 错误处理：监听传输层关闭或错误，以便下次重连
-      transport.onerror = (err) => {
-        logger.error('DeepWiki MCP Transport Error:', err);
-        resetClient(); // 出错时重置，下次调用会触发重连
-      };
+  /**
+   * Get the open connection, or connect with backoff. Concurrent callers
+   * share the same connection attempt, which is cancelled once every caller
+   * waiting for it has aborted: later callers start a new one.
+   */
+  private connect(signal?: AbortSignal): Promise<Connection> {
+    if (this.connection) return Promise.resolve(this.connection);
+    throwIfCancelled(signal);
 
-      transport.onclose = () => {
-        logger.info('DeepWiki MCP Connection Closed');
-        resetClient();
+    const attempt = (this.connecting ??= this.startConnecting());
+    attempt.waiting++;
+    return new Promise<Connection>((resolve, reject) => {
+      const onAbort = () => {
+        if (--attempt.waiting === 0) {
+          if (this.connecting === attempt) this.connecting = null;
+          attempt.controller.abort();
+        }
+        reject(new CancelledError());
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      attempt.promise.then(resolve, reject).finally(() => {
+        signal?.removeEventListener('abort', onAbort);
+      });
+    });
+  }
 
-      await client.connect(transport);
-
-      // 连接成功，赋值给模块级变量
-      _client = client;
-      _transport = transport;
-      logger.info('DeepWiki MCP: 连接成功');
+  private startConnecting(): ConnectionAttempt {
+    const controller = new AbortController();
+    const attempt: ConnectionAttempt = {
+      promise: this.connectWithBackoff(controller.signal).finally(() => {
+        if (this.connecting === attempt) this.connecting = null;
+      }),
+      controller,
+      waiting: 0,
+    };
+    return attempt;
+  }
 
-      return client;
-    } catch (error) {
-      logger.error('DeepWiki MCP: 连接失败', error);
-      resetClient();
+  private async connectWithBackoff(signal: AbortSignal): Promise<Connection> {
+    const generation = this.generation;
+    logger.info(`Connecting to DeepWiki at ${this.options.endpoint}`);
+    const { result, attempts } = await retryWithBackoff(
+      () =>
+        this.open(signal).then(
+          (connection) => ({ connection, error: null }),
+          (error: unknown) => ({ connection: null, error }),
+        ),
+      {
+        ...this.options.reconnect,
+        shouldRetry: ({ connection }) =>
+          !connection && !signal.aborted && generation === this.generation,
+        signal,
+      },
+    );
+    const { connection, error } = result;
+    if (!connection) {
+      throwIfCancelled(signal);
+      logger.error(`DeepWiki connection failed after ${attempts} attempts`);
       throw error;
-    } finally {
-      _connectingPromise = null; // 释放锁
     }
-  })();
+    // A newer attempt may be connecting, drop this connection
+    if (signal.aborted || generation !== this.generation) {
+      await connection.client.close().catch(() => undefined);
+      throwIfCancelled(signal);
+      throw new Error('DeepWiki client closed');
+    }
 
-  return _connectingPromise;
-}
+    connection.client.onclose = () => this.detach(connection);
+    connection.client.onerror = (error) => {
+      logger.debug('DeepWiki transport error:', error);
+    };
+    this.connection = connection;
+    this.preferred = connection.type;
+    this.startHealthChecks();
+    logger.info(`Connected to DeepWiki over ${connection.type}`);
+    return connection;
+  }
 
-/**
- * 重置客户端状态，强制下一次请求重新连接
- */
-function resetClient() {
-  _client = null;
-  _transport = null;
-  // 注意：不需要手动 close transport，因为通常是在出错或断开时调用此方法
-}
+  /**
+   * Forget a connection closed by either side.
+   */
+  private detach(connection: Connection): void {
+    if (this.connection !== connection) return;
+    this.connection = null;
+    this.stopHealthChecks();
+    logger.info('DeepWiki connection closed');
+  }
 
-// ---------------------------------------------------------
-// 3. 业务导出函数
-// ---------------------------------------------------------
+  /**
+   * Close a connection after a failure, the next question reconnects.
+   */
+  private async reset(connection: Connection): Promise<void> {
+    this.detach(connection);
+    await connection.client.close().catch(() => undefined);
+  }
 
-/**
- * 查询 DeepWiki
- * 外部调用就像调用普通函数一样，无需关心连接管理
- */
-export async function queryDeepWiki(_params: {
-  repoName: string;
-  question: string;
-}): Promise<string> {
-  try {
-    const params = {
-      ..._params,
-    };
-    if (!params.repoName.includes('/')) {
-      params.repoName = getRepoName(params.repoName as AntVLibrary);
-    }
+  private startHealthChecks(): void {
+    const { healthCheckInterval } = this.options;
+    if (healthCheckInterval <= 0 || this.healthTimer) return;
+    this.healthTimer = setInterval(() => {
+      if (this.connection) void this.healthCheck();
+    }, healthCheckInterval);
+    // Health checks alone must not keep the process alive
+    this.healthTimer.unref();
+  }
 
-    // 获取单例客户端 (自动处理连接)
-    const client = await getMcpClient();
+  private stopHealthChecks(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = null;
+  }
 
-    // 调用工具
-    const result: any = await client.callTool({
-      name: 'ask_question',
-      arguments: params,
-    });
+  /**
+   * Connect if needed and ping the server. An unhealthy connection is closed.
+   */
+  async healthCheck(): Promise<DeepWikiHealth> {
+    let connection: Connection | undefined;
+    try {
+      connection = await this.connect();
+      const start = Date.now();
+      await connection.client.ping({ timeout: this.options.timeout });
+      return {
+        healthy: true,
+        transport: connection.type,
+        latency: Date.now() - start,
+      };
+    } catch (error) {
+      logger.warn('DeepWiki health check failed:', errorMessage(error));
+      if (connection) await this.reset(connection);
+      return {
+        healthy: false,
+        transport: connection?.type,
+        error: errorMessage(error),
+      };
+    }
+  }
+
+  /**
+   * Ask a question about a repository with the `ask_question` tool.
+   * Throws a `CancelledError` when the signal aborts, cancelling the
+   * connection attempt or the call upstream.
+   */
+  async ask(
+    params: { repoName: string; question: string },
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const connection = await this.connect(signal);
+    throwIfCancelled(signal);
 
-    // ---------------------------------------------------------
-    // 4. 结果处理逻辑
-    // ---------------------------------------------------------
-    // result.content 是一个数组，可能包含 text, image 等
-    // 这里我们使用 reduce 提取所有 text 类型的内容并拼接
-    let answer = result.content
-      .filter((item: any) => item.type === 'text')
-      .map((item: any) => item.text)
-      .join('\n'); // 如果有多段文本，用换行符拼接
-
-    const regex =
-      /Wiki pages you might want to explore:|View this search on DeepWiki:/i;
-    const splitIndex = answer.search(regex);
-    // 如果找到了标记 (splitIndex !== -1)
-    if (splitIndex !== -1) {
-      // 截取从开头到标记之前的部分，并清理末尾的空白
-      answer = answer.slice(0, splitIndex).trimEnd();
+    let result;
+    try {
+      result = await connection.client.callTool(
+        { name: 'ask_question', arguments: params },
+        undefined,
+        { signal, timeout: this.options.timeout },
+      );
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      // The connection may be broken, do not reuse it
+      await this.reset(connection);
+      throw error;
     }
 
+    const content = Array.isArray(result.content) ? result.content : [];
+    let answer = content
+      .filter((item) => item.type === 'text')
+      .map((item) => item.text)
+      .join('\n');
+
+    // Drop the links DeepWiki appends to its answers
+    const splitIndex = answer.search(
+      /Wiki pages you might want to explore:|View this search on DeepWiki:/i,
+    );
+    if (splitIndex !== -1) answer = answer.slice(0, splitIndex).trimEnd();
+
     if (!answer || answer.startsWith('Error')) {
-      // 防御性编程：如果返回内容为空
       throw new Error('DeepWiki return Empty/Error Answer, Answer = ' + answer);
     }
-
     return answer;
+  }
+
+  /**
+   * Close the connection and stop the health checks, terminating the
+   * Streamable HTTP session. A later question connects again.
+   */
+  async close(): Promise<void> {
+    this.generation++;
+    this.stopHealthChecks();
+    const connection = this.connection;
+    this.connection = null;
+    if (!connection) return;
+
+    logger.info('Closing the DeepWiki connection');
+    if (connection.transport instanceof StreamableHTTPClientTransport) {
+      await connection.transport.terminateSession().catch((error) => {
+        logger.debug('Failed to terminate the DeepWiki session:', error);
+      });
+    }
+    await connection.client.close().catch((error) => {
+      logger.error('Failed to close the DeepWiki connection:', error);
+    });
+  }
+}
+
+/**
+ * Client shared by the tools, configured from the environment.
+ */
+export const deepWikiClient = new DeepWikiClient();
+
+/**
+ * Query DeepWiki about an AntV library or a `owner/repo` repository.
+ * Throws a `CancelledError` when the signal aborts, cancelling the DeepWiki call.
+ */
+export async function queryDeepWiki(
+  _params: {
+    repoName: string;
+    question: string;
+  },
+  signal?: AbortSignal,
+): Promise<string> {
+  const params = { ..._params };
+  if (!params.repoName.includes('/')) {
+    params.repoName = getRepoName(params.repoName as AntVLibrary);
+  }
+
+  try {
+    return await deepWikiClient.ask(params, signal);
   } catch (error) {
+    if (signal?.aborted) throw new CancelledError();
     logger.error('DeepWiki Query Error:', error);
-    // 根据业务需求，这里可以选择抛出错误，或者返回空字符串/错误提示字符串
-    // 如果是网络断开等错误，resetClient 会在下一次调用时触发重连
-    if (_client) {
-      // 如果调用过程中报错，为了保险起见，可以考虑重置连接状态
-      // 视具体错误类型而定，这里简单处理：
-      // resetClient();
-    }
     throw error;
   }
 }
 
-export async function adaptedQueryDeepWiki(_params: {
-  repoName: string;
-  question: string;
-}) {
+export async function adaptedQueryDeepWiki(
+  _params: {
+    repoName: string;
+    question: string;
+  },
+  signal?: AbortSignal,
+) {
   try {
-    const answer = await queryDeepWiki(_params);
+    const answer = await queryDeepWiki(_params, signal);
     return { documentation: answer };
   } catch (error) {
+    if (error instanceof CancelledError) throw error;
     return {
       documentation: null,
-      error: error instanceof Error ? error.message : String(error),
+      error: errorMessage(error),
     };
   }
 }
 
 /**
- * (可选) 显式关闭连接
- * 供 EggJS 应用在 app.beforeClose 时调用
+ * Close the connection of the shared client, on server shutdown.
  */
-export async function closeDeepWikiConnection() {
-  if (_transport) {
-    logger.info('DeepWiki MCP: 关闭连接...');
-    // SDK 目前可能没有直接暴露 close 方法，通常关闭 transport 即可
-    // SSEClientTransport 内部并没有显式的 close 方法暴露出来，
-    // 但我们可以将引用置空，让 GC 回收，或者依赖进程退出
-    // 如果 SSEClientTransport 实现了 close，则调用:
-    // await _transport.close();
-
-    // 目前 SDK 版本可以直接置空
-    resetClient();
-  }
+export function closeDeepWikiConnection(): Promise<void> {
+  return deepWikiClient.close();
 }
 
 /**
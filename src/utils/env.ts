@@ -1,4 +1,12 @@
+import os from 'node:os';
+import path from 'node:path';
 import process from 'node:process';
+import type { DocBackend } from '../types';
+import { DOC_BACKENDS } from '../constant';
+import type { DocumentCacheOptions } from './cache';
+import type { BackendLimiterOptions } from './limiter';
+import type { FileSinkOptions } from './logger';
+import type { CircuitBreakerOptions, RetryOptions } from './resilience';
 
 /**
  * Get the `LOGGER_LEVEL` from environment variables.
@@ -7,3 +15,221 @@ export function getEnvLoggerLevel(): number {
   const loggerLevel = process.env.LOGGER_LEVEL;
   return Number.isNaN(Number(loggerLevel)) ? 1 : Number(loggerLevel);
 }
+
+/**
+ * Get the logger sink options from environment variables.
+ * - `LOGGER_FORMAT`: stderr format, `text` or `json` lines, defaults to `text`.
+ * - `LOGGER_FILE`: file to also write JSON lines to, rotated by size.
+ * - `LOGGER_FILE_MAX_SIZE`: size of the log file before rotation in bytes, defaults to 10 MB.
+ * - `LOGGER_FILE_MAX_FILES`: rotated log files kept, defaults to 5.
+ */
+export function getEnvLoggerOptions(): {
+  format: 'text' | 'json';
+  file: FileSinkOptions | null;
+} {
+  const file = process.env.LOGGER_FILE;
+  return {
+    format:
+      process.env.LOGGER_FORMAT?.toLowerCase() === 'json' ? 'json' : 'text',
+    file: file
+      ? {
+          path: file,
+          maxSize: getEnvNumber('LOGGER_FILE_MAX_SIZE', 10 * 1024 * 1024),
+          maxFiles: getEnvNumber('LOGGER_FILE_MAX_FILES', 5),
+        }
+      : null,
+  };
+}
+
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * Get the `MCP_TRANSPORT` from environment variables, defaults to `stdio`.
+ */
+export function getEnvTransport(): TransportType {
+  const transport = process.env.MCP_TRANSPORT?.toLowerCase();
+  return transport === 'http' ? 'http' : 'stdio';
+}
+
+/**
+ * Parse a TCP port, `null` unless it is an integer from 1 to 65535.
+ */
+export function parsePort(value: string): number | null {
+  const port = Number(value);
+  return /^\d+$/.test(value) && port >= 1 && port <= 65535 ? port : null;
+}
+
+/**
+ * Get the HTTP server options from `MCP_HOST`, `MCP_PORT` and `MCP_ENDPOINT`.
+ * Throws when `MCP_PORT` is not a valid port, like the `--port` option.
+ */
+export function getEnvHttpOptions(): {
+  host: string;
+  port: number;
+  endpoint: string;
+} {
+  const value = process.env.MCP_PORT;
+  const port = value ? parsePort(value) : 3000;
+  if (port === null) {
+    throw new Error(
+      `Invalid MCP_PORT: ${value}. Must be an integer from 1 to 65535`,
+    );
+  }
+  return {
+    host: process.env.MCP_HOST || '127.0.0.1',
+    port,
+    endpoint: process.env.MCP_ENDPOINT || '/mcp',
+  };
+}
+
+/**
+ * Parse a positive number from an environment variable, or use the fallback.
+ */
+function getEnvNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0
+    ? value
+    : fallback;
+}
+
+/**
+ * Get the documentation cache options from the `ANTV_CACHE_*` environment variables.
+ * - `ANTV_CACHE`: set to `false` to disable the cache.
+ * - `ANTV_CACHE_DIR`: disk store directory, set to `false` for a memory-only cache.
+ * - `ANTV_CACHE_TTL`: time to live in seconds, defaults to 1 day.
+ * - `ANTV_CACHE_MAX_ENTRIES`: memory LRU size, defaults to 500 entries.
+ * - `ANTV_CACHE_MAX_SIZE`: disk store size in bytes, defaults to 50 MB.
+ * - `ANTV_CACHE_SWR`: set to `true` to serve stale entries while revalidating.
+ */
+export function getEnvCacheOptions(): DocumentCacheOptions {
+  const directory = process.env.ANTV_CACHE_DIR;
+  return {
+    enabled: process.env.ANTV_CACHE !== 'false',
+    directory:
+      directory === 'false'
+        ? null
+        : directory || path.join(os.homedir(), '.cache', 'mcp-server-antv'),
+    ttl: getEnvNumber('ANTV_CACHE_TTL', 24 * 60 * 60) * 1000,
+    maxEntries: getEnvNumber('ANTV_CACHE_MAX_ENTRIES', 500),
+    maxSize: getEnvNumber('ANTV_CACHE_MAX_SIZE', 50 * 1024 * 1024),
+    staleWhileRevalidate: process.env.ANTV_CACHE_SWR === 'true',
+  };
+}
+
+/**
+ * Get the local documentation index path from `ANTV_LOCAL_INDEX`.
+ */
+export function getEnvLocalIndexPath(): string {
+  return (
+    process.env.ANTV_LOCAL_INDEX ||
+    path.join(os.homedir(), '.cache', 'mcp-server-antv', 'local-index.json')
+  );
+}
+
+/**
+ * Get the documentation router options from environment variables.
+ * - `ANTV_FALLBACK_CHANNELS`: comma-separated fallback order, defaults to `Context7,DeepWiki,Local`.
+ *   The requested channel is always tried first, set to `none` to disable the fallback.
+ * - `ANTV_RETRIES`: retries on transient errors, defaults to 2.
+ * - `ANTV_RETRY_DELAY`: delay before the first retry in milliseconds, defaults to 500.
+ * - `ANTV_RETRY_MAX_DELAY`: maximum delay between retries in milliseconds, defaults to 5000.
+ * - `ANTV_CIRCUIT_THRESHOLD`: consecutive failures before a backend is skipped, defaults to 3.
+ * - `ANTV_CIRCUIT_RESET`: seconds before a skipped backend is tried again, defaults to 30.
+ */
+export function getEnvRouterOptions(): RetryOptions &
+  CircuitBreakerOptions & { fallbackChannels: DocBackend[] } {
+  const channels = process.env.ANTV_FALLBACK_CHANNELS;
+  const retries = Number(process.env.ANTV_RETRIES);
+  return {
+    fallbackChannels:
+      channels === undefined
+        ? [...DOC_BACKENDS]
+        : (channels
+            .split(',')
+            .map((c) => c.trim())
+            .filter((c) =>
+              DOC_BACKENDS.includes(c as DocBackend),
+            ) as DocBackend[]),
+    retries:
+      process.env.ANTV_RETRIES && Number.isInteger(retries) && retries >= 0
+        ? retries
+        : 2,
+    baseDelay: getEnvNumber('ANTV_RETRY_DELAY', 500),
+    maxDelay: getEnvNumber('ANTV_RETRY_MAX_DELAY', 5000),
+    failureThreshold: getEnvNumber('ANTV_CIRCUIT_THRESHOLD', 3),
+    resetTimeout: getEnvNumber('ANTV_CIRCUIT_RESET', 30) * 1000,
+  };
+}
+
+/**
+ * Get the request timeouts of the remote documentation backends in milliseconds.
+ * - `ANTV_CONTEXT7_TIMEOUT`: Context7 timeout in seconds, defaults to 30.
+ * - `ANTV_DEEPWIKI_TIMEOUT`: DeepWiki timeout in seconds, defaults to 60.
+ */
+export function getEnvBackendTimeouts(): {
+  Context7: number;
+  DeepWiki: number;
+} {
+  return {
+    Context7: getEnvNumber('ANTV_CONTEXT7_TIMEOUT', 30) * 1000,
+    DeepWiki: getEnvNumber('ANTV_DEEPWIKI_TIMEOUT', 60) * 1000,
+  };
+}
+
+/**
+ * Get the DeepWiki client options from environment variables.
+ * - `ANTV_DEEPWIKI_ENDPOINT`: MCP endpoint, defaults to `https://mcp.deepwiki.com/mcp`.
+ *   Streamable HTTP is tried first, then SSE on `/sse`; an endpoint ending with `/sse` only uses SSE.
+ * - `ANTV_DEEPWIKI_HEALTH_CHECK`: seconds between pings of the open connection, defaults to 60.
+ *   Set to `false` to disable the health checks.
+ */
+export function getEnvDeepWikiOptions(): {
+  endpoint: string;
+  healthCheckInterval: number;
+} {
+  return {
+    endpoint:
+      process.env.ANTV_DEEPWIKI_ENDPOINT || 'https://mcp.deepwiki.com/mcp',
+    healthCheckInterval:
+      process.env.ANTV_DEEPWIKI_HEALTH_CHECK === 'false'
+        ? 0
+        : getEnvNumber('ANTV_DEEPWIKI_HEALTH_CHECK', 60) * 1000,
+  };
+}
+
+/**
+ * Get the local limits of the remote documentation backends from environment variables.
+ * - `ANTV_CONTEXT7_CONCURRENCY`: Context7 requests in flight, defaults to 4.
+ * - `ANTV_CONTEXT7_RATE`: Context7 requests per minute, defaults to 60.
+ * - `ANTV_DEEPWIKI_CONCURRENCY`: DeepWiki questions in flight, defaults to 2.
+ * - `ANTV_DEEPWIKI_RATE`: DeepWiki questions per minute, defaults to 20.
+ * - `ANTV_QUEUE_SIZE`: requests waiting per backend, defaults to 50.
+ * - `ANTV_QUEUE_TIMEOUT`: seconds a request waits for its turn, defaults to 30.
+ */
+export function getEnvLimiterOptions(): {
+  Context7: BackendLimiterOptions;
+  DeepWiki: BackendLimiterOptions;
+} {
+  const queue = {
+    maxQueue: getEnvNumber('ANTV_QUEUE_SIZE', 50),
+    maxWait: getEnvNumber('ANTV_QUEUE_TIMEOUT', 30) * 1000,
+  };
+  const getOptions = (
+    prefix: string,
+    concurrency: number,
+    rate: number,
+  ): BackendLimiterOptions => {
+    const limit = getEnvNumber(`${prefix}_CONCURRENCY`, concurrency);
+    return {
+      concurrency: limit,
+      rate: getEnvNumber(`${prefix}_RATE`, rate) / 60,
+      // Let the subtasks of a complex task start together
+      burst: limit,
+      ...queue,
+    };
+  };
+  return {
+    Context7: getOptions('ANTV_CONTEXT7', 4, 60),
+    DeepWiki: getOptions('ANTV_DEEPWIKI', 2, 20),
+  };
+}
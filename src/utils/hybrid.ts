@@ -0,0 +1,124 @@
+/**
+ * Hybrid documentation merging, combines the answers of several backends into
+ * one deduplicated document with each section labeled by its source.
+ */
+import type { DocBackend } from '../types';
+import { SNIPPET_SEPARATOR } from '../constant';
+import { tokenize } from './local';
+
+// Sections sharing this much of their terms are considered duplicates
+const DUPLICATE_SIMILARITY = 0.8;
+
+export type DocumentationSection = {
+  source: DocBackend;
+  content: string;
+  hasCode: boolean;
+};
+
+/**
+ * Split documentation into sections: snippets for the Context7 text format,
+ * heading sections for markdown answers such as DeepWiki's.
+ */
+export function splitSections(
+  source: DocBackend,
+  documentation: string,
+): DocumentationSection[] {
+  const text = documentation.replace(/\r\n/g, '\n').trim();
+  let parts: string[];
+
+  if (text.includes(SNIPPET_SEPARATOR)) {
+    parts = text.split(/^-{20,}\s*$/m);
+  } else {
+    parts = [];
+    let current: string[] = [];
+    let inFence = false;
+    for (const line of text.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (!inFence && /^#{1,3}\s/.test(line) && current.join('').trim()) {
+        parts.push(current.join('\n'));
+        current = [];
+      }
+      current.push(line);
+    }
+    parts.push(current.join('\n'));
+  }
+
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((content) => ({
+      source,
+      content,
+      hasCode: /```[\s\S]*?```/.test(content),
+    }));
+}
+
+function getCodeBlocks(content: string): string[] {
+  return (content.match(/```[^\n]*\n[\s\S]*?```/g) || []).map((block) =>
+    block
+      .replace(/^```[^\n]*\n/, '')
+      .replace(/```$/, '')
+      .replace(/\s+/g, ''),
+  );
+}
+
+/**
+ * Jaccard similarity of two term sets.
+ */
+export function getSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  a.forEach((term) => {
+    if (b.has(term)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Remove sections whose code blocks all appeared before, or whose terms
+ * mostly overlap with an earlier section.
+ */
+export function deduplicateSections(
+  sections: DocumentationSection[],
+): DocumentationSection[] {
+  const seenCode = new Set<string>();
+  const kept: Array<{ section: DocumentationSection; terms: Set<string> }> = [];
+
+  for (const section of sections) {
+    const codes = getCodeBlocks(section.content).filter(Boolean);
+    const terms = new Set(tokenize(section.content));
+    const duplicateCode =
+      codes.length > 0 && codes.every((code) => seenCode.has(code));
+    const duplicateText = kept.some(
+      (k) => getSimilarity(k.terms, terms) >= DUPLICATE_SIMILARITY,
+    );
+    if (duplicateCode || duplicateText) continue;
+
+    codes.forEach((code) => seenCode.add(code));
+    kept.push({ section, terms });
+  }
+
+  return kept.map((k) => k.section);
+}
+
+/**
+ * Merge the documentation of several backends: deduplicate overlapping
+ * sections, put code-bearing sections first and label each with its source.
+ */
+export function mergeDocumentation(
+  results: Array<{ source: DocBackend; documentation: string }>,
+): string {
+  const sections = deduplicateSections(
+    results.flatMap(({ source, documentation }) =>
+      splitSections(source, documentation),
+    ),
+  );
+  const ordered = [
+    ...sections.filter((s) => s.hasCode),
+    ...sections.filter((s) => !s.hasCode),
+  ];
+
+  return ordered
+    .map((s) => `**Source**: ${s.source}\n\n${s.content}`)
+    .join(`\n\n${SNIPPET_SEPARATOR}\n\n`);
+}
@@ -1,4 +1,62 @@
-export { logger } from './logger';
+export {
+  logger,
+  LogLevel,
+  McpLoggingSink,
+  runWithLogContext,
+  type LogSink,
+} from './logger';
 export { getLibraryId, fetchLibraryDocumentation } from './context7';
-export { getEnvLoggerLevel } from './env';
+export { closeDeepWikiConnection } from './deepwiki';
+export {
+  getEnvLoggerLevel,
+  getEnvLoggerOptions,
+  getEnvTransport,
+  getEnvHttpOptions,
+  getEnvCacheOptions,
+  getEnvLocalIndexPath,
+  getEnvRouterOptions,
+  getEnvBackendTimeouts,
+  getEnvDeepWikiOptions,
+  getEnvLimiterOptions,
+  parsePort,
+  type TransportType,
+} from './env';
 export { validateSchema } from './validator';
+export { documentCache, DocumentCache, normalizeTopic } from './cache';
+export { buildLocalIndex, queryLocalDocumentation } from './local';
+export {
+  queryDocumentation,
+  getFallbackChain,
+  type DocumentationRequestOptions,
+} from './router';
+export { ProgressReporter } from './progress';
+export { detectAntVProject, detectAntVProjects } from './workspace';
+export {
+  normalizeVersion,
+  getLatestVersion,
+  getLibraryCodeStyle,
+  getVersionWarnings,
+} from './version';
+export { checkConventions } from './conventions';
+export { migrateG2Code } from './migration';
+export { recommendCharts } from './recommend';
+export { renderG2Spec } from './render';
+export {
+  metrics,
+  trackToolCall,
+  getPrometheusMetrics,
+  resetMetrics,
+} from './metrics';
+export { extractTopics, classifyIntent, detectQueryLibrary } from './topic';
+export {
+  parseSnippets,
+  selectSnippets,
+  mergeSnippetGroups,
+  renderSnippets,
+  extractApis,
+} from './snippets';
+export {
+  estimateTokens,
+  allocateTokenBudget,
+  truncateToTokens,
+} from './tokens';
@@ -0,0 +1,185 @@
+/**
+ * Local limits of the upstream documentation backends: a concurrency pool
+ * and a token bucket, shared by all sessions, with a queue per session
+ * served in turn so that one session's subtasks cannot starve the others.
+ */
+import { CancelledError, throwIfCancelled } from './resilience';
+
+export type BackendLimiterOptions = {
+  /** Requests in flight at most. */
+  concurrency: number;
+  /** Requests started per second on average. */
+  rate: number;
+  /** Requests started at once after an idle period, the bucket size. */
+  burst: number;
+  /** Requests waiting at most, across sessions. */
+  maxQueue: number;
+  /** Time a request waits for its turn at most, in milliseconds. */
+  maxWait: number;
+};
+
+/**
+ * Error of a request over the local limits of a backend, before it reached
+ * the backend.
+ */
+export class BackendBusyError extends Error {
+  constructor(
+    readonly backend: string,
+    /** Estimated seconds before the backend has room again. */
+    readonly retryAfter: number,
+  ) {
+    super(`backend busy, retry after ${retryAfter}s`);
+    this.name = 'BackendBusyError';
+  }
+}
+
+type Waiter = {
+  resolve: (release: () => void) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+};
+
+// Requests of stdio and of callers without a session share one queue
+const DEFAULT_SESSION = 'default';
+
+export class BackendLimiter {
+  private active = 0;
+  private tokens: number;
+  private refilledAt = Date.now();
+  /** Queues by session, in serving order: a served session moves last. */
+  private readonly queues = new Map<string, Waiter[]>();
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly backend: string,
+    private readonly options: BackendLimiterOptions,
+  ) {
+    this.tokens = options.burst;
+  }
+
+  get queued(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length;
+    return count;
+  }
+
+  /**
+   * Run `fn` once the limits allow, releasing its slot when it settles.
+   * Throws a `BackendBusyError` when the queue is full or the wait too long,
+   * and a `CancelledError` when the signal aborts while waiting.
+   */
+  async run<T>(
+    session: string | undefined,
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const release = await this.acquire(session, signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  acquire(
+    session = DEFAULT_SESSION,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    throwIfCancelled(signal);
+    if (this.queued >= this.options.maxQueue) {
+      return Promise.reject(
+        new BackendBusyError(this.backend, this.getRetryAfter()),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const remove = () => {
+        const queue = this.queues.get(session) || [];
+        queue.splice(queue.indexOf(waiter), 1);
+        if (queue.length === 0) this.queues.delete(session);
+      };
+      const onAbort = () => {
+        remove();
+        waiter.cleanup();
+        reject(new CancelledError());
+      };
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          remove();
+          waiter.cleanup();
+          reject(new BackendBusyError(this.backend, this.getRetryAfter()));
+        }, this.options.maxWait),
+        cleanup: () => {
+          clearTimeout(waiter.timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const queue = this.queues.get(session);
+      if (queue) queue.push(waiter);
+      else this.queues.set(session, [waiter]);
+      this.dispatch();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.options.rate,
+    );
+    this.refilledAt = now;
+  }
+
+  /**
+   * Estimate the seconds before the queued requests have started.
+   */
+  private getRetryAfter(): number {
+    this.refill();
+    const missing = this.queued + 1 - this.tokens;
+    return Math.max(1, Math.ceil(missing / this.options.rate));
+  }
+
+  /**
+   * Start the waiting requests the limits allow, one per session in turn.
+   */
+  private dispatch(): void {
+    this.refill();
+    while (
+      this.queues.size > 0 &&
+      this.active < this.options.concurrency &&
+      this.tokens >= 1
+    ) {
+      const [session, queue] = this.queues.entries().next().value!;
+      const waiter = queue.shift()!;
+      this.queues.delete(session);
+      if (queue.length > 0) this.queues.set(session, queue);
+
+      waiter.cleanup();
+      this.tokens--;
+      this.active++;
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.dispatch();
+      });
+    }
+
+    // Wait for the next token when only the rate holds the queue back
+    if (
+      this.queues.size > 0 &&
+      this.active < this.options.concurrency &&
+      !this.refillTimer
+    ) {
+      const delay = ((1 - this.tokens) / this.options.rate) * 1000;
+      this.refillTimer = setTimeout(() => {
+        this.refillTimer = null;
+        this.dispatch();
+      }, Math.ceil(delay));
+    }
+  }
+}
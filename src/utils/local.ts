@@ -0,0 +1,408 @@
+/**
+ * Local documentation service, answers queries offline from a BM25 full-text
+ * index built from a checked-out AntV docs folder.
+ */
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AntVLibrary } from '../types';
+import { SNIPPET_SEPARATOR } from '../constant';
+import { getEnvLocalIndexPath } from './env';
+import { logger } from './logger';
+import { estimateTokens } from './tokens';
+
+const INDEX_VERSION = 1;
+const MARKDOWN_EXTENSIONS = ['.md', '.mdx'];
+const CODE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx'];
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'lib', 'esm', 'build'];
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export type LocalDocument = {
+  title: string;
+  description: string;
+  source: string;
+  codes: Array<{ language: string; code: string }>;
+};
+
+export type LocalIndex = {
+  version: number;
+  libraries: Partial<
+    Record<
+      AntVLibrary,
+      { root: string; updatedAt: string; documents: LocalDocument[] }
+    >
+  >;
+};
+
+type SearchableDocument = {
+  document: LocalDocument;
+  terms: Map<string, number>;
+  length: number;
+};
+
+type SearchableLibrary = {
+  documents: SearchableDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+};
+
+/**
+ * Split text into search terms. Latin words are lowercased and camelCase is
+ * split; CJK runs are split into bigrams.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.match(/[一-鿿]+|[A-Za-z][A-Za-z0-9]*|\d+/g) || [];
+
+  for (const word of words) {
+    if (/[一-鿿]/.test(word)) {
+      if (word.length === 1) terms.push(word);
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.push(word.slice(i, i + 2));
+      }
+      continue;
+    }
+    const lower = word.toLowerCase();
+    if (lower.length > 1) terms.push(lower);
+    const parts = word.match(/[A-Z]?[a-z0-9]+|[A-Z]+(?![a-z])/g) || [];
+    if (parts.length > 1) {
+      terms.push(
+        ...parts.map((p) => p.toLowerCase()).filter((p) => p.length > 1),
+      );
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Split a markdown file into one document per heading section.
+ */
+export function parseMarkdown(
+  content: string,
+  source: string,
+): LocalDocument[] {
+  let body = content.replace(/\r\n/g, '\n');
+  let fileTitle = path.basename(source, path.extname(source));
+
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    const title = frontMatter[1].match(/^title:\s*['"]?(.+?)['"]?\s*$/m);
+    if (title) fileTitle = title[1];
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const documents: LocalDocument[] = [];
+  const headings: string[] = [fileTitle];
+  let current: { title: string; lines: string[] } = {
+    title: fileTitle,
+    lines: [],
+  };
+
+  const flush = () => {
+    const document = parseSection(current.title, current.lines, source);
+    if (document) documents.push(document);
+  };
+
+  let inFence = false;
+  for (const line of body.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,3})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const depth = heading[1].length;
+      headings.length = depth - 1;
+      headings[depth - 1] = heading[2];
+      current = { title: headings.filter(Boolean).join(' > '), lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return documents;
+}
+
+function parseSection(
+  title: string,
+  lines: string[],
+  source: string,
+): LocalDocument | null {
+  const prose: string[] = [];
+  const codes: LocalDocument['codes'] = [];
+  let fence: { language: string; lines: string[] } | null = null;
+
+  for (const line of lines) {
+    const marker = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+    if (marker && !fence) {
+      fence = { language: marker[2] || 'text', lines: [] };
+    } else if (marker && fence) {
+      const code = fence.lines.join('\n').trim();
+      if (code) codes.push({ language: fence.language, code });
+      fence = null;
+    } else if (fence) {
+      fence.lines.push(line);
+    } else {
+      prose.push(line);
+    }
+  }
+
+  const description = prose
+    .join('\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!description && codes.length === 0) return null;
+
+  return { title, description, source, codes };
+}
+
+function parseCodeFile(content: string, source: string): LocalDocument | null {
+  const code = content.trim();
+  if (!code) return null;
+  const extension = path.extname(source).slice(1);
+  return {
+    title: source
+      .replace(/\.[^.]+$/, '')
+      .split(path.sep)
+      .join(' > '),
+    description: '',
+    source,
+    codes: [
+      {
+        language: extension.startsWith('ts') ? 'typescript' : 'javascript',
+        code,
+      },
+    ],
+  };
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+        files.push(...(await walk(fullPath)));
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse all markdown docs and code examples under a directory.
+ */
+export async function collectLocalDocuments(
+  root: string,
+): Promise<LocalDocument[]> {
+  const documents: LocalDocument[] = [];
+
+  for (const file of await walk(root)) {
+    const extension = path.extname(file).toLowerCase();
+    const source = path.relative(root, file);
+    if (MARKDOWN_EXTENSIONS.includes(extension)) {
+      documents.push(
+        ...parseMarkdown(await fs.readFile(file, 'utf-8'), source),
+      );
+    } else if (
+      CODE_EXTENSIONS.includes(extension) &&
+      /(^|[\\/])(examples?|demos?)[\\/]/.test(source)
+    ) {
+      const document = parseCodeFile(await fs.readFile(file, 'utf-8'), source);
+      if (document) documents.push(document);
+    }
+  }
+
+  return documents;
+}
+
+async function readLocalIndex(indexPath: string): Promise<LocalIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+    return index.version === INDEX_VERSION ? (index as LocalIndex) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build or update the local index of a library from a docs directory.
+ * Documents previously indexed for the library are replaced.
+ */
+export async function buildLocalIndex(params: {
+  library: AntVLibrary;
+  directory: string;
+  indexPath?: string;
+}): Promise<{ indexPath: string; documents: number }> {
+  const { library } = params;
+  const directory = path.resolve(params.directory);
+  const indexPath = params.indexPath || getEnvLocalIndexPath();
+
+  const stat = await fs.stat(directory).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Docs directory not found: ${directory}`);
+  }
+
+  const documents = await collectLocalDocuments(directory);
+  const index = (await readLocalIndex(indexPath)) || {
+    version: INDEX_VERSION,
+    libraries: {},
+  };
+  index.libraries[library] = {
+    root: directory,
+    updatedAt: new Date().toISOString(),
+    documents,
+  };
+
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  await fs.writeFile(indexPath, JSON.stringify(index), 'utf-8');
+  searchableIndexes.delete(indexPath);
+  logger.info(
+    `Local index updated for ${library}: ${documents.length} documents from ${directory}`,
+  );
+
+  return { indexPath, documents: documents.length };
+}
+
+// Loaded indexes, invalidated when the index file changes on disk.
+const searchableIndexes = new Map<
+  string,
+  { mtimeMs: number; libraries: Map<string, SearchableLibrary> }
+>();
+
+async function loadSearchableLibrary(
+  indexPath: string,
+  library: AntVLibrary,
+): Promise<SearchableLibrary | null> {
+  const stat = await fs.stat(indexPath).catch(() => null);
+  if (!stat) return null;
+
+  let cached = searchableIndexes.get(indexPath);
+  if (!cached || cached.mtimeMs !== stat.mtimeMs) {
+    const index = await readLocalIndex(indexPath);
+    if (!index) return null;
+
+    const libraries = new Map<string, SearchableLibrary>();
+    for (const [name, entry] of Object.entries(index.libraries)) {
+      if (!entry) continue;
+      const documentFrequency = new Map<string, number>();
+      const documents = entry.documents.map((document) => {
+        const terms = new Map<string, number>();
+        const tokens = tokenize(
+          [
+            document.title,
+            document.title,
+            document.description,
+            ...document.codes.map((c) => c.code),
+          ].join('\n'),
+        );
+        tokens.forEach((t) => terms.set(t, (terms.get(t) || 0) + 1));
+        terms.forEach((_, t) =>
+          documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1),
+        );
+        return { document, terms, length: tokens.length };
+      });
+      const averageLength =
+        documents.reduce((sum, d) => sum + d.length, 0) /
+        Math.max(documents.length, 1);
+      libraries.set(name, { documents, documentFrequency, averageLength });
+    }
+
+    cached = { mtimeMs: stat.mtimeMs, libraries };
+    searchableIndexes.set(indexPath, cached);
+  }
+
+  return cached.libraries.get(library) || null;
+}
+
+/**
+ * Rank the documents of a library against the query with BM25.
+ */
+function searchLocalDocuments(
+  library: SearchableLibrary,
+  query: string,
+): Array<{ document: LocalDocument; score: number }> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const total = library.documents.length;
+
+  return library.documents
+    .map(({ document, terms, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.get(term);
+        if (!frequency) continue;
+        const df = library.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * length) / library.averageLength));
+      }
+      return { document, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Render a document in the Context7 snippet format.
+ */
+export function formatLocalDocument(document: LocalDocument): string {
+  let text = `TITLE: ${document.title}\n`;
+  text += `DESCRIPTION: ${document.description}\n`;
+  text += `SOURCE: ${document.source}\n`;
+  for (const { language, code } of document.codes) {
+    text += `\nLANGUAGE: ${language}\nCODE:\n\`\`\`\n${code}\n\`\`\`\n`;
+  }
+  return text;
+}
+
+/**
+ * Get the documentation from the local index associated with the specified library and topic.
+ */
+export async function queryLocalDocumentation(
+  library: AntVLibrary,
+  topic: string,
+  tokens?: number,
+  indexPath = getEnvLocalIndexPath(),
+): Promise<{ documentation: string | null; error?: string }> {
+  try {
+    const searchable = await loadSearchableLibrary(indexPath, library);
+    if (!searchable) {
+      return {
+        documentation: null,
+        error: `Local index for ${library} not found, run \`mcp-server-antv index --library ${library} --dir <docs>\` first`,
+      };
+    }
+
+    const maxTokens = tokens || Infinity;
+    const snippets: string[] = [];
+    let used = 0;
+    for (const { document } of searchLocalDocuments(searchable, topic)) {
+      const snippet = formatLocalDocument(document);
+      const cost = estimateTokens(snippet);
+      if (snippets.length > 0 && used + cost > maxTokens) break;
+      snippets.push(snippet);
+      used += cost;
+    }
+
+    if (snippets.length === 0) return { documentation: null };
+
+    logger.info(`Local documentation found, ${snippets.length} snippets`);
+    return {
+      documentation: snippets.join(`\n${SNIPPET_SEPARATOR}\n\n`),
+    };
+  } catch (error) {
+    logger.error('Failed to query local documentation:', error);
+    return {
+      documentation: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
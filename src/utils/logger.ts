@@ -1,4 +1,13 @@
-import { getEnvLoggerLevel } from './env';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import fs from 'node:fs';
+import path from 'node:path';
+import { inspect } from 'node:util';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  SetLevelRequestSchema,
+  type LoggingLevel,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getEnvLoggerLevel, getEnvLoggerOptions } from './env';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -7,39 +16,298 @@ export enum LogLevel {
   ERROR = 3,
 }
 
+const LEVEL_NAMES: Record<LogLevel, string> = {
+  [LogLevel.DEBUG]: 'DEBUG',
+  [LogLevel.INFO]: 'INFO',
+  [LogLevel.WARN]: 'WARN',
+  [LogLevel.ERROR]: 'ERROR',
+};
+
+/**
+ * Request being handled, attached to the records logged while handling it.
+ */
+export type LogContext = {
+  /** JSON-RPC ID of the request, unique within its session. */
+  requestId?: string | number;
+  sessionId?: string;
+};
+
+export type LogRecord = LogContext & {
+  timestamp: Date;
+  level: LogLevel;
+  prefix: string;
+  message: string;
+  args: unknown[];
+};
+
+/**
+ * Destination of the log records. A sink without `level` receives the
+ * records passing the level of the logger.
+ */
+export interface LogSink {
+  level?: LogLevel;
+  write(record: LogRecord): void;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function in the context of a request, the records it logs carry the
+ * request and session IDs.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+function formatArgs(args: unknown[], colors = false): string {
+  return args
+    .map((arg) =>
+      typeof arg === 'string' ? arg : inspect(arg, { colors, depth: 4 }),
+    )
+    .join(' ');
+}
+
+function serializeArg(arg: unknown): unknown {
+  return arg instanceof Error
+    ? { name: arg.name, message: arg.message, stack: arg.stack }
+    : arg;
+}
+
+/**
+ * Format a record as a JSON line, with the arguments under `details`.
+ */
+export function formatJsonRecord(record: LogRecord): string {
+  const { timestamp, level, prefix, message, args, requestId, sessionId } =
+    record;
+  const json = {
+    time: timestamp.toISOString(),
+    level: LEVEL_NAMES[level].toLowerCase(),
+    ...(prefix ? { logger: prefix } : {}),
+    message,
+    ...(requestId !== undefined ? { requestId } : {}),
+    ...(sessionId ? { sessionId } : {}),
+    ...(args.length > 0 ? { details: args.map(serializeArg) } : {}),
+  };
+  try {
+    return JSON.stringify(json);
+  } catch {
+    // Circular or BigInt arguments
+    return JSON.stringify({ ...json, details: formatArgs(args) });
+  }
+}
+
+/**
+ * Write the records to stderr, as colorized text or JSON lines. Never to
+ * stdout, which carries the JSON-RPC messages of the stdio transport.
+ */
+export class StderrSink implements LogSink {
+  constructor(
+    private readonly format: 'text' | 'json' = 'text',
+    private readonly enableColors = true,
+  ) {}
+
+  private colorize(text: string, level: LogLevel): string {
+    if (!this.enableColors) return text;
+
+    const colors: Record<LogLevel, string> = {
+      [LogLevel.DEBUG]: '\x1b[90m',
+      [LogLevel.INFO]: '\x1b[34m',
+      [LogLevel.WARN]: '\x1b[33m',
+      [LogLevel.ERROR]: '\x1b[31m',
+    };
+
+    return `${colors[level]}${text}\x1b[0m`;
+  }
+
+  write(record: LogRecord): void {
+    if (this.format === 'json') {
+      process.stderr.write(`${formatJsonRecord(record)}\n`);
+      return;
+    }
+    const { timestamp, level, prefix, message, args, requestId } = record;
+    const prefixStr = prefix ? `[${prefix}] ` : '';
+    const requestStr = requestId !== undefined ? `[request ${requestId}] ` : '';
+    const formatted = `${timestamp.toISOString()} ${prefixStr}[${LEVEL_NAMES[level]}] ${requestStr}${message}`;
+    const details =
+      args.length > 0 ? ` ${formatArgs(args, this.enableColors)}` : '';
+    process.stderr.write(`${this.colorize(formatted, level)}${details}\n`);
+  }
+}
+
+export type FileSinkOptions = {
+  path: string;
+  /** Size in bytes above which the file is rotated. */
+  maxSize: number;
+  /** Rotated files kept, as `<path>.1` (newest) to `<path>.<maxFiles>`. */
+  maxFiles: number;
+};
+
+/**
+ * Append the records to a file as JSON lines, rotating it by size. Writes are
+ * synchronous so that the last records before a crash are kept.
+ */
+export class FileSink implements LogSink {
+  private size = 0;
+  private failed = false;
+
+  constructor(private readonly options: FileSinkOptions) {
+    try {
+      fs.mkdirSync(path.dirname(options.path), { recursive: true });
+      this.size = fs.statSync(options.path).size;
+    } catch {
+      // The file is created on the first write
+    }
+  }
+
+  private rotate(): void {
+    const { path: file, maxFiles } = this.options;
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${file}.${i}`)) {
+        fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+      }
+    }
+    if (maxFiles > 0) fs.renameSync(file, `${file}.1`);
+    else fs.rmSync(file, { force: true });
+    this.size = 0;
+  }
+
+  write(record: LogRecord): void {
+    if (this.failed) return;
+    const line = `${formatJsonRecord(record)}\n`;
+    const length = Buffer.byteLength(line);
+    try {
+      if (this.size > 0 && this.size + length > this.options.maxSize) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.options.path, line);
+      this.size += length;
+    } catch (error) {
+      // Stop writing instead of failing on every record
+      this.failed = true;
+      process.stderr.write(
+        `Failed to write log file ${this.options.path}: ${formatArgs([error])}\n`,
+      );
+    }
+  }
+}
+
+const MCP_LOGGING_LEVELS: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.DEBUG]: 'debug',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.ERROR]: 'error',
+};
+
+function fromMcpLoggingLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case 'debug':
+      return LogLevel.DEBUG;
+    case 'info':
+      return LogLevel.INFO;
+    case 'notice':
+    case 'warning':
+      return LogLevel.WARN;
+    default:
+      return LogLevel.ERROR;
+  }
+}
+
+/**
+ * Forward the records to an MCP client as `notifications/message`, at the
+ * level the client sets with `logging/setLevel`. Over HTTP, only the records
+ * logged while handling a request of the client's session are sent.
+ */
+export class McpLoggingSink implements LogSink {
+  constructor(
+    private readonly server: Server,
+    public level = LogLevel.INFO,
+  ) {
+    // Replaces the handler of the SDK, which keeps the level private
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.level = fromMcpLoggingLevel(request.params.level);
+      return {};
+    });
+  }
+
+  write(record: LogRecord): void {
+    const { sessionId } = this.server.transport || {};
+    // Not before the client has initialized, nor to other sessions
+    if (!this.server.getClientVersion() || record.sessionId !== sessionId) {
+      return;
+    }
+
+    const { level, prefix, message, args, requestId } = record;
+    this.server
+      .notification(
+        {
+          method: 'notifications/message',
+          params: {
+            level: MCP_LOGGING_LEVELS[level],
+            ...(prefix ? { logger: prefix } : {}),
+            data: args.length > 0 ? `${message} ${formatArgs(args)}` : message,
+          },
+        },
+        // Sent on the stream of the request over Streamable HTTP
+        requestId === undefined ? undefined : { relatedRequestId: requestId },
+      )
+      // Logging the failure would loop back here
+      .catch(() => undefined);
+  }
+}
+
 /**
  * Logger class for logging messages with different severity levels.
- * Supports colorized output in the console and customizable log levels.
+ * Dispatches the records to pluggable sinks, stderr by default.
  */
 export class Logger {
-  private level: LogLevel;
-  private prefix: string;
-  private enableColors: boolean;
+  private readonly sinks: Set<LogSink>;
+
+  constructor(
+    private level = LogLevel.INFO,
+    private readonly prefix = '',
+    sinks: LogSink[] = [new StderrSink()],
+  ) {
+    this.sinks = new Set(sinks);
+  }
 
-  constructor(level = LogLevel.INFO, prefix = '', enableColors = true) {
+  setLevel(level: LogLevel): void {
     this.level = level;
-    this.prefix = prefix;
-    this.enableColors = enableColors;
   }
 
-  private formatMessage(level: string, message: string): string {
-    const timestamp = new Date().toISOString();
-    const prefixStr = this.prefix ? `[${this.prefix}] ` : '';
-    return `${timestamp} ${prefixStr}[${level}] ${message}`;
+  getLevel(): LogLevel {
+    return this.level;
   }
 
-  private colorize(text: string, color: string): string {
-    if (!this.enableColors) return text;
+  /**
+   * Add a sink, returns a function removing it.
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => this.removeSink(sink);
+  }
 
-    const colors: Record<string, string> = {
-      reset: '\x1b[0m',
-      red: '\x1b[31m',
-      yellow: '\x1b[33m',
-      blue: '\x1b[34m',
-      gray: '\x1b[90m',
-    };
+  removeSink(sink: LogSink): void {
+    this.sinks.delete(sink);
+  }
 
-    return `${colors[color] || ''}${text}${colors.reset}`;
+  private log(level: LogLevel, message: string, args: unknown[]): void {
+    let record: LogRecord | undefined;
+    for (const sink of this.sinks) {
+      if (level < (sink.level ?? this.level)) continue;
+      record ??= {
+        timestamp: new Date(),
+        level,
+        prefix: this.prefix,
+        message,
+        args,
+        ...logContext.getStore(),
+      };
+      try {
+        sink.write(record);
+      } catch {
+        // A failing sink must not break the caller
+      }
+    }
   }
 
   /**
@@ -48,10 +316,7 @@ export class Logger {
    * @param args Additional arguments to include in the log.
    */
   debug(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.DEBUG) {
-      const formatted = this.formatMessage('DEBUG', message);
-      console.debug(this.colorize(formatted, 'gray'), ...args);
-    }
+    this.log(LogLevel.DEBUG, message, args);
   }
 
   /**
@@ -60,10 +325,7 @@ export class Logger {
    * @param args Additional arguments to include in the log.
    */
   info(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.INFO) {
-      const formatted = this.formatMessage('INFO', message);
-      console.info(this.colorize(formatted, 'blue'), ...args);
-    }
+    this.log(LogLevel.INFO, message, args);
   }
 
   /**
@@ -72,10 +334,7 @@ export class Logger {
    * @param args Additional arguments to include in the log.
    */
   warn(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.WARN) {
-      const formatted = this.formatMessage('WARN', message);
-      console.warn(this.colorize(formatted, 'yellow'), ...args);
-    }
+    this.log(LogLevel.WARN, message, args);
   }
 
   /**
@@ -84,19 +343,26 @@ export class Logger {
    * @param args Additional arguments to include in the log.
    */
   error(message: string, ...args: any[]): void {
-    if (this.level <= LogLevel.ERROR) {
-      const formatted = this.formatMessage('ERROR', message);
-      console.error(this.colorize(formatted, 'red'), ...args);
-    }
+    this.log(LogLevel.ERROR, message, args);
   }
 }
 
+function createDefaultSinks(): LogSink[] {
+  const { format, file } = getEnvLoggerOptions();
+  const sinks: LogSink[] = [
+    new StderrSink(format, process.stderr.isTTY === true),
+  ];
+  if (file) sinks.push(new FileSink(file));
+  return sinks;
+}
+
 /**
  * Logger instance for the MCP Server AntV.
- * Uses the environment variable `LOGGER_LEVEL` to set the log level.
+ * Uses the environment variable `LOGGER_LEVEL` to set the log level, and
+ * the `LOGGER_*` variables of `getEnvLoggerOptions()` to set the sinks.
  */
 export const logger = new Logger(
   getEnvLoggerLevel() as unknown as LogLevel,
   'MCPServerAntV',
-  true,
+  createDefaultSinks(),
 );
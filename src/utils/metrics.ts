@@ -0,0 +1,273 @@
+/**
+ * Usage metrics, counters and histograms of tool calls, backend requests and
+ * cache lookups, exposed by the `server_stats` tool and the `/metrics`
+ * endpoint in the Prometheus text format.
+ */
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from cache hits to slow DeepWiki answers
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function getSeriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((k) => [k, labels[k]]),
+  );
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries
+    .map(
+      ([k, v]) =>
+        `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    )
+    .join(',')}}`;
+}
+
+export class Counter {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = getSeriesKey(labels);
+    const series = this.series.get(key) || { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(getSeriesKey(labels))?.value ?? 0;
+  }
+
+  values(): Array<{ labels: Labels; value: number }> {
+    return Array.from(this.series.values());
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  toPrometheus(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+type HistogramSeries = {
+  labels: Labels;
+  /** Observations per bucket, not cumulative, the last one being `+Inf`. */
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly bounds: number[] = DURATION_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = getSeriesKey(labels);
+    const series = this.series.get(key) || {
+      labels,
+      buckets: new Array(this.bounds.length + 1).fill(0),
+      sum: 0,
+      count: 0,
+    };
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    series.buckets[index === -1 ? this.bounds.length : index]++;
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Start timing, the returned function observes the elapsed seconds.
+   */
+  startTimer(labels: Labels): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  get(labels: Labels = {}): HistogramSeries | undefined {
+    return this.series.get(getSeriesKey(labels));
+  }
+
+  values(): HistogramSeries[] {
+    return Array.from(this.series.values());
+  }
+
+  /**
+   * Estimate a quantile by linear interpolation in its bucket, as Prometheus
+   * `histogram_quantile()` does. Observations beyond the last bound count as
+   * the last bound.
+   */
+  quantile(labels: Labels, q: number): number | null {
+    const series = this.get(labels);
+    if (!series || series.count === 0) return null;
+    const rank = q * series.count;
+    let cumulative = 0;
+    for (let i = 0; i < series.buckets.length; i++) {
+      const previous = cumulative;
+      cumulative += series.buckets[i];
+      if (cumulative >= rank && series.buckets[i] > 0) {
+        if (i === this.bounds.length) return this.bounds[i - 1];
+        const lower = i === 0 ? 0 : this.bounds[i - 1];
+        return (
+          lower +
+          ((this.bounds[i] - lower) * (rank - previous)) / series.buckets[i]
+        );
+      }
+    }
+    return this.bounds[this.bounds.length - 1];
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  toPrometheus(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      let cumulative = 0;
+      [...this.bounds, Infinity].forEach((bound, i) => {
+        cumulative += buckets[i];
+        const le = bound === Infinity ? '+Inf' : String(bound);
+        lines.push(
+          `${this.name}_bucket${formatLabels(labels, { le })} ${cumulative}`,
+        );
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export const metrics = {
+  startedAt: Date.now(),
+  toolCalls: new Counter(
+    'antv_mcp_tool_calls_total',
+    'Tool calls by tool and status',
+  ),
+  toolDuration: new Histogram(
+    'antv_mcp_tool_duration_seconds',
+    'Duration of the tool calls in seconds',
+  ),
+  libraryRequests: new Counter(
+    'antv_mcp_library_requests_total',
+    'Tool calls by requested AntV library',
+  ),
+  backendRequests: new Counter(
+    'antv_mcp_backend_requests_total',
+    'Documentation backend requests by backend and result (success, empty, error)',
+  ),
+  backendDuration: new Histogram(
+    'antv_mcp_backend_duration_seconds',
+    'Duration of the documentation backend requests in seconds',
+  ),
+  cacheLookups: new Counter(
+    'antv_mcp_cache_lookups_total',
+    'Documentation cache lookups by result (hit, stale, miss)',
+  ),
+};
+
+const ALL_METRICS = [
+  metrics.toolCalls,
+  metrics.toolDuration,
+  metrics.libraryRequests,
+  metrics.backendRequests,
+  metrics.backendDuration,
+  metrics.cacheLookups,
+];
+
+/**
+ * Time a documentation backend request, counting its result as `empty` when
+ * it returns no documentation and `error` when it throws or returns an error.
+ */
+export async function trackBackendRequest<
+  T extends { documentation: string | null; error?: string },
+>(backend: string, request: () => Promise<T>): Promise<T> {
+  const stopTimer = metrics.backendDuration.startTimer({ backend });
+  let result: 'success' | 'empty' | 'error' = 'error';
+  try {
+    const response = await request();
+    if (response.documentation) result = 'success';
+    else if (!response.error) result = 'empty';
+    return response;
+  } finally {
+    stopTimer();
+    metrics.backendRequests.inc({ backend, result });
+  }
+}
+
+/**
+ * Time a tool call, counting it as an error when it throws or returns
+ * `isError`, and count the library it asks about.
+ */
+export async function trackToolCall<T extends { isError?: boolean }>(
+  tool: string,
+  args: unknown,
+  call: () => Promise<T>,
+): Promise<T> {
+  const library = (args as { library?: unknown } | undefined)?.library;
+  if (typeof library === 'string') metrics.libraryRequests.inc({ library });
+
+  const stopTimer = metrics.toolDuration.startTimer({ tool });
+  let status = 'error';
+  try {
+    const result = await call();
+    if (!result.isError) status = 'success';
+    return result;
+  } finally {
+    stopTimer();
+    metrics.toolCalls.inc({ tool, status });
+  }
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format.
+ */
+export function getPrometheusMetrics(): string {
+  const uptime = (Date.now() - metrics.startedAt) / 1000;
+  return [
+    '# HELP antv_mcp_uptime_seconds Seconds since the server started',
+    '# TYPE antv_mcp_uptime_seconds gauge',
+    `antv_mcp_uptime_seconds ${uptime}`,
+    ...ALL_METRICS.map((metric) => metric.toPrometheus()),
+    '',
+  ].join('\n');
+}
+
+export function resetMetrics(): void {
+  metrics.startedAt = Date.now();
+  ALL_METRICS.forEach((metric) => metric.reset());
+}
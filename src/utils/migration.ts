@@ -0,0 +1,967 @@
+/**
+ * G2 4.x to 5.x migration, rewrites the chain API statements of each chart,
+ * e.g. `chart.interval().position('x*y').color('type')`, into a single 5.x
+ * `chart.options()` spec, and reports what could not be translated.
+ */
+import ts from 'typescript';
+import {
+  getChainRoot,
+  getInstances,
+  parseCode,
+  walk,
+  type CodeLanguage,
+} from './conventions';
+import {
+  RawCode,
+  isObject,
+  printSpec,
+  type SpecObject,
+  type SpecValue,
+} from './spec';
+
+export type MigrationMapping = {
+  line: number;
+  /** 4.x code, e.g. `position('genre*sold')`. */
+  from: string;
+  /** 5.x equivalent, e.g. `encode: { x: 'genre', y: 'sold' }`. */
+  to: string;
+  note?: string;
+};
+
+export type UntranslatedCode = {
+  line: number;
+  code: string;
+  reason: string;
+};
+
+export type MigrationResult = {
+  code: string;
+  mappings: MigrationMapping[];
+  untranslated: UntranslatedCode[];
+  /** 5.x APIs used by the migrated code, to look up in the documentation. */
+  apis: string[];
+};
+
+type ChainCall = {
+  name: string;
+  args: ts.NodeArray<ts.Expression>;
+  node: ts.CallExpression;
+};
+
+/** Thrown by the handlers of calls that cannot be translated. */
+class UntranslatableError extends Error {}
+
+// 4.x geometries and their 5.x marks
+const GEOMETRY_MARKS: Record<string, { type: string; note?: string }> = {
+  interval: { type: 'interval' },
+  line: { type: 'line' },
+  area: { type: 'area' },
+  point: { type: 'point' },
+  polygon: { type: 'polygon' },
+  heatmap: { type: 'heatmap' },
+  path: {
+    type: 'line',
+    note: '`path` connects points in data order, keep the data sorted as needed',
+  },
+  edge: { type: 'link', note: 'The `link` mark expects x and y pairs' },
+  schema: {
+    type: 'box',
+    note: 'The `box` mark expects the precomputed box values, use `boxplot` for raw data',
+  },
+};
+
+// 4.x adjusts and their 5.x transforms
+const ADJUST_TRANSFORMS: Record<string, string> = {
+  stack: 'stackY',
+  dodge: 'dodgeX',
+  jitter: 'jitter',
+  symmetric: 'symmetryY',
+};
+
+// 4.x interactions and their 5.x equivalents
+const INTERACTIONS: Record<string, string> = {
+  'element-active': 'elementHighlight',
+  'element-highlight': 'elementHighlight',
+  'element-highlight-by-color': 'elementHighlightByColor',
+  'element-highlight-by-x': 'elementHighlightByX',
+  'element-selected': 'elementSelect',
+  'element-single-selected': 'elementSelect',
+  'legend-filter': 'legendFilter',
+  'legend-highlight': 'legendHighlight',
+  brush: 'brushHighlight',
+  'brush-x': 'brushXHighlight',
+  'brush-y': 'brushYHighlight',
+};
+
+// Chart methods unchanged in 5.x, left as they are
+const UNCHANGED_METHODS = new Set([
+  'options',
+  'render',
+  'on',
+  'off',
+  'once',
+  'emit',
+]);
+
+// 4.x scale types renamed in 5.x
+const SCALE_TYPES: Record<string, string> = {
+  cat: 'band',
+  timeCat: 'band',
+};
+
+const COLOR_PATTERN = /^(#[\da-f]{3,8}|rgba?\(|hsla?\()/i;
+
+/**
+ * Convert an expression to a spec value, keeping the code of anything but
+ * literals, arrays and plain objects.
+ */
+function toSpecValue(
+  node: ts.Expression,
+  sourceFile: ts.SourceFile,
+): SpecValue {
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map((e) => toSpecValue(e, sourceFile));
+  }
+  if (
+    ts.isObjectLiteralExpression(node) &&
+    node.properties.every(
+      (p) =>
+        ts.isPropertyAssignment(p) &&
+        (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name)),
+    )
+  ) {
+    const object: SpecObject = {};
+    for (const p of node.properties as ts.NodeArray<ts.PropertyAssignment>) {
+      object[(p.name as ts.Identifier).text] = toSpecValue(
+        p.initializer,
+        sourceFile,
+      );
+    }
+    return object;
+  }
+  return new RawCode(node.getText(sourceFile));
+}
+
+function getLiteral(node: ts.Expression | undefined): string | null {
+  return node && ts.isStringLiteralLike(node) ? node.text : null;
+}
+
+function isNull(node: ts.Expression | undefined): boolean {
+  return node?.kind === ts.SyntaxKind.NullKeyword;
+}
+
+/**
+ * Flatten a call chain, e.g. `chart.interval().position('x*y')`, into its
+ * calls from the root.
+ */
+function flattenChain(expression: ts.Expression): ChainCall[] {
+  const calls: ChainCall[] = [];
+  let current = expression;
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    calls.unshift({
+      name: current.expression.name.text,
+      args: current.arguments,
+      node: current,
+    });
+    current = current.expression.expression;
+  }
+  return calls;
+}
+
+function getCallText(call: ChainCall, sourceFile: ts.SourceFile): string {
+  return `${call.name}(${call.args.map((a) => a.getText(sourceFile)).join(', ')})`;
+}
+
+function merge(target: SpecObject, key: string, value: SpecObject): void {
+  target[key] = { ...(isObject(target[key]) ? target[key] : {}), ...value };
+}
+
+/**
+ * Migrate the chain API statements of a chart in a statement list.
+ */
+class ChartMigration {
+  readonly view: SpecObject = {};
+  readonly marks: SpecObject[] = [];
+  // Encoded fields and their channels, to key scales, axes and legends
+  private readonly channels = new Map<string, string[]>();
+
+  // Calls left out of the translated statements
+  readonly skipped: UntranslatedCode[] = [];
+
+  constructor(
+    private readonly sourceFile: ts.SourceFile,
+    private readonly mappings: MigrationMapping[],
+    private readonly untranslated: UntranslatedCode[],
+  ) {}
+
+  private line(node: ts.Node): number {
+    return (
+      this.sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(this.sourceFile),
+      ).line + 1
+    );
+  }
+
+  private text(node: ts.Node): string {
+    return node.getText(this.sourceFile);
+  }
+
+  private value(node: ts.Expression): SpecValue {
+    return toSpecValue(node, this.sourceFile);
+  }
+
+  private map(call: ChainCall, to: SpecObject | string, note?: string): void {
+    this.mappings.push({
+      line: this.line(call.node),
+      from: getCallText(call, this.sourceFile),
+      to:
+        typeof to === 'string'
+          ? to
+          : Object.entries(to)
+              .map(([k, v]) => `${k}: ${printSpec(v)}`)
+              .join(', '),
+      ...(note ? { note } : {}),
+    });
+  }
+
+  private skip(call: ChainCall, reason: string): void {
+    const skipped = {
+      line: this.line(call.node),
+      code: getCallText(call, this.sourceFile),
+      reason,
+    };
+    this.skipped.push(skipped);
+    this.untranslated.push(skipped);
+  }
+
+  /**
+   * Get the channel encoding a field, the first of the preferred channels
+   * when it encodes several, e.g. `color` for a legend.
+   */
+  private getChannel(field: string | null, preferred: string[] = []): string {
+    if (field === null) {
+      throw new UntranslatableError('The field must be a string literal');
+    }
+    const channels = this.channels.get(field) || [];
+    const channel = preferred.find((c) => channels.includes(c)) || channels[0];
+    if (!channel) {
+      throw new UntranslatableError(
+        `The field \`${field}\` is not encoded by any mark, 5.x configures scales, axes and legends by channel`,
+      );
+    }
+    return channel;
+  }
+
+  private encode(mark: SpecObject, channel: string, field: string): void {
+    merge(mark, 'encode', { [channel]: field });
+    this.channels.set(field, [...(this.channels.get(field) || []), channel]);
+  }
+
+  /**
+   * Translate a geometry chain, e.g. `chart.interval().position('x*y')`.
+   */
+  addMark(calls: ChainCall[]): void {
+    const [geometry, ...rest] = calls;
+    const { type, note } = GEOMETRY_MARKS[geometry.name];
+    const mark: SpecObject = { type };
+    this.marks.push(mark);
+    this.map(geometry, { type }, note);
+
+    for (const call of rest) {
+      try {
+        this.translateMarkCall(mark, call);
+      } catch (error) {
+        if (!(error instanceof UntranslatableError)) throw error;
+        this.skip(call, error.message);
+      }
+    }
+  }
+
+  private translateMarkCall(mark: SpecObject, call: ChainCall): void {
+    const [first, second] = call.args;
+    const literal = getLiteral(first);
+
+    switch (call.name) {
+      case 'position': {
+        if (literal === null) {
+          throw new UntranslatableError(
+            'The position must be a string literal',
+          );
+        }
+        const fields = literal.split('*');
+        const encode: SpecObject = {};
+        ['x', 'y'].forEach((channel, i) => {
+          if (!fields[i]) return;
+          encode[channel] = fields[i];
+          this.encode(mark, channel, fields[i]);
+        });
+        this.map(call, { encode });
+        return;
+      }
+      case 'color':
+      case 'size':
+      case 'shape': {
+        if (second && !ts.isArrayLiteralExpression(second)) {
+          throw new UntranslatableError(
+            `Callbacks of \`${call.name}()\` receive the field values, 5.x encode callbacks receive the datum`,
+          );
+        }
+        if (first && ts.isNumericLiteral(first)) {
+          this.encodeConstant(mark, call, call.name, Number(first.text));
+          return;
+        }
+        if (literal === null || literal.includes('*')) {
+          throw new UntranslatableError(
+            `\`${call.name}()\` must map a single field or constant`,
+          );
+        }
+        if (call.name === 'color' && COLOR_PATTERN.test(literal)) {
+          const style = {
+            [getMarkType(mark) === 'line' ? 'stroke' : 'fill']: literal,
+          };
+          merge(mark, 'style', style);
+          this.map(call, { style });
+          return;
+        }
+        if (call.name === 'shape' && !second) {
+          this.encodeConstant(mark, call, 'shape', literal);
+          return;
+        }
+        this.encode(mark, call.name, literal);
+        const spec: SpecObject = { encode: { [call.name]: literal } };
+        if (second) {
+          const scale = { [call.name]: { range: this.value(second) } };
+          Object.entries(scale).forEach(([k, v]) =>
+            merge(mark, 'scale', { [k]: v }),
+          );
+          spec.scale = scale;
+        }
+        this.map(call, spec);
+        return;
+      }
+      case 'label': {
+        if (first?.kind === ts.SyntaxKind.FalseKeyword) {
+          this.map(call, 'no labels');
+          return;
+        }
+        if (literal === null || literal.includes('*')) {
+          throw new UntranslatableError('The label must map a single field');
+        }
+        const label: SpecObject = { text: literal };
+        const notes: string[] = [];
+        const config = second ? this.value(second) : {};
+        if (!isObject(config)) {
+          throw new UntranslatableError(
+            'Label callbacks are not translated, use the `text` and `formatter` label options',
+          );
+        }
+        for (const [key, value] of Object.entries(config)) {
+          if (key === 'style' && isObject(value)) Object.assign(label, value);
+          else if (key === 'position') label.position = value;
+          else if (key === 'content') {
+            label.text = value;
+            notes.push(
+              '`content` callbacks become `text` callbacks of the datum',
+            );
+          } else if (key === 'offset') {
+            label.dy = value;
+            notes.push('`offset` becomes `dx`/`dy`, check the direction');
+          } else {
+            notes.push(
+              `\`${key}\` is not translated, see the 5.x label options`,
+            );
+          }
+        }
+        mark.labels = [
+          ...(Array.isArray(mark.labels) ? mark.labels : []),
+          label,
+        ];
+        this.map(call, { labels: [label] }, notes.join('; ') || undefined);
+        return;
+      }
+      case 'tooltip': {
+        if (first?.kind === ts.SyntaxKind.FalseKeyword) {
+          mark.tooltip = false;
+          this.map(call, { tooltip: false });
+          return;
+        }
+        if (literal === null || second) {
+          throw new UntranslatableError(
+            'Tooltip callbacks are not translated, use `tooltip: { items: [(d) => ({ name, value })] }`',
+          );
+        }
+        const tooltip = {
+          items: literal.split('*').map((field) => ({ field })),
+        };
+        mark.tooltip = tooltip;
+        this.map(call, { tooltip });
+        return;
+      }
+      case 'adjust': {
+        const adjusts = first ? this.value(first) : [];
+        const transform = (Array.isArray(adjusts) ? adjusts : [adjusts]).map(
+          (adjust) => {
+            const name = isObject(adjust) ? adjust.type : adjust;
+            if (typeof name !== 'string' || !ADJUST_TRANSFORMS[name]) {
+              throw new UntranslatableError(
+                `Unknown adjust ${printSpec(adjust)}`,
+              );
+            }
+            return { type: ADJUST_TRANSFORMS[name] };
+          },
+        );
+        mark.transform = [
+          ...(Array.isArray(mark.transform) ? mark.transform : []),
+          ...transform,
+        ];
+        this.map(
+          call,
+          { transform },
+          this.text(call.node).includes('marginRatio')
+            ? '`marginRatio` becomes the `padding` of the x scale'
+            : undefined,
+        );
+        return;
+      }
+      case 'style': {
+        const style = first ? this.value(first) : {};
+        if (!isObject(style) || second) {
+          throw new UntranslatableError(
+            'Style callbacks are not translated, use `style: { fill: (d) => ... }`',
+          );
+        }
+        merge(mark, 'style', style);
+        this.map(call, { style });
+        return;
+      }
+      case 'animate': {
+        if (first?.kind !== ts.SyntaxKind.FalseKeyword) {
+          throw new UntranslatableError(
+            'Animations are configured with `animate: { enter, update, exit }` in 5.x',
+          );
+        }
+        mark.animate = false;
+        this.map(call, { animate: false });
+        return;
+      }
+      case 'state': {
+        const states = first ? this.value(first) : null;
+        if (!isObject(states)) {
+          throw new UntranslatableError('The states must be an object');
+        }
+        const state: SpecObject = {};
+        for (const [name, value] of Object.entries(states)) {
+          state[name] =
+            isObject(value) && isObject(value.style) ? value.style : value;
+        }
+        mark.state = state;
+        this.map(
+          call,
+          { state },
+          'State styles are no longer nested in `style`',
+        );
+        return;
+      }
+      default:
+        throw new UntranslatableError(
+          `\`${call.name}()\` has no 5.x equivalent in the migration rules`,
+        );
+    }
+  }
+
+  private encodeConstant(
+    mark: SpecObject,
+    call: ChainCall,
+    channel: string,
+    value: string | number,
+  ): void {
+    merge(mark, 'encode', { [channel]: value });
+    this.map(call, { encode: { [channel]: value } });
+  }
+
+  /**
+   * Translate a chart call other than a geometry, e.g. `chart.scale()`.
+   */
+  addChartCall(calls: ChainCall[]): void {
+    const [call, ...rest] = calls;
+    const [first, second] = call.args;
+    const view = this.view;
+
+    switch (call.name) {
+      case 'data': {
+        view.data = this.value(first);
+        this.map(call, { data: view.data });
+        return;
+      }
+      case 'scale': {
+        const scales =
+          first && ts.isStringLiteralLike(first)
+            ? [[first, second] as const]
+            : first && ts.isObjectLiteralExpression(first)
+              ? first.properties
+                  .filter(ts.isPropertyAssignment)
+                  .map((p) => [p.name, p.initializer] as const)
+              : [];
+        if (scales.length === 0) {
+          throw new UntranslatableError('The scales must be literals');
+        }
+        for (const [field, config] of scales) {
+          const channel = this.getChannel(
+            ts.isStringLiteralLike(field) || ts.isIdentifier(field)
+              ? field.text
+              : null,
+          );
+          const options = config ? this.value(config) : {};
+          if (!isObject(options)) {
+            throw new UntranslatableError(
+              'The scale options must be an object',
+            );
+          }
+          const scale: SpecObject = {};
+          const axis: SpecObject = {};
+          for (const [key, value] of Object.entries(options)) {
+            if (key === 'alias') axis.title = value;
+            else if (key === 'formatter') axis.labelFormatter = value;
+            else if (key === 'values') scale.domain = value;
+            else if (key === 'type' && typeof value === 'string') {
+              scale.type = SCALE_TYPES[value] || value;
+            } else scale[key] = value;
+          }
+          const spec: SpecObject = {};
+          if (Object.keys(scale).length > 0) {
+            merge(view, 'scale', { [channel]: scale });
+            spec.scale = { [channel]: scale };
+          }
+          if (Object.keys(axis).length > 0) {
+            merge(view, 'axis', { [channel]: axis });
+            spec.axis = { [channel]: axis };
+          }
+          this.map(
+            call,
+            spec,
+            Object.keys(axis).length > 0
+              ? '`alias` and `formatter` are axis options in 5.x'
+              : undefined,
+          );
+        }
+        return;
+      }
+      case 'axis': {
+        const channel = this.getChannel(getLiteral(first), ['x', 'y']);
+        if (second?.kind === ts.SyntaxKind.FalseKeyword) {
+          merge(view, 'axis', { [channel]: false });
+          this.map(call, { axis: { [channel]: false } });
+          return;
+        }
+        const options = second ? this.value(second) : {};
+        if (!isObject(options)) {
+          throw new UntranslatableError('The axis options must be an object');
+        }
+        const axis: SpecObject = {};
+        const notes: string[] = [];
+        for (const [key, value] of Object.entries(options)) {
+          const node =
+            second && ts.isObjectLiteralExpression(second)
+              ? second.properties
+                  .filter(ts.isPropertyAssignment)
+                  .find((p) => this.text(p.name) === key)?.initializer
+              : undefined;
+          if (
+            isNull(node) &&
+            ['title', 'label', 'grid', 'line', 'tickLine'].includes(key)
+          ) {
+            axis[key === 'tickLine' ? 'tick' : key] = false;
+          } else if (key === 'title' && isObject(value) && value.text) {
+            axis.title = value.text;
+          } else if (key === 'label' && isObject(value) && value.formatter) {
+            axis.labelFormatter = value.formatter;
+          } else if (key === 'position') {
+            axis.position = value;
+          } else {
+            notes.push(
+              `\`${key}\` is not translated, see the 5.x axis options`,
+            );
+          }
+        }
+        merge(view, 'axis', { [channel]: axis });
+        this.map(
+          call,
+          { axis: { [channel]: axis } },
+          notes.join('; ') || undefined,
+        );
+        return;
+      }
+      case 'legend': {
+        if (first?.kind === ts.SyntaxKind.FalseKeyword) {
+          view.legend = false;
+          this.map(call, { legend: false });
+          return;
+        }
+        const [channel, config] =
+          first && ts.isStringLiteralLike(first)
+            ? [this.getChannel(first.text, ['color', 'shape', 'size']), second]
+            : ['color', first];
+        if (config?.kind === ts.SyntaxKind.FalseKeyword) {
+          merge(view, 'legend', { [channel]: false });
+          this.map(call, { legend: { [channel]: false } });
+          return;
+        }
+        const options = config ? this.value(config) : {};
+        if (!isObject(options)) {
+          throw new UntranslatableError('The legend options must be an object');
+        }
+        const legend: SpecObject = {};
+        const notes: string[] = [];
+        for (const [key, value] of Object.entries(options)) {
+          if (key === 'position' && typeof value === 'string') {
+            legend.position = value.split('-')[0];
+            if (value.includes('-')) {
+              notes.push(
+                '5.x positions are `top`, `bottom`, `left` and `right`',
+              );
+            }
+          } else {
+            notes.push(
+              `\`${key}\` is not translated, see the 5.x legend options`,
+            );
+          }
+        }
+        merge(view, 'legend', { [channel]: legend });
+        this.map(
+          call,
+          { legend: { [channel]: legend } },
+          notes.join('; ') || undefined,
+        );
+        return;
+      }
+      case 'tooltip': {
+        if (first?.kind === ts.SyntaxKind.FalseKeyword) {
+          view.tooltip = false;
+          this.map(call, 'tooltip: false on each mark');
+          return;
+        }
+        const options = first ? this.value(first) : {};
+        if (!isObject(options)) {
+          throw new UntranslatableError(
+            'The tooltip options must be an object',
+          );
+        }
+        const tooltip: SpecObject = {};
+        const notes: string[] = [];
+        for (const [key, value] of Object.entries(options)) {
+          if (key === 'shared') tooltip.shared = value;
+          else if (key === 'showCrosshairs') tooltip.crosshairs = value;
+          else if (key === 'showMarkers') tooltip.marker = value;
+          else
+            notes.push(
+              `\`${key}\` is not translated, see the 5.x tooltip interaction`,
+            );
+        }
+        merge(view, 'interaction', { tooltip });
+        this.map(
+          call,
+          { interaction: { tooltip } },
+          notes.join('; ') || undefined,
+        );
+        return;
+      }
+      case 'coordinate': {
+        const coordinate: SpecObject = {};
+        const options =
+          first && ts.isObjectLiteralExpression(first)
+            ? this.value(first)
+            : null;
+        const name = isObject(options)
+          ? options.type
+          : first
+            ? this.value(first)
+            : 'rect';
+        const config = isObject(options)
+          ? options.cfg
+          : second && this.value(second);
+        if (typeof name !== 'string') {
+          throw new UntranslatableError(
+            'The coordinate type must be a string literal',
+          );
+        }
+        if (name !== 'rect') coordinate.type = name;
+        if (isObject(config)) {
+          for (const [key, value] of Object.entries(config)) {
+            coordinate[key === 'radius' ? 'outerRadius' : key] = value;
+          }
+        }
+        const transform: SpecObject[] = [];
+        for (const action of rest) {
+          if (action.name !== 'transpose') {
+            throw new UntranslatableError(
+              `\`coordinate().${action.name}()\` has no 5.x equivalent in the migration rules`,
+            );
+          }
+          transform.push({ type: 'transpose' });
+        }
+        if (transform.length > 0) coordinate.transform = transform;
+        view.coordinate = coordinate;
+        this.map(call, { coordinate });
+        return;
+      }
+      case 'interaction': {
+        const name = getLiteral(first);
+        if (!name || !INTERACTIONS[name]) {
+          throw new UntranslatableError(
+            `The \`${name}\` interaction has no 5.x equivalent in the migration rules`,
+          );
+        }
+        merge(view, 'interaction', { [INTERACTIONS[name]]: true });
+        this.map(call, { interaction: { [INTERACTIONS[name]]: true } });
+        return;
+      }
+      case 'theme': {
+        if (!first || !ts.isStringLiteralLike(first)) {
+          throw new UntranslatableError('Custom themes are not translated');
+        }
+        view.theme = { type: first.text };
+        this.map(call, { theme: view.theme });
+        return;
+      }
+      case 'annotation':
+        throw new UntranslatableError(
+          'Annotations are marks in 5.x, add `lineX`, `lineY`, `text`, `image` or `rangeX` marks as children of the view',
+        );
+      default:
+        throw new UntranslatableError(
+          `\`${call.name}()\` has no 5.x equivalent in the migration rules`,
+        );
+    }
+  }
+
+  /**
+   * Build the 5.x spec, a single mark or a view of marks.
+   */
+  toSpec(): SpecObject {
+    const { tooltip, data, ...view } = this.view;
+    const marks = this.marks.map((mark) =>
+      tooltip === false ? { ...mark, tooltip: false } : mark,
+    );
+    if (marks.length === 1) {
+      const [{ type, ...mark }] = marks;
+      const spec: SpecObject = { type, ...(data ? { data } : {}), ...mark };
+      for (const [key, value] of Object.entries(view)) {
+        if (isObject(value) && isObject(spec[key])) merge(spec, key, value);
+        else spec[key] = value;
+      }
+      return spec;
+    }
+    return {
+      type: 'view',
+      ...(data ? { data } : {}),
+      ...view,
+      children: marks,
+    };
+  }
+}
+
+function getMarkType(mark: SpecObject): string {
+  return String(mark.type);
+}
+
+function getIndent(code: string, position: number): string {
+  const start = code.lastIndexOf('\n', position - 1) + 1;
+  return code.slice(start, position).match(/^\s*/)?.[0] || '';
+}
+
+/**
+ * Migrate G2 4.x code to the 5.x `options()` API. Statements that cannot be
+ * translated are kept with a TODO comment.
+ */
+export function migrateG2Code(params: {
+  code: string;
+  language?: CodeLanguage;
+}): MigrationResult {
+  const { code, language = 'tsx' } = params;
+  const sourceFile = parseCode(code, language);
+  const charts = getInstances(sourceFile, (name) =>
+    ['Chart', 'G2.Chart'].includes(name),
+  );
+  const mappings: MigrationMapping[] = [];
+  const untranslated: UntranslatedCode[] = [];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const apis = new Set<string>();
+
+  // Remove a statement with its line when nothing else is on it
+  const remove = (node: ts.Node) => {
+    let start = node.getStart(sourceFile);
+    let end = node.getEnd();
+    const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = code.indexOf('\n', end);
+    if (!code.slice(lineStart, start).trim()) start = lineStart;
+    if (!code.slice(end, lineEnd === -1 ? code.length : lineEnd).trim()) {
+      end = lineEnd === -1 ? code.length : lineEnd + 1;
+    }
+    edits.push({ start, end, text: '' });
+  };
+
+  // 4.x `padding: [top, right, bottom, left]` of the constructor
+  walk(sourceFile, (node) => {
+    if (
+      !ts.isNewExpression(node) ||
+      !['Chart', 'G2.Chart'].includes(node.expression.getText(sourceFile))
+    ) {
+      return;
+    }
+    const options = node.arguments?.[0];
+    if (!options || !ts.isObjectLiteralExpression(options)) return;
+    for (const p of options.properties) {
+      if (
+        !ts.isPropertyAssignment(p) ||
+        p.name.getText(sourceFile) !== 'padding' ||
+        !ts.isArrayLiteralExpression(p.initializer)
+      ) {
+        continue;
+      }
+      const sides = [
+        'paddingTop',
+        'paddingRight',
+        'paddingBottom',
+        'paddingLeft',
+      ];
+      const values = p.initializer.elements.map((e) => e.getText(sourceFile));
+      const text = sides
+        .map((side, i) => `${side}: ${values[i] ?? values[i % 2] ?? values[0]}`)
+        .join(', ');
+      edits.push({ start: p.getStart(sourceFile), end: p.getEnd(), text });
+      mappings.push({
+        line:
+          sourceFile.getLineAndCharacterOfPosition(p.getStart(sourceFile))
+            .line + 1,
+        from: p.getText(sourceFile),
+        to: text,
+      });
+    }
+  });
+
+  // Statement lists holding chart statements, e.g. the file or a callback
+  const lists: ts.NodeArray<ts.Statement>[] = [sourceFile.statements];
+  walk(sourceFile, (node) => {
+    if (ts.isBlock(node) || ts.isModuleBlock(node)) lists.push(node.statements);
+  });
+
+  for (const statements of lists) {
+    for (const chart of charts) {
+      const chained = statements
+        .filter(ts.isExpressionStatement)
+        .map((statement) => ({
+          statement,
+          calls: flattenChain(statement.expression),
+          root: getChainRoot(statement.expression),
+        }))
+        .filter(({ root, calls }) => root?.text === chart && calls.length > 0);
+      const translatable = chained.filter(
+        ({ calls }) => !UNCHANGED_METHODS.has(calls[0].name),
+      );
+      if (translatable.length === 0) continue;
+
+      const migration = new ChartMigration(sourceFile, mappings, untranslated);
+      // Marks first, scales, axes and legends are keyed by their channels
+      const ordered = [
+        ...translatable.filter(({ calls }) => GEOMETRY_MARKS[calls[0].name]),
+        ...translatable.filter(({ calls }) => !GEOMETRY_MARKS[calls[0].name]),
+      ];
+      const kept = new Set<ts.Statement>();
+      for (const { statement, calls } of ordered) {
+        try {
+          if (GEOMETRY_MARKS[calls[0].name]) migration.addMark(calls);
+          else migration.addChartCall(calls);
+        } catch (error) {
+          if (!(error instanceof UntranslatableError)) throw error;
+          kept.add(statement);
+          untranslated.push({
+            line:
+              sourceFile.getLineAndCharacterOfPosition(
+                statement.getStart(sourceFile),
+              ).line + 1,
+            code: statement.getText(sourceFile),
+            reason: error.message,
+          });
+        }
+      }
+
+      // Replace the first translated statement with the spec
+      const translated = translatable.filter(
+        ({ statement }) => !kept.has(statement),
+      );
+      if (translated.length === 0) continue;
+      const spec = migration.toSpec();
+      const [first, ...others] = translated.map(({ statement }) => statement);
+      const indent = getIndent(code, first.getStart(sourceFile));
+      const todos = migration.skipped.map(
+        ({ code, reason }) =>
+          `// TODO(G2 5.x): \`${code}\` - ${reason}\n${indent}`,
+      );
+      edits.push({
+        start: first.getStart(sourceFile),
+        end: first.getEnd(),
+        text: `${todos.join('')}${chart}.options(${printSpec(spec, indent)});`,
+      });
+      others.forEach(remove);
+      for (const { statement } of translatable.filter(({ statement }) =>
+        kept.has(statement),
+      )) {
+        const position = statement.getStart(sourceFile);
+        const reason = untranslated.find(
+          (u) => u.code === statement.getText(sourceFile),
+        )?.reason;
+        edits.push({
+          start: position,
+          end: position,
+          text: `// TODO(G2 5.x): ${reason}\n${getIndent(code, position)}`,
+        });
+      }
+
+      apis.add('options');
+      for (const mark of migration.marks) apis.add(getMarkType(mark));
+      const collect = (value: SpecValue) => {
+        if (!isObject(value)) return;
+        for (const key of [
+          'scale',
+          'axis',
+          'legend',
+          'labels',
+          'tooltip',
+          'coordinate',
+          'interaction',
+        ]) {
+          if (value[key] !== undefined) apis.add(key);
+        }
+        if (Array.isArray(value.transform)) {
+          value.transform.forEach(
+            (t) => isObject(t) && apis.add(String(t.type)),
+          );
+        }
+        if (Array.isArray(value.children)) value.children.forEach(collect);
+      };
+      collect(spec);
+    }
+  }
+
+  // Apply the edits from the end, insertions before removals at a position
+  let migrated = code;
+  edits
+    .sort((a, b) => b.start - a.start || a.end - a.start - (b.end - b.start))
+    .forEach(({ start, end, text }) => {
+      migrated = migrated.slice(0, start) + text + migrated.slice(end);
+    });
+
+  return {
+    code: migrated,
+    mappings: mappings.sort((a, b) => a.line - b.line),
+    untranslated: untranslated.sort((a, b) => a.line - b.line),
+    apis: Array.from(apis),
+  };
+}
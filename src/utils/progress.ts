@@ -0,0 +1,96 @@
+/**
+ * MCP progress notifications, sent while a tool runs when the client asks
+ * for them with a progress token.
+ */
+import type { ToolExtra } from '../types';
+import { logger } from './logger';
+
+/**
+ * Progress of a task in its unit: started, requesting a backend, finished.
+ * The remainder is left for the final phase, so that progress keeps
+ * increasing until the total.
+ */
+export const TASK_PROGRESS = {
+  started: 0.1,
+  request: 0.1,
+  finished: 0.9,
+};
+
+/**
+ * Report the progress of concurrent tasks, one unit each, the total being the
+ * number of tasks. Notifications are only sent when the progress increases,
+ * as the protocol requires, and never when the client sent no token.
+ */
+export class ProgressReporter {
+  private readonly tasks: number[];
+  private progress = 0;
+
+  constructor(
+    private readonly extra: ToolExtra | undefined,
+    readonly total: number,
+  ) {
+    this.tasks = new Array(total).fill(0);
+  }
+
+  /**
+   * Mark a task as started.
+   */
+  start(task: number, message: string): void {
+    this.advance(task, TASK_PROGRESS.started, message);
+  }
+
+  /**
+   * Move a task forward while it requests a backend, up to before finished.
+   */
+  step(task: number, message: string): void {
+    this.advance(
+      task,
+      Math.min(
+        this.tasks[task] + TASK_PROGRESS.request,
+        TASK_PROGRESS.finished - TASK_PROGRESS.request,
+      ),
+      message,
+    );
+  }
+
+  /**
+   * Mark a task as finished.
+   */
+  finish(task: number, message: string): void {
+    this.advance(task, TASK_PROGRESS.finished, message);
+  }
+
+  /**
+   * Report the final phase, reaching the total.
+   */
+  complete(message: string): void {
+    this.tasks.fill(1);
+    this.send(message);
+  }
+
+  private advance(task: number, value: number, message: string): void {
+    if (value <= this.tasks[task]) return;
+    this.tasks[task] = value;
+    this.send(message);
+  }
+
+  private send(message: string): void {
+    // Round away the floating point noise of the sum
+    const progress =
+      Math.round(this.tasks.reduce((sum, t) => sum + t, 0) * 100) / 100;
+    const { extra } = this;
+    const progressToken = extra?._meta?.progressToken;
+    if (!extra || progressToken === undefined || progress <= this.progress) {
+      return;
+    }
+    this.progress = progress;
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total: this.total, message },
+      })
+      .catch((error) => {
+        logger.debug('Failed to send progress notification:', error);
+      });
+  }
+}
@@ -0,0 +1,770 @@
+/**
+ * Chart recommendation from a data sample, infers the type of each field and
+ * ranks the G2 charts fitting them, with L7, G6 and S2 for geo, relational
+ * and tabular data.
+ */
+import type { AntVLibrary } from '../types';
+import { RawCode, printSpec, type SpecObject } from './spec';
+
+export type FieldType = 'temporal' | 'nominal' | 'quantitative' | 'geo';
+
+export type DataField = {
+  name: string;
+  type: FieldType;
+  /** Distinct values in the sample. */
+  distinct: number;
+  /** Empty values in the sample. */
+  missing: number;
+};
+
+export type AnalysisGoal =
+  | 'trend'
+  | 'comparison'
+  | 'composition'
+  | 'distribution'
+  | 'correlation'
+  | 'relationship'
+  | 'geo'
+  | 'detail';
+
+export type ChartCandidate = {
+  chart: string;
+  name: string;
+  library: AntVLibrary;
+  /** Fitness from 0 to 1. */
+  score: number;
+  reason: string;
+  /** Starting configuration, without the data. */
+  spec: SpecObject;
+  /** Starting code rendering the data with the spec. */
+  code: string;
+};
+
+export type ChartRecommendation = {
+  records: number;
+  fields: DataField[];
+  goal?: AnalysisGoal;
+  candidates: ChartCandidate[];
+};
+
+type DataRecord = Record<string, unknown>;
+
+type DataSample = {
+  records: DataRecord[];
+  /** Nodes of a `{ nodes, edges }` graph, its edges being the records. */
+  nodes?: DataRecord[];
+  /** Whether the records are the features of a GeoJSON. */
+  geojson?: boolean;
+};
+
+type RecommendContext = {
+  sample: DataSample;
+  /** Names of all the fields, in order of appearance. */
+  columns: string[];
+  fields: Record<FieldType, DataField[]>;
+  /** Fields of the edge ends, for relational data. */
+  edge: { source: string; target: string } | null;
+  /** Fields of the coordinates, for geo data. */
+  coordinates: { lng: string; lat: string } | null;
+};
+
+type ChartRule = {
+  chart: string;
+  name: string;
+  library: AntVLibrary;
+  goals: AnalysisGoal[];
+  /** Base score, spec and code of the chart, `null` when the data does not fit. */
+  recommend(
+    context: RecommendContext,
+  ): Omit<ChartCandidate, 'chart' | 'name' | 'library'> | null;
+};
+
+// Records to infer the field types from at most, a sample of large datasets
+const MAX_RECORDS = 1000;
+
+// Score added to the charts serving the analysis goal
+const GOAL_BONUS = 0.25;
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const DATE_PATTERN =
+  /^\d{4}([-/.]\d{1,2}([-/.]\d{1,2})?)?([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const TEMPORAL_NAME_PATTERN =
+  /(date|time|year|month|day|week|quarter|日期|时间|年份|月份)/i;
+const LONGITUDE_PATTERN = /^(lng|lon|long|longitude|经度)$/i;
+const LATITUDE_PATTERN = /^(lat|latitude|纬度)$/i;
+const REGION_PATTERN =
+  /(country|province|city|region|district|county|国家|省份|城市|地区|区县)/i;
+const SOURCE_PATTERN = /^(source|from|src)$/i;
+const TARGET_PATTERN = /^(target|to|dst)$/i;
+
+// Goals of the analysis, the earliest match in the goal wins
+const GOAL_PATTERNS: Array<[AnalysisGoal, RegExp]> = [
+  ['trend', /trend|over time|growth|evolution|趋势|变化|增长|走势/i],
+  ['comparison', /compar|rank|\btop\b|\bvs\b|versus|对比|比较|排名|排行/i],
+  [
+    'composition',
+    /composition|proportion|share|percentage|breakdown|占比|比例|构成|组成/i,
+  ],
+  ['distribution', /distribution|spread|histogram|outlier|分布|离群/i],
+  ['correlation', /correlat|relationship between|相关/i],
+  [
+    'relationship',
+    /network|graph|relation|link|flow|connection|topolog|关系|网络|拓扑|流向/i,
+  ],
+  ['geo', /\bmaps?\b|geo|location|spatial|地图|地理|位置|空间/i],
+  ['detail', /table|detail|pivot|drill|明细|表格|透视|交叉/i],
+];
+
+function isRecord(value: unknown): value is DataRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function fromJson(json: unknown): DataSample {
+  if (Array.isArray(json)) return { records: json.filter(isRecord) };
+  if (isRecord(json)) {
+    // GeoJSON, the properties of the features with the point coordinates
+    if (json.type === 'FeatureCollection' && Array.isArray(json.features)) {
+      return {
+        records: json.features.filter(isRecord).map((feature) => {
+          const geometry = isRecord(feature.geometry) ? feature.geometry : {};
+          const properties = isRecord(feature.properties)
+            ? feature.properties
+            : {};
+          if (
+            geometry.type !== 'Point' ||
+            !Array.isArray(geometry.coordinates)
+          ) {
+            return properties;
+          }
+          const [lng, lat] = geometry.coordinates;
+          return { ...properties, lng, lat };
+        }),
+        geojson: true,
+      };
+    }
+    const edges = json.edges || json.links;
+    if (Array.isArray(json.nodes) && Array.isArray(edges)) {
+      return {
+        records: edges.filter(isRecord),
+        nodes: json.nodes.filter(isRecord),
+      };
+    }
+    // Wrapped records, e.g. `{ "data": [...] }`
+    const records = Object.values(json).find(Array.isArray);
+    if (records) return { records: records.filter(isRecord) };
+  }
+  throw new Error('The JSON data must be an array of records');
+}
+
+function toCsvValue(cell = ''): unknown {
+  const value = cell.trim();
+  if (value === '') return null;
+  return NUMBER_PATTERN.test(value) ? Number(value) : value;
+}
+
+function parseCsv(text: string): DataRecord[] {
+  const header = text.split('\n', 1)[0];
+  const delimiter = ['\t', ';'].reduce(
+    (best, d) =>
+      header.split(d).length > header.split(best).length ? d : best,
+    ',',
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+  rows.push([...row, cell]);
+
+  const [names, ...values] = rows.filter((r) => r.some((c) => c.trim()));
+  if (!names || values.length === 0) {
+    throw new Error('The CSV data must have a header row and a data row');
+  }
+  return values.map((cells) =>
+    Object.fromEntries(
+      names.map((name, i) => [name.trim(), toCsvValue(cells[i])]),
+    ),
+  );
+}
+
+/**
+ * Parse a JSON or CSV data sample into records. JSON may be an array of
+ * records, a `{ nodes, edges }` graph or a GeoJSON feature collection.
+ */
+export function parseDataSample(data: string): DataSample {
+  const text = data.trim();
+  let sample: DataSample;
+  if (/^[[{]/.test(text)) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON data: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    sample = fromJson(json);
+  } else {
+    sample = { records: parseCsv(text) };
+  }
+  if (sample.records.length === 0) {
+    throw new Error('The data sample has no records');
+  }
+  return { ...sample, records: sample.records.slice(0, MAX_RECORDS) };
+}
+
+function inferFieldType(name: string, values: unknown[]): FieldType {
+  const present = values.filter((v) => !isMissing(v));
+  if (present.length > 0 && present.every((v) => typeof v === 'number')) {
+    const numbers = present as number[];
+    if (
+      (LONGITUDE_PATTERN.test(name) &&
+        numbers.every((v) => Math.abs(v) <= 180)) ||
+      (LATITUDE_PATTERN.test(name) && numbers.every((v) => Math.abs(v) <= 90))
+    ) {
+      return 'geo';
+    }
+    // Years, e.g. `{ "year": 2024 }`
+    const isYear = numbers.every(
+      (v) => Number.isInteger(v) && v >= 1000 && v <= 9999,
+    );
+    return TEMPORAL_NAME_PATTERN.test(name) && isYear
+      ? 'temporal'
+      : 'quantitative';
+  }
+  if (
+    present.length > 0 &&
+    present.every((v) => typeof v === 'string' && DATE_PATTERN.test(v))
+  ) {
+    return 'temporal';
+  }
+  return REGION_PATTERN.test(name) ? 'geo' : 'nominal';
+}
+
+/**
+ * Infer the type of the fields of the records, in order of appearance.
+ */
+export function inferFields(records: DataRecord[]): DataField[] {
+  const names = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+  return names.map((name) => {
+    const values = records.map((r) => r[name]);
+    const present = values.filter((v) => !isMissing(v));
+    return {
+      name,
+      type: inferFieldType(name, values),
+      distinct: new Set(present.map((v) => JSON.stringify(v))).size,
+      missing: values.length - present.length,
+    };
+  });
+}
+
+/**
+ * Classify a free-text analysis goal, e.g. "sales trend by month".
+ */
+export function classifyGoal(goal?: string): AnalysisGoal | undefined {
+  let best: { goal: AnalysisGoal; index: number } | undefined;
+  for (const [candidate, pattern] of GOAL_PATTERNS) {
+    const index = goal?.search(pattern) ?? -1;
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { goal: candidate, index };
+    }
+  }
+  return best?.goal;
+}
+
+function getG2Code(spec: SpecObject): string {
+  const { type, ...rest } = spec;
+  return `import { Chart } from '@antv/g2';
+
+const chart = new Chart({ container: 'container', autoFit: true });
+chart.options(${printSpec({ type, data: new RawCode('data'), ...rest })});
+chart.render();`;
+}
+
+// Nominal fields and region names, the categories of the data
+function getCategories(fields: Record<FieldType, DataField[]>): DataField[] {
+  return [
+    ...fields.nominal,
+    ...fields.geo.filter((f) => REGION_PATTERN.test(f.name)),
+  ];
+}
+
+// A category to color by, if any with few enough values
+function getColorField(
+  fields: Record<FieldType, DataField[]>,
+  exclude?: DataField,
+): DataField | undefined {
+  return getCategories(fields).find((f) => f !== exclude && f.distinct <= 12);
+}
+
+const CHART_RULES: ChartRule[] = [
+  {
+    chart: 'point-map',
+    name: 'Point Map',
+    library: 'l7',
+    goals: ['geo', 'distribution'],
+    recommend({ sample, coordinates, fields }) {
+      if (!coordinates) return null;
+      const [size] = fields.quantitative;
+      const color = getColorField(fields);
+      const spec: SpecObject = {
+        type: 'PointLayer',
+        parser: { type: 'json', x: coordinates.lng, y: coordinates.lat },
+        shape: 'circle',
+        size: size ? { field: size.name, values: [4, 20] } : 6,
+        color: color ? { field: color.name } : '#5B8FF9',
+      };
+      const chain = [
+        sample.geojson
+          ? `.source(data)`
+          : `.source(data, ${printSpec({ parser: spec.parser })})`,
+        `.shape('circle')`,
+        size ? `.size('${size.name}', [4, 20])` : `.size(6)`,
+        color ? `.color('${color.name}')` : `.color('#5B8FF9')`,
+      ];
+      return {
+        score: 0.95,
+        reason: `\`${coordinates.lng}\` and \`${coordinates.lat}\` are coordinates, a point map places each record on the map${size ? ` sized by \`${size.name}\`` : ''}`,
+        spec,
+        code: `import { Scene, PointLayer } from '@antv/l7';
+import { GaodeMap } from '@antv/l7-maps';
+
+const scene = new Scene({
+  id: 'container',
+  map: new GaodeMap({ style: 'light', zoom: 3 }),
+});
+scene.on('loaded', () => {
+  const layer = new PointLayer()
+    ${chain.join('\n    ')};
+  scene.addLayer(layer);
+});`,
+      };
+    },
+  },
+  {
+    chart: 'choropleth',
+    name: 'Choropleth Map',
+    library: 'l7',
+    goals: ['geo', 'comparison'],
+    recommend({ sample, fields }) {
+      const [region] = fields.geo.filter((f) => REGION_PATTERN.test(f.name));
+      const [value] = fields.quantitative;
+      if (!value || (!region && !sample.geojson)) return null;
+      const spec: SpecObject = {
+        type: 'PolygonLayer',
+        shape: 'fill',
+        color: { field: value.name, values: ['#e6f7ff', '#1890ff', '#003a8c'] },
+        ...(region ? { join: region.name } : {}),
+      };
+      const source = region
+        ? `// Join the records to the region boundaries by \`${region.name}\`\n  const layer = new PolygonLayer()\n    .source(geojson)`
+        : `const layer = new PolygonLayer()\n    .source(data)`;
+      return {
+        // Region names need a join to boundaries, GeoJSON renders as is
+        score: region ? 0.75 : 0.85,
+        reason: `${region ? `\`${region.name}\` names regions` : 'The data is GeoJSON'}, a choropleth map colors each region by \`${value.name}\``,
+        spec,
+        code: `import { Scene, PolygonLayer } from '@antv/l7';
+import { GaodeMap } from '@antv/l7-maps';
+
+const scene = new Scene({
+  id: 'container',
+  map: new GaodeMap({ style: 'light', zoom: 3 }),
+});
+scene.on('loaded', () => {
+  ${source}
+    .shape('fill')
+    .color('${value.name}', ['#e6f7ff', '#1890ff', '#003a8c']);
+  scene.addLayer(layer);
+});`,
+      };
+    },
+  },
+  {
+    chart: 'graph',
+    name: 'Network Graph',
+    library: 'g6',
+    goals: ['relationship'],
+    recommend({ sample, edge, fields }) {
+      if (!edge) return null;
+      const [weight] = fields.quantitative;
+      const spec: SpecObject = {
+        layout: { type: 'force' },
+        behaviors: ['drag-canvas', 'zoom-canvas', 'drag-element'],
+      };
+      const data = sample.nodes
+        ? `const { nodes, edges = data.links } = data;`
+        : `const nodes = Array.from(
+  new Set(data.flatMap((d) => [d.${edge.source}, d.${edge.target}])),
+  (id) => ({ id: String(id) }),
+);
+const edges = data.map((d) => ({
+  source: String(d.${edge.source}),
+  target: String(d.${edge.target}),
+  data: d,
+}));`;
+      return {
+        score: 0.95,
+        reason: `\`${edge.source}\` and \`${edge.target}\` link records, a graph shows the network${weight ? ` weighted by \`${weight.name}\`` : ''}`,
+        spec,
+        code: `import { Graph } from '@antv/g6';
+
+${data}
+const graph = new Graph(${printSpec({
+          container: 'container',
+          data: new RawCode('{ nodes, edges }'),
+          ...spec,
+          ...(weight
+            ? {
+                edge: {
+                  style: {
+                    lineWidth: new RawCode(
+                      `(d) => Math.sqrt(d.data.${weight.name})`,
+                    ),
+                  },
+                },
+              }
+            : {}),
+        })});
+graph.render();`,
+      };
+    },
+  },
+  {
+    chart: 'line',
+    name: 'Line Chart',
+    library: 'g2',
+    goals: ['trend'],
+    recommend({ fields }) {
+      const [x] = fields.temporal;
+      const [y] = fields.quantitative;
+      if (!x || !y) return null;
+      const color = getColorField(fields);
+      const spec: SpecObject = {
+        type: 'line',
+        encode: {
+          x: x.name,
+          y: y.name,
+          ...(color ? { color: color.name } : {}),
+        },
+      };
+      return {
+        score: 0.85,
+        reason: `\`${x.name}\` is temporal, a line chart shows the trend of \`${y.name}\`${color ? ` for each \`${color.name}\`` : ''}`,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'area',
+    name: 'Area Chart',
+    library: 'g2',
+    goals: ['trend', 'composition'],
+    recommend({ fields }) {
+      const [x] = fields.temporal;
+      const [y] = fields.quantitative;
+      if (!x || !y) return null;
+      const color = getColorField(fields);
+      const spec: SpecObject = {
+        type: 'area',
+        encode: {
+          x: x.name,
+          y: y.name,
+          ...(color ? { color: color.name } : {}),
+        },
+        ...(color ? { transform: [{ type: 'stackY' }] } : {}),
+      };
+      return {
+        score: 0.7,
+        reason: color
+          ? `A stacked area chart shows the trend of \`${y.name}\` and the share of each \`${color.name}\``
+          : `An area chart shows the trend of \`${y.name}\` over \`${x.name}\``,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'bar',
+    name: 'Bar Chart',
+    library: 'g2',
+    goals: ['comparison'],
+    recommend({ sample, fields }) {
+      const [x] = getCategories(fields);
+      const [y] = fields.quantitative;
+      if (!x || !y) return null;
+      const color = getColorField(fields, x);
+      const transform = color
+        ? [{ type: 'dodgeX' }]
+        : x.distinct < sample.records.length
+          ? [{ type: 'groupX', y: 'sum' }]
+          : [{ type: 'sortX', by: 'y', reverse: true }];
+      const spec: SpecObject = {
+        type: 'interval',
+        encode: {
+          x: x.name,
+          y: y.name,
+          ...(color ? { color: color.name } : {}),
+        },
+        transform,
+      };
+      return {
+        score: x.distinct > 30 ? 0.6 : 0.8,
+        reason: `\`${x.name}\` is categorical, a bar chart compares \`${y.name}\` across its ${x.distinct} values${color ? `, grouped by \`${color.name}\`` : ''}`,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'pie',
+    name: 'Pie Chart',
+    library: 'g2',
+    goals: ['composition'],
+    recommend({ fields }) {
+      const color = getCategories(fields).find(
+        (f) => f.distinct >= 2 && f.distinct <= 8,
+      );
+      const [y] = fields.quantitative;
+      if (!color || !y) return null;
+      const spec: SpecObject = {
+        type: 'interval',
+        encode: { y: y.name, color: color.name },
+        transform: [{ type: 'stackY' }],
+        coordinate: { type: 'theta', outerRadius: 0.8 },
+      };
+      return {
+        score: 0.6,
+        reason: `\`${color.name}\` has ${color.distinct} values, a pie chart shows the share of each in \`${y.name}\``,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'scatter',
+    name: 'Scatter Plot',
+    library: 'g2',
+    goals: ['correlation', 'distribution'],
+    recommend({ fields }) {
+      const [x, y, size] = fields.quantitative;
+      if (!x || !y) return null;
+      const color = getColorField(fields);
+      const spec: SpecObject = {
+        type: 'point',
+        encode: {
+          x: x.name,
+          y: y.name,
+          ...(color ? { color: color.name } : {}),
+          ...(size ? { size: size.name } : {}),
+        },
+      };
+      return {
+        score: 0.75,
+        reason: `\`${x.name}\` and \`${y.name}\` are quantitative, a scatter plot shows how they correlate${size ? `, a bubble size shows \`${size.name}\`` : ''}`,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'histogram',
+    name: 'Histogram',
+    library: 'g2',
+    goals: ['distribution'],
+    recommend({ sample, fields }) {
+      const [x] = fields.quantitative;
+      if (!x || sample.records.length < 10) return null;
+      const spec: SpecObject = {
+        type: 'rect',
+        encode: { x: x.name, y: 'count' },
+        transform: [{ type: 'binX', y: 'count' }],
+      };
+      return {
+        score: 0.5,
+        reason: `A histogram shows the distribution of \`${x.name}\` over ${sample.records.length} records`,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'boxplot',
+    name: 'Box Plot',
+    library: 'g2',
+    goals: ['distribution', 'comparison'],
+    recommend({ sample, fields }) {
+      const [x] = getCategories(fields);
+      const [y] = fields.quantitative;
+      // Several records by category, to draw a box from
+      if (!x || !y || sample.records.length < x.distinct * 5) return null;
+      const spec: SpecObject = {
+        type: 'boxplot',
+        encode: { x: x.name, y: y.name },
+      };
+      return {
+        score: 0.55,
+        reason: `Each \`${x.name}\` has several records, a box plot compares the distributions of \`${y.name}\``,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'heatmap',
+    name: 'Heatmap',
+    library: 'g2',
+    goals: ['comparison', 'correlation'],
+    recommend({ fields }) {
+      const [x, y] = [...fields.temporal, ...getCategories(fields)];
+      const [color] = fields.quantitative;
+      if (!x || !y || !color) return null;
+      const spec: SpecObject = {
+        type: 'cell',
+        encode: { x: x.name, y: y.name, color: color.name },
+      };
+      return {
+        score: 0.5,
+        reason: `A heatmap shows \`${color.name}\` by \`${x.name}\` and \`${y.name}\``,
+        spec,
+        code: getG2Code(spec),
+      };
+    },
+  },
+  {
+    chart: 'pivot-table',
+    name: 'Pivot Table',
+    library: 's2',
+    goals: ['detail', 'comparison'],
+    recommend({ fields }) {
+      const dimensions = [...getCategories(fields), ...fields.temporal];
+      const values = fields.quantitative;
+      if (dimensions.length < 2 || values.length === 0) return null;
+      const [row, column, ...rest] = dimensions;
+      const spec: SpecObject = {
+        fields: {
+          rows: [row.name, ...rest.map((f) => f.name)],
+          columns: [column.name],
+          values: values.map((f) => f.name),
+        },
+      };
+      return {
+        score: dimensions.length + values.length >= 5 ? 0.7 : 0.45,
+        reason: `${dimensions.length} dimensions and ${values.length} measure(s), a pivot table cross-tabulates them`,
+        spec,
+        code: `import { PivotSheet } from '@antv/s2';
+
+const container = document.getElementById('container');
+const s2 = new PivotSheet(
+  container,
+  ${printSpec({ ...spec, data: new RawCode('data') }, '  ')},
+  { width: 600, height: 480 },
+);
+s2.render();`,
+      };
+    },
+  },
+  {
+    chart: 'table',
+    name: 'Table',
+    library: 's2',
+    goals: ['detail'],
+    recommend({ columns }) {
+      if (columns.length < 6) return null;
+      const spec: SpecObject = { fields: { columns } };
+      return {
+        score: 0.65,
+        reason: `${columns.length} fields are too many for a single chart, a table lists the records`,
+        spec,
+        code: `import { TableSheet } from '@antv/s2';
+
+const container = document.getElementById('container');
+const s2 = new TableSheet(
+  container,
+  ${printSpec({ ...spec, data: new RawCode('data') }, '  ')},
+  { width: 600, height: 480 },
+);
+s2.render();`,
+      };
+    },
+  },
+];
+
+/**
+ * Recommend charts for a JSON or CSV data sample, ranked by fitness to the
+ * data and to the analysis goal.
+ */
+export function recommendCharts(params: {
+  data: string;
+  goal?: string;
+  limit?: number;
+}): ChartRecommendation {
+  const { data, limit = 5 } = params;
+  const sample = parseDataSample(data);
+  const fields = inferFields(sample.records);
+  const goal = classifyGoal(params.goal);
+
+  const byType: Record<FieldType, DataField[]> = {
+    temporal: [],
+    nominal: [],
+    quantitative: [],
+    geo: [],
+  };
+  for (const field of fields) byType[field.type].push(field);
+  const find = (pattern: RegExp) =>
+    fields.find((f) => pattern.test(f.name))?.name;
+  const [source, target] = [find(SOURCE_PATTERN), find(TARGET_PATTERN)];
+  const [lng, lat] = [find(LONGITUDE_PATTERN), find(LATITUDE_PATTERN)];
+  const context: RecommendContext = {
+    sample,
+    columns: fields.map((f) => f.name),
+    fields: byType,
+    edge: source && target ? { source, target } : null,
+    coordinates:
+      lng && lat && byType.geo.some((f) => f.name === lng || f.name === lat)
+        ? { lng, lat }
+        : null,
+  };
+
+  const candidates = CHART_RULES.flatMap(
+    ({ chart, name, library, goals, recommend }) => {
+      const candidate = recommend(context);
+      if (!candidate) return [];
+      const bonus = goal && goals.includes(goal) ? GOAL_BONUS : 0;
+      const score =
+        Math.round(Math.min(1, candidate.score + bonus) * 100) / 100;
+      return [{ chart, name, library, ...candidate, score }];
+    },
+  );
+
+  return {
+    records: sample.records.length,
+    fields,
+    goal,
+    candidates: candidates.sort((a, b) => b.score - a.score).slice(0, limit),
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Headless G2 rendering, renders a spec with the SVG renderer on a virtual
+ * DOM, measuring text and rasterizing with a native canvas.
+ */
+import type { CanvasLike } from '@antv/g';
+import type { G2Spec } from '@antv/g2';
+
+export type RenderFormat = 'svg' | 'png';
+
+export type RenderResult = {
+  /** SVG of the chart, `null` when the rendering failed. */
+  svg: string | null;
+  /** PNG of the chart, for the `png` format. */
+  png?: Buffer;
+  /** Errors thrown by the rendering. */
+  errors: string[];
+  /** Likely mistakes of the spec that render without errors. */
+  warnings: string[];
+};
+
+// Animations may keep a chart from ever finishing
+const RENDER_TIMEOUT = 10000;
+
+const POSITION_CHANNEL_PATTERN = /^(x|y|position)\d*$/;
+
+function getInlineData(data: unknown): Record<string, unknown>[] | null {
+  if (Array.isArray(data)) return data;
+  if (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { type?: string }).type === 'inline' &&
+    Array.isArray((data as { value?: unknown }).value)
+  ) {
+    return (data as { value: Record<string, unknown>[] }).value;
+  }
+  return null;
+}
+
+function isInlineData(data: unknown): boolean {
+  if (data === undefined || Array.isArray(data)) return true;
+  if (typeof data !== 'object' || data === null) return false;
+  const { type } = data as { type?: unknown };
+  return type === undefined || type === 'inline';
+}
+
+/**
+ * Find the data of a spec, nested marks included, that is not inline, e.g.
+ * `{ type: 'fetch', value: url }`. Rendering it would make the server request
+ * any URL of the spec. Returns the paths of the data.
+ */
+export function findRemoteData(spec: unknown, path = 'spec'): string[] {
+  if (Array.isArray(spec)) {
+    return spec.flatMap((item, i) => findRemoteData(item, `${path}[${i}]`));
+  }
+  if (typeof spec !== 'object' || spec === null) return [];
+
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(spec)) {
+    if (key === 'data') {
+      if (!isInlineData(value)) paths.push(`${path}.data`);
+      continue;
+    }
+    paths.push(...findRemoteData(value, `${path}.${key}`));
+  }
+  return paths;
+}
+
+/**
+ * Find the position channels encoding a string that is no field of the
+ * inline data, which G2 takes for a constant, e.g. a typo in `y: 'slaes'`.
+ */
+export function checkEncodedFields(
+  spec: Record<string, unknown>,
+  parentData: Record<string, unknown>[] | null = null,
+): string[] {
+  const data = spec.data === undefined ? parentData : getInlineData(spec.data);
+  const warnings: string[] = [];
+  const encode = spec.encode as Record<string, unknown> | undefined;
+  if (data && data.length > 0 && encode && typeof encode === 'object') {
+    for (const [channel, value] of Object.entries(encode)) {
+      if (
+        POSITION_CHANNEL_PATTERN.test(channel) &&
+        typeof value === 'string' &&
+        data.every((d) => d[value] === undefined)
+      ) {
+        const fields = Object.keys(data[0]).map((k) => `\`${k}\``);
+        warnings.push(
+          `\`encode.${channel}\` of the \`${spec.type}\` mark is \`'${value}'\`, no field of the data, G2 encodes it as a constant. Fields: ${fields.join(', ')}`,
+        );
+      }
+    }
+  }
+  if (Array.isArray(spec.children)) {
+    for (const child of spec.children) {
+      warnings.push(...checkEncodedFields(child, data));
+    }
+  }
+  return warnings;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Rendering timed out after ${timeout}ms`)),
+        timeout,
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Render a G2 5.x spec with inline data to SVG, and to PNG for the `png`
+ * format. Errors thrown by G2, e.g. an unknown mark or a missing channel, are
+ * returned, not thrown, as is the error of a spec with data to fetch.
+ */
+export async function renderG2Spec(params: {
+  spec: Record<string, unknown>;
+  width: number;
+  height: number;
+  format?: RenderFormat;
+  timeout?: number;
+}): Promise<RenderResult> {
+  const { spec, width, height, format = 'svg' } = params;
+  const warnings = checkEncodedFields(spec);
+  const remote = findRemoteData(spec);
+  if (remote.length > 0) {
+    return {
+      svg: null,
+      errors: [
+        `Only inline data is rendered, pass the data as an array instead of fetching it: ${remote.map((p) => `\`${p}\``).join(', ')}`,
+      ],
+      warnings,
+    };
+  }
+
+  // Loaded on demand, most sessions never render
+  const [{ JSDOM }, { Chart }, { Canvas }, { Renderer }, napi] =
+    await Promise.all([
+      import('jsdom'),
+      import('@antv/g2'),
+      import('@antv/g'),
+      import('@antv/g-svg'),
+      import('@napi-rs/canvas'),
+    ]);
+
+  const dom = new JSDOM('<!DOCTYPE html><div id="container"></div>', {
+    pretendToBeVisual: true,
+  });
+  const { document } = dom.window;
+  const container = document.getElementById('container') as HTMLElement;
+  const renderer = new Renderer();
+  // Listens to the global window, missing in Node
+  renderer.unregisterPlugin(renderer.getPlugin('dom-interaction'));
+  const canvas = new Canvas({
+    container,
+    width,
+    height,
+    renderer,
+    document: document as unknown as Document,
+    offscreenCanvas: napi.createCanvas(1, 1) as unknown as CanvasLike,
+    requestAnimationFrame: dom.window.requestAnimationFrame,
+    cancelAnimationFrame: dom.window.cancelAnimationFrame,
+  });
+  const chart = new Chart({ container, canvas });
+
+  try {
+    chart.options({ animate: false, ...spec, width, height } as G2Spec);
+    await withTimeout(chart.render(), params.timeout ?? RENDER_TIMEOUT);
+
+    const element = container.querySelector('svg');
+    if (!element) throw new Error('The chart rendered no SVG element');
+    const svg = new dom.window.XMLSerializer().serializeToString(element);
+    if (format === 'svg') return { svg, errors: [], warnings };
+
+    const image = await napi.loadImage(Buffer.from(svg));
+    const raster = napi.createCanvas(width, height);
+    const context = raster.getContext('2d');
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+    return { svg, png: raster.toBuffer('image/png'), errors: [], warnings };
+  } catch (error) {
+    return {
+      svg: null,
+      errors: [error instanceof Error ? error.message : String(error)],
+      warnings,
+    };
+  } finally {
+    chart.destroy();
+    dom.window.close();
+  }
+}
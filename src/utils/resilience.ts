@@ -0,0 +1,202 @@
+/**
+ * Resilience helpers for documentation backends: retries with exponential
+ * backoff and a circuit breaker to skip dead upstreams quickly.
+ */
+
+/**
+ * Error of a request cancelled by the client, never retried nor counted as
+ * a backend failure.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CancelledError();
+}
+
+/**
+ * Wait, rejecting with a `CancelledError` as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a signal aborting after the timeout or when the parent signal
+ * aborts. `timedOut` tells a timeout from a cancellation, `clear` releases
+ * the timer and the listener.
+ */
+export function createTimeoutSignal(
+  timeout: number,
+  parent?: AbortSignal,
+): { signal: AbortSignal; timedOut: () => boolean; clear: () => void } {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(parent?.reason);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new Error(`Timed out after ${timeout}ms`));
+  }, timeout);
+  if (parent?.aborted) onAbort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Create a signal aborting with the parent signal or on `abort`, to cancel a
+ * group of requests together. `clear` releases the listener.
+ */
+export function createLinkedSignal(parent?: AbortSignal): {
+  signal: AbortSignal;
+  abort: (reason: unknown) => void;
+  clear: () => void;
+} {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) onAbort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    abort: (reason) => controller.abort(reason),
+    clear: () => parent?.removeEventListener('abort', onAbort),
+  };
+}
+
+/**
+ * Whether an error message describes a transient failure worth retrying,
+ * such as timeouts, network errors, throttling or server errors.
+ */
+export function isTransientError(message: string): boolean {
+  return (
+    /timeout|timed out/i.test(message) ||
+    /HTTP (408|425|429|5\d\d)\b/.test(message) ||
+    /fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE/i.test(
+      message,
+    ) ||
+    /connection closed|SSE error/i.test(message)
+  );
+}
+
+export type RetryOptions = {
+  /** Number of retries after the first attempt. */
+  retries: number;
+  /** Delay before the first retry, in milliseconds, doubled on each retry. */
+  baseDelay: number;
+  /** Maximum delay between two attempts, in milliseconds. */
+  maxDelay: number;
+};
+
+/**
+ * Call `fn` until `shouldRetry` returns false for its result or the retries
+ * are exhausted, waiting with exponential backoff and jitter in between.
+ * Stops with a `CancelledError` once the signal aborts.
+ */
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions & {
+    shouldRetry: (result: T) => boolean;
+    signal?: AbortSignal;
+  },
+): Promise<{ result: T; attempts: number }> {
+  const { retries, baseDelay, maxDelay, shouldRetry, signal } = options;
+  let attempts = 0;
+
+  while (true) {
+    throwIfCancelled(signal);
+    attempts++;
+    const result = await fn(attempts);
+    if (attempts > retries || !shouldRetry(result)) {
+      return { result, attempts };
+    }
+    const delay = Math.min(baseDelay * 2 ** (attempts - 1), maxDelay);
+    await sleep(delay / 2 + (Math.random() * delay) / 2, signal);
+  }
+}
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures before the circuit opens. */
+  failureThreshold: number;
+  /** Time the circuit stays open before a trial request, in milliseconds. */
+  resetTimeout: number;
+};
+
+/**
+ * Circuit breaker, opened after consecutive failures. Once `resetTimeout` has
+ * elapsed, a single trial request is let through (half-open) and closes the
+ * circuit again on success.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trial = false;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return this.trial ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent, switching to half-open after the reset timeout.
+   */
+  canRequest(): boolean {
+    if (this.openedAt === null) return true;
+    if (this.trial) return false;
+    if (Date.now() - this.openedAt >= this.options.resetTimeout) {
+      this.trial = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trial = false;
+  }
+
+  /**
+   * Release a request that ended without outcome, e.g. cancelled, so that a
+   * half-open circuit lets the next trial request through.
+   */
+  recordCancel(): void {
+    this.trial = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trial || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.trial = false;
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Documentation router, queries the requested channel and falls back to the
+ * next backends of the configured order when it fails or finds nothing.
+ */
+import type { AntVLibrary, DocBackend, DocChannel } from '../types';
+import { HYBRID_BACKENDS } from '../constant';
+import { documentCache, type DocumentationResult } from './cache';
+import { fetchLibraryDocumentation } from './context7';
+import { adaptedQueryDeepWiki } from './deepwiki';
+import { getEnvLimiterOptions, getEnvRouterOptions } from './env';
+import { mergeDocumentation } from './hybrid';
+import { BackendBusyError, BackendLimiter } from './limiter';
+import { queryLocalDocumentation } from './local';
+import { logger } from './logger';
+import { trackBackendRequest } from './metrics';
+import {
+  CircuitBreaker,
+  createLinkedSignal,
+  isTransientError,
+  retryWithBackoff,
+  throwIfCancelled,
+} from './resilience';
+import { getVersionedQuestion } from './version';
+
+export type DocumentationQuery = {
+  library: AntVLibrary;
+  libraryId: string;
+  topic: string;
+  tokens?: number;
+  /** Requested major version of the library. */
+  version?: string;
+};
+
+export type RoutedDocumentationResult = DocumentationResult & {
+  /** Backend that answered, `Hybrid` for merged answers, `null` if none did. */
+  backend: DocChannel | null;
+  /** Backends whose answers were merged by the `Hybrid` channel. */
+  sources?: DocBackend[];
+  /** Requests sent to the backends, retries included. Cache hits count none. */
+  attempts: number;
+};
+
+export type DocumentationRequestOptions = {
+  /** Signal of the client request, cancelling the backend requests. */
+  signal?: AbortSignal;
+  /** Session of the client, the backend limits serve sessions in turn. */
+  sessionId?: string;
+  /** Called before requesting a backend, not on cache hits. */
+  onBackendRequest?: (backend: DocBackend) => void;
+};
+
+const BACKENDS: Record<
+  DocBackend,
+  (
+    query: DocumentationQuery,
+    signal?: AbortSignal,
+  ) => Promise<DocumentationResult>
+> = {
+  Context7: ({ libraryId, topic, tokens }, signal) =>
+    fetchLibraryDocumentation(libraryId, topic, tokens, signal),
+  DeepWiki: ({ library, topic, version }, signal) =>
+    adaptedQueryDeepWiki(
+      {
+        repoName: library,
+        question: getVersionedQuestion(library, topic, version),
+      },
+      signal,
+    ),
+  Local: ({ library, topic, tokens }) =>
+    queryLocalDocumentation(library, topic, tokens),
+};
+
+const options = getEnvRouterOptions();
+const breakers = new Map<DocBackend, CircuitBreaker>();
+// The local index needs no limits
+const limiterOptions = getEnvLimiterOptions();
+const limiters: Partial<Record<DocBackend, BackendLimiter>> = {
+  Context7: new BackendLimiter('Context7', limiterOptions.Context7),
+  DeepWiki: new BackendLimiter('DeepWiki', limiterOptions.DeepWiki),
+};
+
+function getCircuitBreaker(channel: DocBackend): CircuitBreaker {
+  let breaker = breakers.get(channel);
+  if (!breaker) {
+    breaker = new CircuitBreaker(options);
+    breakers.set(channel, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Get the backends to try for a channel: the channel itself, then the other
+ * channels in the configured fallback order. `Hybrid` replaces the backends
+ * it queries.
+ */
+export function getFallbackChain(channel: DocChannel): DocChannel[] {
+  const used = channel === 'Hybrid' ? HYBRID_BACKENDS : [channel];
+  return [
+    channel,
+    ...options.fallbackChannels.filter((c) => !used.includes(c)),
+  ];
+}
+
+/**
+ * Query a single backend through the cache, retrying on transient errors.
+ * Each attempt waits for its turn within the local limits of the backend.
+ * The `Local` index is not cached, it is read again when it is rebuilt.
+ */
+async function queryBackend(
+  channel: DocBackend,
+  query: DocumentationQuery,
+  requestOptions: DocumentationRequestOptions,
+): Promise<DocumentationResult & { attempts: number }> {
+  let attempts = 0;
+  const fetcher = async () => {
+    const { signal, sessionId, onBackendRequest } = requestOptions;
+    const limiter = limiters[channel];
+    const request = () =>
+      trackBackendRequest(channel, () => BACKENDS[channel](query, signal));
+    onBackendRequest?.(channel);
+    const retried = await retryWithBackoff(
+      () => (limiter ? limiter.run(sessionId, signal, request) : request()),
+      {
+        ...options,
+        signal,
+        shouldRetry: ({ documentation, error }) =>
+          !documentation && !!error && isTransientError(error),
+      },
+    );
+    attempts = retried.attempts;
+    return retried.result;
+  };
+  const result =
+    channel === 'Local'
+      ? await fetcher()
+      : await documentCache.wrap({ channel, ...query }, fetcher);
+  return { ...result, attempts };
+}
+
+/**
+ * Query a backend unless its circuit is open, recording the outcome.
+ */
+async function queryWithCircuitBreaker(
+  backend: DocBackend,
+  query: DocumentationQuery,
+  requestOptions: DocumentationRequestOptions,
+): Promise<DocumentationResult & { attempts: number }> {
+  const breaker = getCircuitBreaker(backend);
+  if (!breaker.canRequest()) {
+    logger.warn(`${backend} circuit is open, skipped`);
+    return { documentation: null, error: 'circuit open, skipped', attempts: 0 };
+  }
+
+  let result: Awaited<ReturnType<typeof queryBackend>>;
+  try {
+    result = await queryBackend(backend, query, requestOptions);
+  } catch (error) {
+    // Neither a cancelled nor a locally limited request says anything about the backend
+    breaker.recordCancel();
+    if (error instanceof BackendBusyError) {
+      logger.warn(`${backend} ${error.message}`);
+    }
+    throw error;
+  }
+  if (result.error) {
+    breaker.recordFailure();
+  } else {
+    breaker.recordSuccess();
+  }
+  return result;
+}
+
+/**
+ * Query the `Hybrid` backends concurrently and merge their answers. A busy
+ * backend cancels the requests to the other ones.
+ */
+async function queryHybrid(
+  query: DocumentationQuery,
+  requestOptions: DocumentationRequestOptions,
+): Promise<DocumentationResult & { attempts: number; sources: DocBackend[] }> {
+  const linked = createLinkedSignal(requestOptions.signal);
+  const results = await Promise.all(
+    HYBRID_BACKENDS.map(async (source) => {
+      try {
+        return {
+          source,
+          ...(await queryWithCircuitBreaker(source, query, {
+            ...requestOptions,
+            signal: linked.signal,
+          })),
+        };
+      } catch (error) {
+        if (error instanceof BackendBusyError) linked.abort(error);
+        throw error;
+      }
+    }),
+  )
+    .catch((error: unknown) => {
+      // The other backends fail with a `CancelledError` once aborted
+      throw linked.signal.reason instanceof BackendBusyError
+        ? linked.signal.reason
+        : error;
+    })
+    .finally(linked.clear);
+  const answered = results.filter(
+    (r): r is typeof r & { documentation: string } => !!r.documentation,
+  );
+  const errors = results
+    .filter((r) => r.error)
+    .map((r) => `${r.source}: ${r.error}`);
+
+  return {
+    documentation: answered.length > 0 ? mergeDocumentation(answered) : null,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    attempts: results.reduce((sum, r) => sum + r.attempts, 0),
+    sources: answered.map((r) => r.source),
+  };
+}
+
+/**
+ * Query the documentation from the channel, falling back along the chain.
+ * Backends with an open circuit are skipped. Throws a `CancelledError` when
+ * the signal aborts, and a `BackendBusyError` when a backend is over its
+ * local limits: the caller is asked to retry instead of spilling onto the
+ * other backends.
+ */
+export async function queryDocumentation(
+  channel: DocChannel,
+  query: DocumentationQuery,
+  requestOptions: DocumentationRequestOptions = {},
+): Promise<RoutedDocumentationResult> {
+  const errors: string[] = [];
+  let attempts = 0;
+
+  for (const backend of getFallbackChain(channel)) {
+    throwIfCancelled(requestOptions.signal);
+    if (backend === 'Hybrid') {
+      const result = await queryHybrid(query, requestOptions);
+      attempts += result.attempts;
+      if (result.error) errors.push(result.error);
+      if (result.documentation) {
+        return {
+          documentation: result.documentation,
+          backend,
+          sources: result.sources,
+          attempts,
+        };
+      }
+    } else {
+      const result = await queryWithCircuitBreaker(
+        backend,
+        query,
+        requestOptions,
+      );
+      attempts += result.attempts;
+      if (result.error) errors.push(`${backend}: ${result.error}`);
+      if (result.documentation) {
+        if (backend !== channel) {
+          logger.info(`Documentation answered by fallback backend ${backend}`);
+        }
+        return { documentation: result.documentation, backend, attempts };
+      }
+    }
+    logger.info(`No documentation from ${backend}, trying next backend`);
+  }
+
+  return {
+    documentation: null,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    backend: null,
+    attempts,
+  };
+}
@@ -0,0 +1,346 @@
+/**
+ * Snippet parser, splits documentation into code snippet records: the
+ * TITLE/DESCRIPTION/SOURCE/LANGUAGE/CODE blocks of the Context7 text format,
+ * or the fenced code blocks of markdown answers such as DeepWiki's. Snippets
+ * are then deduplicated and ranked against the query.
+ */
+import { SNIPPET_SEPARATOR } from '../constant';
+import { getSimilarity } from './hybrid';
+import { tokenize } from './local';
+import { estimateTokens } from './tokens';
+
+export type DocumentationSnippet = {
+  title: string;
+  description?: string;
+  source?: string;
+  language?: string;
+  code: string;
+};
+
+export type RankedSnippet = DocumentationSnippet & {
+  /** Relevance to the query and topic terms. */
+  score: number;
+};
+
+// Snippets sharing this much of their terms are near duplicates
+const DUPLICATE_SIMILARITY = 0.85;
+// Snippets rendered at least, even if they match no term
+const MIN_SNIPPETS = 3;
+// Weights of a term matched in each field
+const FIELD_WEIGHTS = { title: 3, description: 2, code: 1 };
+
+const FIELD_PATTERN = /^(TITLE|DESCRIPTION|SOURCE|LANGUAGE|CODE):\s?(.*)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)/;
+
+/**
+ * Parse a snippet of the Context7 text format. Snippets with several code
+ * blocks keep the language of the first one.
+ */
+function parseContext7Snippet(text: string): DocumentationSnippet | null {
+  const snippet: Partial<DocumentationSnippet> = {};
+  const codes: string[] = [];
+  const lines = text.split('\n');
+  let field: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(FENCE_PATTERN);
+    if (fence && field === 'CODE') {
+      const end = lines.findIndex(
+        (line, j) => j > i && line.trim().startsWith(fence[1]),
+      );
+      const stop = end === -1 ? lines.length : end;
+      codes.push(lines.slice(i + 1, stop).join('\n'));
+      snippet.language = snippet.language || fence[2] || undefined;
+      i = stop;
+      continue;
+    }
+
+    const match = lines[i].match(FIELD_PATTERN);
+    if (match) {
+      field = match[1];
+      const value = match[2].trim();
+      if (field === 'TITLE') snippet.title = value;
+      if (field === 'DESCRIPTION') snippet.description = value;
+      if (field === 'SOURCE') snippet.source = value;
+      if (field === 'LANGUAGE' && !snippet.language) {
+        snippet.language = value || undefined;
+      }
+    } else if (field === 'DESCRIPTION' && lines[i].trim()) {
+      // Descriptions may span several lines
+      snippet.description = `${snippet.description} ${lines[i].trim()}`.trim();
+    }
+  }
+
+  if (codes.length === 0) return null;
+  return {
+    title: snippet.title || 'Code example',
+    description: snippet.description || undefined,
+    source: snippet.source || undefined,
+    language: snippet.language,
+    code: codes.join('\n\n'),
+  };
+}
+
+/**
+ * Parse the fenced code blocks of a markdown section, titled by the closest
+ * heading and described by the paragraph above them.
+ */
+function parseMarkdownSnippets(text: string): DocumentationSnippet[] {
+  const snippets: DocumentationSnippet[] = [];
+  const lines = text.split('\n');
+  let title = 'Code example';
+  let paragraph: string[] = [];
+  let paragraphEnded = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      title = heading[1].trim();
+      paragraph = [];
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const end = lines.findIndex(
+        (l, j) => j > i && l.trim().startsWith(fence[1]),
+      );
+      const stop = end === -1 ? lines.length : end;
+      const code = lines.slice(i + 1, stop).join('\n');
+      if (code.trim()) {
+        snippets.push({
+          title,
+          description: paragraph.join(' ').trim() || undefined,
+          language: fence[2] || undefined,
+          code,
+        });
+      }
+      paragraph = [];
+      i = stop;
+      continue;
+    }
+
+    if (!line.trim()) {
+      paragraphEnded = true;
+    } else if (!/^\*\*Source\*\*:/.test(line)) {
+      // Keep the last paragraph, the one right above the code block
+      if (paragraphEnded) paragraph = [];
+      paragraph.push(line.trim());
+      paragraphEnded = false;
+    }
+  }
+
+  return snippets;
+}
+
+/**
+ * Parse documentation into snippets, section by section so that merged
+ * answers mixing both formats are supported.
+ */
+export function parseSnippets(documentation: string): DocumentationSnippet[] {
+  return documentation
+    .replace(/\r\n/g, '\n')
+    .split(/^-{20,}\s*$/m)
+    .flatMap((section) => {
+      if (/^TITLE:/m.test(section) && /^CODE:/m.test(section)) {
+        const snippet = parseContext7Snippet(section);
+        return snippet ? [snippet] : [];
+      }
+      return parseMarkdownSnippets(section);
+    });
+}
+
+function getDuplicateKey(snippet: DocumentationSnippet) {
+  return {
+    code: snippet.code.replace(/\s+/g, ''),
+    terms: new Set(tokenize(`${snippet.title} ${snippet.code}`)),
+  };
+}
+
+function isDuplicate(
+  a: ReturnType<typeof getDuplicateKey>,
+  b: ReturnType<typeof getDuplicateKey>,
+): boolean {
+  return (
+    a.code === b.code || getSimilarity(a.terms, b.terms) >= DUPLICATE_SIMILARITY
+  );
+}
+
+/**
+ * Remove snippets whose code appeared before, or whose terms mostly overlap
+ * with an earlier snippet.
+ */
+export function deduplicateSnippets<T extends DocumentationSnippet>(
+  snippets: T[],
+): T[] {
+  return mergeSnippetGroups([snippets]).map((m) => m.snippet);
+}
+
+/**
+ * Merge groups of snippets, such as the snippets of each subtask, into unique
+ * snippets with the indexes of the groups they appear in. A snippet is kept in
+ * the first group it appears in.
+ */
+export function mergeSnippetGroups<T extends DocumentationSnippet>(
+  groups: T[][],
+): Array<{ snippet: T; groups: number[] }> {
+  const merged: Array<{
+    snippet: T;
+    groups: number[];
+    key: ReturnType<typeof getDuplicateKey>;
+  }> = [];
+
+  groups.forEach((snippets, group) => {
+    for (const snippet of snippets) {
+      const key = getDuplicateKey(snippet);
+      const duplicate = merged.find((m) => isDuplicate(m.key, key));
+      if (!duplicate) {
+        merged.push({ snippet, groups: [group], key });
+      } else if (!duplicate.groups.includes(group)) {
+        duplicate.groups.push(group);
+      }
+    }
+  });
+
+  return merged.map(({ snippet, groups }) => ({ snippet, groups }));
+}
+
+// Calls too generic to tell how snippets relate
+const GENERIC_APIS = new Set([
+  'render',
+  'then',
+  'catch',
+  'log',
+  'map',
+  'forEach',
+  'filter',
+  'reduce',
+  'push',
+  'slice',
+  'join',
+  'split',
+  'find',
+  'sort',
+  'includes',
+  'keys',
+  'values',
+  'entries',
+  'json',
+  'fetch',
+  'toString',
+  'getElementById',
+  'querySelector',
+]);
+
+/**
+ * Extract the APIs called by snippet code: the constructors, e.g. `new
+ * Chart()`, and the methods, e.g. `encode()`.
+ */
+export function extractApis(code: string): string[] {
+  const apis = new Set<string>();
+  for (const match of code.matchAll(
+    /\bnew\s+([A-Z][\w$]*)|\.([A-Za-z_$][\w$]*)\s*\(/g,
+  )) {
+    if (match[1]) apis.add(`new ${match[1]}()`);
+    else if (!GENERIC_APIS.has(match[2])) apis.add(`${match[2]}()`);
+  }
+  return Array.from(apis);
+}
+
+/**
+ * Rank snippets by the query and topic terms found in their title,
+ * description and code. Ties keep the order of the backend.
+ */
+export function rankSnippets(
+  snippets: DocumentationSnippet[],
+  query: string,
+): RankedSnippet[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  return snippets
+    .map((snippet, index) => {
+      const fields = {
+        title: new Set(tokenize(snippet.title)),
+        description: new Set(tokenize(snippet.description || '')),
+        code: new Set(tokenize(snippet.code)),
+      };
+      let score = 0;
+      for (const term of terms) {
+        for (const field of Object.keys(FIELD_WEIGHTS) as Array<
+          keyof typeof FIELD_WEIGHTS
+        >) {
+          if (fields[field].has(term)) score += FIELD_WEIGHTS[field];
+        }
+      }
+      return { snippet: { ...snippet, score }, index };
+    })
+    .sort((a, b) => b.snippet.score - a.snippet.score || a.index - b.index)
+    .map((r) => r.snippet);
+}
+
+/**
+ * Render snippets in the Context7 text format.
+ */
+export function renderSnippets(snippets: DocumentationSnippet[]): string {
+  return snippets
+    .map((snippet) => {
+      let text = `TITLE: ${snippet.title}\n`;
+      if (snippet.description) text += `DESCRIPTION: ${snippet.description}\n`;
+      if (snippet.source) text += `SOURCE: ${snippet.source}\n`;
+      text += `\nLANGUAGE: ${snippet.language || 'text'}\nCODE:\n\`\`\`\n${snippet.code}\n\`\`\`\n`;
+      return text;
+    })
+    .join(`\n${SNIPPET_SEPARATOR}\n\n`);
+}
+
+/**
+ * Keep the snippets fitting the token budget in rank order, the first one
+ * always.
+ */
+function fitSnippets<T extends DocumentationSnippet>(
+  snippets: T[],
+  tokens: number,
+): T[] {
+  const separator = estimateTokens(`\n${SNIPPET_SEPARATOR}\n\n`);
+  const fitted: T[] = [];
+  let used = 0;
+  for (const snippet of snippets) {
+    const cost =
+      estimateTokens(renderSnippets([snippet])) +
+      (fitted.length > 0 ? separator : 0);
+    if (fitted.length > 0 && used + cost > tokens) break;
+    fitted.push(snippet);
+    used += cost;
+  }
+  return fitted;
+}
+
+/**
+ * Select the top snippets of documentation in the Context7 text format:
+ * parse, deduplicate and rank them against the query and topic, then render
+ * the relevant ones that fit the token budget, if any. Documentation without
+ * snippets is returned as is.
+ */
+export function selectSnippets(
+  documentation: string,
+  query: string,
+  tokens?: number,
+): { documentation: string; snippets: RankedSnippet[]; duplicates: number } {
+  const parsed = parseSnippets(documentation);
+  if (parsed.length === 0) {
+    return { documentation, snippets: [], duplicates: 0 };
+  }
+
+  const unique = deduplicateSnippets(parsed);
+  const ranked = rankSnippets(unique, query);
+  const relevant = ranked.filter((s) => s.score > 0).length;
+  const selected = ranked.slice(0, Math.max(MIN_SNIPPETS, relevant));
+  const snippets =
+    tokens === undefined ? selected : fitSnippets(selected, tokens);
+
+  return {
+    documentation: renderSnippets(snippets),
+    snippets,
+    duplicates: parsed.length - unique.length,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * JS object literals of chart specs, printed the way a developer writes them.
+ */
+
+/** Code kept as is in a spec, e.g. a variable or a callback. */
+export class RawCode {
+  constructor(readonly code: string) {}
+}
+
+export type SpecValue =
+  | string
+  | number
+  | boolean
+  | RawCode
+  | SpecValue[]
+  | { [key: string]: SpecValue };
+
+export type SpecObject = { [key: string]: SpecValue };
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Print a spec value as a JS literal, on a single line when short enough.
+ */
+export function printSpec(value: SpecValue, indent = ''): string {
+  if (value instanceof RawCode) return value.code;
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value !== 'object') return String(value);
+
+  const inner = `${indent}  `;
+  const items = Array.isArray(value)
+    ? value.map((v) => printSpec(v, inner))
+    : Object.entries(value).map(([k, v]) =>
+        // Shorthand properties, e.g. `{ data }`
+        v instanceof RawCode && v.code === k
+          ? k
+          : `${IDENTIFIER_PATTERN.test(k) ? k : `'${k}'`}: ${printSpec(v, inner)}`,
+      );
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  if (items.length === 0) return `${open}${close}`;
+
+  const line = Array.isArray(value)
+    ? `[${items.join(', ')}]`
+    : `{ ${items.join(', ')} }`;
+  if (line.length <= 60 && !line.includes('\n')) return line;
+  return `${open}\n${items.map((i) => `${inner}${i},`).join('\n')}\n${indent}${close}`;
+}
+
+export function isObject(
+  value: SpecValue | null | undefined,
+): value is SpecObject {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RawCode)
+  );
+}
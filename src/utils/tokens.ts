@@ -0,0 +1,135 @@
+/**
+ * Token budgeting, estimates the tokens of documentation, spreads a budget
+ * across subtasks and truncates documentation at snippet boundaries.
+ */
+import { SNIPPET_SEPARATOR } from '../constant';
+
+// CJK characters, latin words, numbers, runs of the same symbol
+const TOKEN_PATTERN = /[一-鿿぀-ヿ가-힯]|[A-Za-z]+|\d+|([^\sA-Za-z\d])\1*/g;
+
+const TRUNCATION_NOTICE =
+  '\n\n_(Documentation truncated to fit the token budget.)_';
+
+/**
+ * Estimate the tokens of a text as a BPE tokenizer would count them: one per
+ * CJK character, one per 4 letters of a word, one per 3 digits, one per run
+ * of up to 4 identical symbols. Whitespace is merged into the next token.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [match] of text.matchAll(TOKEN_PATTERN)) {
+    if (/^\d/.test(match)) tokens += Math.ceil(match.length / 3);
+    else if (/^[A-Za-z]/.test(match)) tokens += Math.ceil(match.length / 4);
+    else if (match.length > 1) tokens += Math.ceil(match.length / 4);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+/**
+ * Split a budget across items in proportion to their weights. Each item gets
+ * at least `min` tokens when the budget allows it, and the shares never
+ * exceed the budget.
+ */
+export function allocateTokenBudget(
+  total: number,
+  weights: number[],
+  min = 0,
+): number[] {
+  if (weights.length === 0) return [];
+  const budget = Math.max(0, Math.floor(total));
+  if (min * weights.length >= budget) {
+    return weights.map(() => Math.floor(budget / weights.length));
+  }
+
+  const sum = weights.reduce((s, w) => s + Math.max(0, w), 0);
+  const spare = budget - min * weights.length;
+  const exact = weights.map((w) =>
+    sum > 0 ? (spare * Math.max(0, w)) / sum : spare / weights.length,
+  );
+  const shares = exact.map((e) => min + Math.floor(e));
+
+  // Hand out the rounding remainder to the largest fractions
+  let remainder = budget - shares.reduce((s, v) => s + v, 0);
+  const order = exact
+    .map((e, index) => ({ index, fraction: e - Math.floor(e) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    shares[order[i].index]++;
+  }
+  return shares;
+}
+
+/**
+ * Split documentation at its snippet boundaries: the Context7 separators, or
+ * else the headings and paragraphs of markdown outside code fences.
+ */
+function splitBoundaries(documentation: string): string[] {
+  if (/^-{20,}\s*$/m.test(documentation)) {
+    return documentation
+      .split(/\n*^-{20,}\s*$\n*/m)
+      .filter((part) => part.trim())
+      .map(
+        (part, index) => (index > 0 ? `${SNIPPET_SEPARATOR}\n\n` : '') + part,
+      );
+  }
+
+  const parts: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  for (const line of documentation.split('\n')) {
+    const boundary = !inFence && (line.trim() === '' || /^#{1,6}\s/.test(line));
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (boundary && current.join('').trim()) {
+      parts.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.join('').trim()) parts.push(current.join('\n'));
+  return parts;
+}
+
+/**
+ * Truncate documentation to a token budget at snippet boundaries. When even
+ * the first part does not fit, it is cut at the last line that fits, with
+ * open code fences closed.
+ */
+export function truncateToTokens(
+  documentation: string,
+  maxTokens: number,
+): { documentation: string; tokens: number; truncated: boolean } {
+  const tokens = estimateTokens(documentation);
+  if (tokens <= maxTokens) {
+    return { documentation, tokens, truncated: false };
+  }
+
+  const budget = maxTokens - estimateTokens(TRUNCATION_NOTICE);
+  const kept: string[] = [];
+  let used = 0;
+  for (const part of splitBoundaries(documentation)) {
+    const cost = estimateTokens(part) + (kept.length > 0 ? 1 : 0);
+    if (used + cost > budget) break;
+    kept.push(part);
+    used += cost;
+  }
+
+  let text = kept.join('\n\n').trimEnd();
+  if (kept.length === 0) {
+    const lines: string[] = [];
+    let inFence = false;
+    for (const line of documentation.split('\n')) {
+      if (estimateTokens([...lines, line].join('\n')) + 1 > budget) break;
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      lines.push(line);
+    }
+    text = lines.join('\n').trimEnd() + (inFence ? '\n```' : '');
+  }
+
+  const truncated = `${text}${TRUNCATION_NOTICE}`;
+  return {
+    documentation: truncated,
+    tokens: estimateTokens(truncated),
+    truncated: true,
+  };
+}
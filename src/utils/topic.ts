@@ -0,0 +1,299 @@
+/**
+ * Server-side topic extraction, a deterministic alternative to the extraction
+ * prompt based on the library keyword tables and the bilingual dictionary.
+ */
+import type { AntVLibrary } from '../types';
+import {
+  ANTV_LIBRARY_META,
+  TOPIC_DICTIONARY,
+  getLibraryKeywords,
+  type TopicTerm,
+} from '../constant';
+import { ANTV_PACKAGES, type DetectedLibrary } from './workspace';
+
+export type TopicIntent = 'implement' | 'solve';
+
+export type ExtractedTopics = {
+  library: AntVLibrary;
+  topic: string;
+  intent: TopicIntent;
+  isComplexTask: boolean;
+  subTasks: Array<{ query: string; topic: string }>;
+};
+
+// Intent patterns of the extraction prompt, solve patterns win over implement ones
+const SOLVE_PATTERNS = [
+  /怎么|如何|为什么|为何|怎样|不显示|不生效|没反应|无效|报错|错误|异常|不正确|渲染不出/,
+  /\b(how (to|do|can|should)|why|not (working|showing|rendering|displayed)|doesn'?t|does not|error|bug|issue|fix|wrong|broken)\b/i,
+];
+const IMPLEMENT_PATTERNS = [
+  /创建|实现|添加|构建|改成|修改|写一个|生成|绘制|画一个|做一个/,
+  /\b(create|build|implement|add|make|write|generate|draw)\b/i,
+];
+
+// Separators of the clauses of a query, each clause being a candidate subtask
+const CLAUSE_SEPARATOR =
+  /[，,；;。！!？?\n]|并且|然后|同时|以及|另外|\b(?:and then|then|also)\b/i;
+
+// Keyword table terms too generic to be a topic
+const GENERIC_TOPICS = new Set(['chart', 'component']);
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'how',
+  'what',
+  'why',
+  'can',
+  'use',
+  'using',
+  'want',
+  'need',
+  'please',
+  'create',
+  'make',
+  'build',
+  'implement',
+  'add',
+  'write',
+  'chart',
+  'antv',
+]);
+
+const MAX_SUBTASKS = 4;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse the keyword table of a library, lines such as `- 图例 (Legend)` or
+ * `- 文本/图片 (TextGuide、ImageGuide)`, into dictionary terms.
+ */
+export function parseKeywordTable(library: AntVLibrary): TopicTerm[] {
+  const terms: TopicTerm[] = [];
+  for (const line of getLibraryKeywords(library).split('\n')) {
+    const match = line.match(/^\s*-\s*(.+?)\s*[(（](.+?)[)）]\s*$/);
+    if (!match) continue;
+    const names = match[1].split('/').map((t) => t.trim());
+    const topics = match[2].split(/[、,]/).map((t) => t.trim());
+    names.forEach((name, index) => {
+      const topic = topics[Math.min(index, topics.length - 1)];
+      // Single characters such as `点` match too many queries
+      if (
+        name.length < 2 ||
+        !topic ||
+        GENERIC_TOPICS.has(topic.toLowerCase())
+      ) {
+        return;
+      }
+      terms.push({ topic, terms: [name], libraries: [library] });
+    });
+  }
+  return terms;
+}
+
+/**
+ * Find the topics mentioned in a text, in order of appearance. Longer terms
+ * are matched first so that `矩形树图` is not also read as `树图`.
+ */
+function findTopics(
+  text: string,
+  dictionary: TopicTerm[],
+): Array<{ topic: string; index: number; libraries?: AntVLibrary[] }> {
+  const lower = text.toLowerCase();
+  const covered = new Array<boolean>(lower.length).fill(false);
+  const candidates = dictionary
+    .flatMap((entry) =>
+      [entry.topic, ...entry.terms].map((term) => ({
+        term: term.toLowerCase(),
+        entry,
+      })),
+    )
+    .sort((a, b) => b.term.length - a.term.length);
+
+  const found: Array<{
+    topic: string;
+    index: number;
+    libraries?: AntVLibrary[];
+  }> = [];
+  for (const { term, entry } of candidates) {
+    // Latin terms must match whole words, CJK terms any substring
+    const pattern = /^[\x20-\x7e]+$/.test(term)
+      ? new RegExp(`\\b${escapeRegExp(term)}\\b`, 'g')
+      : new RegExp(escapeRegExp(term), 'g');
+    for (const match of lower.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + term.length;
+      if (covered.slice(start, end).some(Boolean)) continue;
+      covered.fill(true, start, end);
+      found.push({
+        topic: entry.topic,
+        index: start,
+        libraries: entry.libraries,
+      });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+function uniqueTopics(found: Array<{ topic: string }>): string[] {
+  const seen = new Set<string>();
+  return found
+    .map((f) => f.topic)
+    .filter((topic) => {
+      const key = topic.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Classify the intent of a query with the patterns of the extraction prompt,
+ * defaulting to `solve` when uncertain.
+ */
+export function classifyIntent(query: string): TopicIntent {
+  if (SOLVE_PATTERNS.some((pattern) => pattern.test(query))) return 'solve';
+  if (IMPLEMENT_PATTERNS.some((pattern) => pattern.test(query))) {
+    return 'implement';
+  }
+  return 'solve';
+}
+
+/**
+ * Detect the library of a query: an explicitly mentioned library or package
+ * first, then the library hinted by the most terms, then the project
+ * dependencies, then G2.
+ */
+export function detectQueryLibrary(
+  query: string,
+  detectedLibraries: DetectedLibrary[] = [],
+): AntVLibrary {
+  const libraries = Object.keys(ANTV_LIBRARY_META) as AntVLibrary[];
+  const lower = query.toLowerCase();
+
+  const mentioned = libraries
+    .map((library) => {
+      const names = [
+        ...ANTV_PACKAGES[library],
+        ...(library.length > 1 ? [library] : []),
+      ].map((name) => escapeRegExp(name.toLowerCase()));
+      const match = lower.match(
+        new RegExp(`(?<![\\w/-])(${names.join('|')})(?![\\w/-])`),
+      );
+      return { library, index: match?.index ?? -1 };
+    })
+    .filter((m) => m.index >= 0)
+    .sort((a, b) => a.index - b.index);
+  if (mentioned.length > 0) return mentioned[0].library;
+
+  // Keyword tables share generic terms, only the dictionary hints are used
+  const scores = new Map<AntVLibrary, number>();
+  for (const { libraries: hints } of findTopics(query, TOPIC_DICTIONARY)) {
+    hints?.forEach((library) =>
+      scores.set(library, (scores.get(library) || 0) + 1),
+    );
+  }
+  const installed = detectedLibraries.map((l) => l.library);
+  const ranked = Array.from(scores.entries()).sort(
+    (a, b) =>
+      b[1] - a[1] ||
+      Number(installed.includes(b[0])) - Number(installed.includes(a[0])),
+  );
+  if (ranked.length > 0) return ranked[0][0];
+
+  return installed[0] || 'g2';
+}
+
+function getFallbackTopics(query: string, maxTopics: number): string[] {
+  const words = (query.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) || []).filter(
+    (word) => !STOP_WORDS.has(word),
+  );
+  const topics = Array.from(new Set(words)).slice(0, maxTopics);
+  return topics.length > 0 ? topics : [query.trim().slice(0, 100)];
+}
+
+/**
+ * Split a complex query into subtasks, one per clause mentioning topics, or
+ * by groups of topics when the query is a single clause.
+ */
+function generateSubTasks(
+  query: string,
+  topics: string[],
+  dictionary: TopicTerm[],
+): Array<{ query: string; topic: string }> {
+  const clauses = query
+    .split(CLAUSE_SEPARATOR)
+    .map((clause) => clause?.trim())
+    .filter(Boolean)
+    .map((clause) => ({
+      query: clause,
+      topics: uniqueTopics(findTopics(clause, dictionary)),
+    }))
+    .filter((clause) => clause.topics.length > 0);
+
+  if (clauses.length >= 2) {
+    const size = Math.ceil(clauses.length / MAX_SUBTASKS);
+    const subTasks: Array<{ query: string; topic: string }> = [];
+    for (let i = 0; i < clauses.length; i += size) {
+      const group = clauses.slice(i, i + size);
+      subTasks.push({
+        query: group.map((c) => c.query).join(', '),
+        topic: Array.from(new Set(group.flatMap((c) => c.topics))).join(', '),
+      });
+    }
+    return subTasks;
+  }
+
+  const count = Math.min(MAX_SUBTASKS, Math.ceil(topics.length / 3));
+  const size = Math.ceil(topics.length / count);
+  const subTasks: Array<{ query: string; topic: string }> = [];
+  for (let i = 0; i < topics.length; i += size) {
+    const group = topics.slice(i, i + size);
+    subTasks.push({
+      query: `${query} (${group.join(', ')})`,
+      topic: group.join(', '),
+    });
+  }
+  return subTasks;
+}
+
+/**
+ * Extract the library, topics, intent and subtasks of a query without a
+ * model, ready to pass to `query_antv_document`.
+ */
+export function extractTopics(params: {
+  query: string;
+  library?: AntVLibrary;
+  maxTopics: number;
+  detectedLibraries?: DetectedLibrary[];
+}): ExtractedTopics {
+  const { query, maxTopics, detectedLibraries } = params;
+  const library =
+    params.library || detectQueryLibrary(query, detectedLibraries);
+  const dictionary = [...parseKeywordTable(library), ...TOPIC_DICTIONARY];
+
+  const found = uniqueTopics(findTopics(query, dictionary));
+  const topics =
+    found.length > 0
+      ? found.slice(0, maxTopics)
+      : getFallbackTopics(query, maxTopics);
+  const clauseCount = query
+    .split(CLAUSE_SEPARATOR)
+    .filter(
+      (clause) => clause && findTopics(clause, dictionary).length > 0,
+    ).length;
+  // Complex when the topics exceed 5 or more than 2 features are involved
+  const isComplexTask = found.length > 5 || clauseCount > 2;
+
+  return {
+    library,
+    topic: topics.join(', '),
+    intent: classifyIntent(query),
+    isComplexTask,
+    subTasks: isComplexTask ? generateSubTasks(query, found, dictionary) : [],
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Version resolution, maps the requested major version of a library to its
+ * versioned documentation, DeepWiki branch and code conventions.
+ */
+import type { AntVLibrary, DocBackend } from '../types';
+import { getLibraryConfig, getLibraryVersions } from '../constant';
+import { getMajorVersion } from './workspace';
+
+/**
+ * Get the major version documented by default for a library, if known.
+ */
+export function getLatestVersion(library: AntVLibrary): string | undefined {
+  const versions = getLibraryVersions(library);
+  return Object.keys(versions).find((v) => versions[v].latest);
+}
+
+/**
+ * Normalize a version or range to its major version, e.g. `^4.2.0` → `4`.
+ */
+export function normalizeVersion(version?: string): string | undefined {
+  const major = getMajorVersion(version);
+  return major === undefined ? undefined : String(major);
+}
+
+/**
+ * Get the code conventions of a library version, defaulting to the latest.
+ */
+export function getLibraryCodeStyle(
+  library: AntVLibrary,
+  version?: string,
+): string {
+  const versions = getLibraryVersions(library);
+  const major = normalizeVersion(version) || getLatestVersion(library);
+  return (
+    (major && versions[major]?.codeStyle) || getLibraryConfig(library).codeStyle
+  );
+}
+
+/**
+ * Scope a DeepWiki question to a version. DeepWiki indexes the default branch
+ * only, so older versions are asked for explicitly.
+ */
+export function getVersionedQuestion(
+  library: AntVLibrary,
+  question: string,
+  version?: string,
+): string {
+  const major = normalizeVersion(version);
+  if (!major || major === getLatestVersion(library)) return question;
+
+  const branch = getLibraryVersions(library)[major]?.branch;
+  return `${question}\n\nAnswer for ${getLibraryConfig(library).name} ${major}.x${branch ? ` (the \`${branch}\` branch)` : ''}.`;
+}
+
+/**
+ * Get the major version covered by the documentation of a backend, `null`
+ * when unknown (unversioned library or local index).
+ */
+function getDocumentedVersion(
+  library: AntVLibrary,
+  backend: DocBackend,
+  version: string,
+): string | null {
+  if (backend === 'Local') return null;
+  const latest = getLatestVersion(library) ?? null;
+  if (backend === 'DeepWiki') return latest;
+  return getLibraryVersions(library)[version] ? version : latest;
+}
+
+/**
+ * Warn when the requested version differs from the version covered by the
+ * documentation of the backends that answered.
+ */
+export function getVersionWarnings(
+  library: AntVLibrary,
+  version: string | undefined,
+  backends: DocBackend[],
+): string[] {
+  const major = normalizeVersion(version);
+  if (!major) return [];
+
+  const name = getLibraryConfig(library).name;
+  const warnings: string[] = [];
+  for (const backend of backends) {
+    const documented = getDocumentedVersion(library, backend, major);
+    if (documented === major) continue;
+    if (documented) {
+      warnings.push(
+        `The ${backend} documentation covers ${name} ${documented}.x, not the requested ${major}.x, APIs may differ.`,
+      );
+    } else if (backend !== 'Local') {
+      warnings.push(
+        `The ${backend} documentation of ${name} is not versioned and covers the latest release, which may differ from the requested ${major}.x.`,
+      );
+    }
+  }
+  return warnings;
+}
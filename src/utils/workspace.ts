@@ -0,0 +1,372 @@
+/**
+ * Workspace service, detects the AntV packages installed in a project from its
+ * package.json and npm, yarn or pnpm lockfile.
+ */
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ListRootsResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { AntVLibrary, ToolExtra } from '../types';
+import { logger } from './logger';
+
+// Packages of each AntV library, the first one is the core package.
+export const ANTV_PACKAGES: Record<AntVLibrary, string[]> = {
+  g2: ['@antv/g2'],
+  g6: ['@antv/g6', '@antv/g6-extension-react', '@antv/g6-extension-3d'],
+  l7: ['@antv/l7', '@antv/l7-react', '@antv/larkmap'],
+  x6: ['@antv/x6', '@antv/x6-react-shape', '@antv/x6-vue-shape'],
+  f2: ['@antv/f2', '@antv/f2-react', '@antv/f2-vue'],
+  s2: ['@antv/s2', '@antv/s2-react', '@antv/s2-react-components'],
+  g: ['@antv/g', '@antv/g-canvas', '@antv/g-svg', '@antv/g-webgl'],
+  ava: ['@antv/ava', '@antv/ava-react'],
+  adc: ['@ant-design/charts', '@ant-design/plots', '@ant-design/graphs'],
+};
+
+const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+export type DetectedPackage = {
+  name: string;
+  library?: AntVLibrary;
+  /** Version range declared in package.json. */
+  specifier: string;
+  /** Version resolved by the lockfile. */
+  version?: string;
+  dependencyType: (typeof DEPENDENCY_FIELDS)[number];
+};
+
+export type DetectedLibrary = {
+  library: AntVLibrary;
+  version?: string;
+  majorVersion?: number;
+  packages: string[];
+};
+
+export type DetectedProject = {
+  root: string;
+  name?: string;
+  packageManager: PackageManager | null;
+  lockfile: string | null;
+  packages: DetectedPackage[];
+  libraries: DetectedLibrary[];
+};
+
+function isAntVPackage(name: string): boolean {
+  return (
+    name.startsWith('@antv/') ||
+    Object.values(ANTV_PACKAGES).some((packages) => packages.includes(name))
+  );
+}
+
+function getPackageLibrary(name: string): AntVLibrary | undefined {
+  return (Object.keys(ANTV_PACKAGES) as AntVLibrary[]).find((library) =>
+    ANTV_PACKAGES[library].includes(name),
+  );
+}
+
+/**
+ * Get the major version of a version or range, e.g. `^4.2.0` → 4.
+ */
+export function getMajorVersion(version?: string): number | undefined {
+  const match = version?.match(/(\d+)(?:\.\d+|\.x|$)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Entries of `packages` (v2, v3) and `dependencies` (v1) in a `package-lock.json`
+type NpmLockfileEntries = Record<string, { version?: unknown } | null>;
+
+function getLockfileVersion(entry: { version?: unknown } | null): string {
+  return typeof entry?.version === 'string' ? entry.version : '';
+}
+
+/**
+ * Resolve package versions from a `package-lock.json` (v1 to v3).
+ */
+export function parseNpmLockfile(content: string): Record<string, string> {
+  const lock: {
+    packages?: NpmLockfileEntries;
+    dependencies?: NpmLockfileEntries;
+  } = JSON.parse(content);
+  const versions: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(lock.packages || {})) {
+    const match = key.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+    const version = getLockfileVersion(entry);
+    if (match && version) versions[match[1]] = version;
+  }
+  for (const [name, entry] of Object.entries(lock.dependencies || {})) {
+    const version = getLockfileVersion(entry);
+    if (!versions[name] && version) versions[name] = version;
+  }
+  return versions;
+}
+
+/**
+ * Resolve package versions from a `yarn.lock`, classic or berry format.
+ * Entries matching the declared specifier win over other entries of the package.
+ */
+export function parseYarnLockfile(
+  content: string,
+  specifiers: Record<string, string>,
+): Record<string, string> {
+  const versions: Record<string, string> = {};
+  let descriptors: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S.*:$/.test(line) && !line.startsWith('#')) {
+      descriptors = line
+        .slice(0, -1)
+        .split(',')
+        .map((d) => d.trim().replace(/^"|"$/g, ''));
+      continue;
+    }
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (!version) continue;
+
+    for (const descriptor of descriptors) {
+      const match = descriptor.match(/^((?:@[^/@]+\/)?[^@]+)@(?:npm:)?(.*)$/);
+      if (!match) continue;
+      const [, name, range] = match;
+      if (!versions[name] || range === specifiers[name]) {
+        versions[name] = version[1];
+      }
+    }
+    descriptors = [];
+  }
+
+  return versions;
+}
+
+/**
+ * Resolve package versions from a `pnpm-lock.yaml`, using the root importer
+ * of lockfile v6+ or the top-level dependencies of older versions.
+ */
+export function parsePnpmLockfile(content: string): Record<string, string> {
+  const versions: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(
+      /^\s+'?((?:@[^/'\s]+\/)?[^@'\s:]+)'?:\s*'?([^'\s]*)'?\s*$/,
+    );
+    if (!match || versions[match[1]] || !isAntVPackage(match[1])) continue;
+
+    let version = match[2];
+    if (!version) {
+      // Lockfile v6+: `specifier` and `version` on the following lines
+      const next = lines
+        .slice(i + 1, i + 3)
+        .map((l) => l.match(/^\s+version:\s*'?([^'\s]+)'?/))
+        .find(Boolean);
+      version = next ? next[1] : '';
+    }
+    version = version.replace(/\(.*$/, '').replace(/^\//, '');
+    if (/^\d/.test(version)) versions[match[1]] = version;
+  }
+
+  return versions;
+}
+
+async function readFileIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the AntV packages and libraries used by the project at `root`.
+ */
+export async function detectAntVProject(
+  root: string,
+): Promise<DetectedProject | null> {
+  const packageJson = await readFileIfExists(path.join(root, 'package.json'));
+  if (!packageJson) return null;
+
+  const pkg = JSON.parse(packageJson);
+  const packages: DetectedPackage[] = [];
+  for (const dependencyType of DEPENDENCY_FIELDS) {
+    for (const [name, specifier] of Object.entries<string>(
+      pkg[dependencyType] || {},
+    )) {
+      if (isAntVPackage(name) && !packages.some((p) => p.name === name)) {
+        packages.push({
+          name,
+          library: getPackageLibrary(name),
+          specifier,
+          dependencyType,
+        });
+      }
+    }
+  }
+
+  const specifiers = Object.fromEntries(
+    packages.map((p) => [p.name, p.specifier]),
+  );
+  const lockfiles: Array<{
+    file: string;
+    packageManager: PackageManager;
+    parse: (content: string) => Record<string, string>;
+  }> = [
+    {
+      file: 'pnpm-lock.yaml',
+      packageManager: 'pnpm',
+      parse: parsePnpmLockfile,
+    },
+    {
+      file: 'yarn.lock',
+      packageManager: 'yarn',
+      parse: (content) => parseYarnLockfile(content, specifiers),
+    },
+    {
+      file: 'package-lock.json',
+      packageManager: 'npm',
+      parse: parseNpmLockfile,
+    },
+  ];
+
+  let packageManager: PackageManager | null = null;
+  let lockfile: string | null = null;
+  for (const candidate of lockfiles) {
+    const content = await readFileIfExists(path.join(root, candidate.file));
+    if (content === null) continue;
+    packageManager = candidate.packageManager;
+    lockfile = candidate.file;
+    try {
+      const versions = candidate.parse(content);
+      packages.forEach((p) => (p.version = versions[p.name]));
+    } catch (error) {
+      logger.warn(`Failed to parse ${candidate.file}:`, error);
+    }
+    break;
+  }
+
+  const libraries: DetectedLibrary[] = [];
+  for (const library of Object.keys(ANTV_PACKAGES) as AntVLibrary[]) {
+    const matched = packages.filter((p) => p.library === library);
+    if (matched.length === 0) continue;
+    // Prefer the core package to determine the library version
+    const core =
+      matched.find((p) => p.name === ANTV_PACKAGES[library][0]) || matched[0];
+    const version = core.version || core.specifier;
+    libraries.push({
+      library,
+      version: core.version,
+      majorVersion: getMajorVersion(version),
+      packages: matched.map((p) => p.name),
+    });
+  }
+
+  return {
+    root,
+    name: pkg.name,
+    packageManager,
+    lockfile,
+    packages,
+    libraries,
+  };
+}
+
+/**
+ * Error of a project path the server may not scan: outside the client roots,
+ * or any path over HTTP when the client exposes no roots.
+ */
+export class ProjectRootsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectRootsError';
+  }
+}
+
+async function getClientRoots(extra: ToolExtra): Promise<string[]> {
+  try {
+    const { roots } = await extra.sendRequest(
+      { method: 'roots/list' },
+      ListRootsResultSchema,
+      { timeout: 5000 },
+    );
+    return roots
+      .filter((root) => root.uri.startsWith('file://'))
+      .map((root) => fileURLToPath(root.uri));
+  } catch (error) {
+    logger.debug('Client roots are not available:', error);
+    return [];
+  }
+}
+
+async function realpath(directory: string): Promise<string> {
+  return fs.realpath(directory).catch(() => path.resolve(directory));
+}
+
+/**
+ * Whether a directory is one of the roots or inside one, symbolic links
+ * resolved.
+ */
+export async function isInsideRoots(
+  directory: string,
+  roots: string[],
+): Promise<boolean> {
+  const target = await realpath(directory);
+  for (const root of roots) {
+    const relative = path.relative(await realpath(root), target);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) return true;
+  }
+  return false;
+}
+
+/**
+ * Resolve the project directories to scan: the supplied path if it is inside
+ * the client roots, else the client roots. Over HTTP, where the client and the
+ * server run on different machines, only the client roots are scanned. Over
+ * stdio, a client without roots may pass any path, and defaults to the
+ * working directory of the server.
+ * Throws a `ProjectRootsError` for a path the server may not scan.
+ */
+export async function resolveProjectRoots(
+  projectPath?: string,
+  extra?: ToolExtra,
+): Promise<string[]> {
+  const roots = extra ? await getClientRoots(extra) : [];
+  // Only the HTTP transports have sessions
+  const remote = extra?.sessionId !== undefined;
+
+  if (roots.length === 0 && remote) {
+    throw new ProjectRootsError(
+      'The client exposes no roots: over HTTP, only the directories the client lists with `roots/list` are scanned',
+    );
+  }
+  if (!projectPath) return roots.length > 0 ? roots : [process.cwd()];
+
+  const directory = path.resolve(projectPath);
+  if (roots.length > 0 && !(await isInsideRoots(directory, roots))) {
+    throw new ProjectRootsError(
+      `${directory} is outside the client roots: ${roots.join(', ')}`,
+    );
+  }
+  return [directory];
+}
+
+/**
+ * Detect the AntV projects of the supplied path or client roots.
+ */
+export async function detectAntVProjects(
+  projectPath?: string,
+  extra?: ToolExtra,
+): Promise<DetectedProject[]> {
+  const roots = await resolveProjectRoots(projectPath, extra);
+  const projects = await Promise.all(
+    roots.map((root) =>
+      detectAntVProject(root).catch((error) => {
+        logger.warn(`Failed to detect AntV project at ${root}:`, error);
+        return null;
+      }),
+    ),
+  );
+  return projects.filter((p): p is DetectedProject => p !== null);
+}